@@ -5,48 +5,321 @@ import path from 'node:path'
 import { fileURLToPath } from 'node:url'
 import blessed from 'blessed'
 
-import { loadUsageData } from './lib/data-loader.js'
-import type { AnalysisData } from './lib/data-loader.js'
+import { COST_COMPONENTS, createUsageLoader, USAGE_ORIGINS } from './lib/data-loader.js'
+import type {
+  AnalysisData,
+  CacheSavings,
+  CostBreakdown,
+  CostComponent,
+  HourlyActivity,
+  LoadUsageOptions,
+  SessionStats,
+  SourceBreakdown,
+  SummaryStats,
+  UsageLoader,
+  UsageSource,
+} from './lib/data-loader.js'
+import type { CacheMode } from './lib/parse-cache.js'
+import { DATA_ROOT_ENV, getBudgetConfigPaths, getPricingConfigPaths, splitPathList } from './lib/paths.js'
+import { SKIP_REASON_LABELS, SKIP_REASONS, type RootDiagnostics } from './lib/diagnostics.js'
+import { DEFAULT_MODEL_ID, DEFAULT_TIER_BASIS, PRICING_COMPONENTS, type PricingPeriod, type PricingTier } from './lib/pricing.js'
+import { loadActivePricing, PRICING_FILE_ENV, type ActivePricing } from './lib/pricing-config.js'
+import { BASE_CURRENCY, formatExchangeRate, resolveDisplayCurrency } from './lib/currency.js'
+import { evaluateBudgets, type BudgetLevel, type BudgetPeriod, type BudgetStatus } from './lib/budget.js'
+import { buildForecast, type PeriodForecast, type SpendForecast } from './lib/forecast.js'
+import {
+  ANOMALY_WINDOW_DAYS,
+  DEFAULT_ANOMALY_SENSITIVITY,
+  detectAnomalies,
+  type AnomalyDriver,
+  type AnomalyPoint,
+  type AnomalyReport,
+} from './lib/anomaly.js'
+import { BUDGET_FILE_ENV, loadBudgetConfig, parseBudgetSpec, type BudgetConfig } from './lib/budget-config.js'
+import {
+  parseSimulationSpec,
+  simulateRepricing,
+  type SimulatedStats,
+  type SimulationResult,
+  type SimulationRule,
+} from './lib/simulator.js'
+import { watchDirectories } from './lib/watcher.js'
+import {
+  COMPARE_PREVIOUS,
+  DATE_RANGE_PRESETS,
+  resolveComparisonRange,
+  resolveDateRange,
+  type DateRange,
+  type DateRangePreset,
+} from './lib/date-range.js'
+import { buildRollups, formatPeriodLabel, GRANULARITIES, type Granularity, type PeriodRollup } from './lib/rollup.js'
+import { buildBudgetJsonReport, buildJsonReport, JSON_SCHEMA_VERSION } from './lib/json-report.js'
+import { buildComparison, sortComparisonRows, type ComparisonRow, type PeriodComparison } from './lib/compare.js'
+import { addDays, formatZonedDateTime, getWeekday, resolveTimeZone, todayInZone } from './lib/timezone.js'
 import { resolveProjectName } from './lib/workspace-resolver.js'
-import { formatCost, formatNumber, formatPercent, formatTokens, truncate } from './lib/utils.js'
+import {
+  convertCost,
+  formatCost,
+  formatDuration,
+  formatNumber,
+  formatPercent,
+  formatTokens,
+  getCostCurrency,
+  setCostCurrency,
+  truncate,
+} from './lib/utils.js'
 
 // 读取 package.json 获取版本号
 const __dirname = path.dirname(fileURLToPath(import.meta.url))
 const pkgPath = path.resolve(__dirname, '../package.json')
-const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf8')) as { version: string }
+const pkg = JSON.parse(fs.readFileSync(pkgPath, 'utf8')) as { name: string; version: string }
 const VERSION = pkg.version
 
+type CliCommand = 'report' | 'doctor' | 'pricing'
+
 type CliOptions = {
+  command: CliCommand
   days: number | null
+  since: string | null
+  until: string | null
+  preset: DateRangePreset | null
+  source: UsageSource
+  cache: CacheMode
+  timeZone: string | null
+  pricingFile: string | null
+  /** --simulate-model 的原始值 */
+  simulateModel: string | null
+  /** 显示币种；null 时使用价格文件的 currency，再默认 USD */
+  currency: string | null
+  budgetFile: string | null
+  /** --budget 的原始值（可重复） */
+  budgets: string[]
+  /** --check-budget：只输出预算状态，有预算超出时以 BUDGET_EXCEEDED_EXIT_CODE 退出 */
+  checkBudget: boolean
+  /** 异常检测阈值（robust z-score） */
+  anomalySensitivity: number
+  /** --compare 的原始值：previous、日历预设或 <since>..<until> */
+  compare: string | null
+  /** Daily 视图与报告的汇总粒度；null 时 TUI 按天显示，报告不输出按周期汇总 */
+  granularity: Granularity | null
+  codeDirs: string[]
+  ideDirs: string[]
+  workspaceStorageDirs: string[]
+  /** --json：以 JSON 输出到 stdout（隐含 noTui） */
+  json: boolean
+  /** --json-daily：JSON 中附带 dailyData */
+  jsonDaily: boolean
   noTui: boolean
+  watch: boolean
+}
+
+const SOURCE_LABELS: Record<UsageSource, string> = { code: 'Code', ide: 'IDE', all: 'All' }
+
+/** --check-budget 时有预算超出的退出码（1 用于参数或文件错误） */
+const BUDGET_EXCEEDED_EXIT_CODE = 3
+const SOURCE_CYCLE: UsageSource[] = ['code', 'ide', 'all']
+
+function isUsageSource(value: string): value is UsageSource {
+  return (SOURCE_CYCLE as string[]).includes(value)
 }
 
 // 解析命令行参数
 function parseArgs(): CliOptions {
   const args = process.argv.slice(2)
-  const options: CliOptions = { days: null, noTui: false }
+  const options: CliOptions = {
+    command: 'report',
+    days: null,
+    since: null,
+    until: null,
+    preset: null,
+    source: 'code',
+    cache: 'use',
+    timeZone: null,
+    pricingFile: null,
+    simulateModel: null,
+    currency: null,
+    budgetFile: null,
+    budgets: [],
+    checkBudget: false,
+    anomalySensitivity: DEFAULT_ANOMALY_SENSITIVITY,
+    compare: null,
+    granularity: null,
+    codeDirs: [],
+    ideDirs: [],
+    workspaceStorageDirs: [],
+    json: false,
+    jsonDaily: false,
+    noTui: false,
+    watch: false,
+  }
+
+  let sourceGiven = false
 
   for (let i = 0; i < args.length; i++) {
-    if (args[i] === '--days' && args[i + 1]) {
+    if (i === 0 && (args[i] === 'doctor' || args[i] === 'pricing')) {
+      options.command = args[i] as CliCommand
+    } else if (args[i] === '--days' && args[i + 1]) {
       const parsed = Number.parseInt(args[i + 1]!, 10)
       options.days = Number.isFinite(parsed) ? parsed : null
       i++
+    } else if (args[i] === '--since' && args[i + 1]) {
+      options.since = args[i + 1]!
+      i++
+    } else if (args[i] === '--until' && args[i + 1]) {
+      options.until = args[i + 1]!
+      i++
+    } else if (DATE_RANGE_PRESETS.some(preset => args[i] === `--${preset}`)) {
+      options.preset = args[i]!.slice(2) as DateRangePreset
+    } else if (args[i] === '--source' && args[i + 1]) {
+      const value = args[i + 1]!.toLowerCase()
+      if (!isUsageSource(value)) {
+        console.error(`Invalid --source: ${args[i + 1]} (expected code, ide or all)`)
+        process.exit(1)
+      }
+      options.source = value
+      sourceGiven = true
+      i++
+    } else if (args[i] === '--tz' && args[i + 1]) {
+      try {
+        options.timeZone = resolveTimeZone(args[i + 1])
+      } catch (err) {
+        console.error((err as Error).message)
+        process.exit(1)
+      }
+      i++
+    } else if (args[i] === '--pricing' && args[i + 1]) {
+      options.pricingFile = args[i + 1]!
+      i++
+    } else if (args[i] === '--simulate-model' && args[i + 1]) {
+      options.simulateModel = args[i + 1]!
+      i++
+    } else if (args[i] === '--currency' && args[i + 1]) {
+      options.currency = args[i + 1]!
+      i++
+    } else if (args[i] === '--budget' && args[i + 1]) {
+      options.budgets.push(args[i + 1]!)
+      i++
+    } else if (args[i] === '--budget-file' && args[i + 1]) {
+      options.budgetFile = args[i + 1]!
+      i++
+    } else if (args[i] === '--anomaly-sensitivity' && args[i + 1]) {
+      const parsed = Number(args[i + 1])
+      if (!Number.isFinite(parsed) || parsed <= 0) {
+        console.error(`Invalid --anomaly-sensitivity: ${args[i + 1]} (expected a positive number, default ${DEFAULT_ANOMALY_SENSITIVITY})`)
+        process.exit(1)
+      }
+      options.anomalySensitivity = parsed
+      i++
+    } else if (args[i] === '--compare' && args[i + 1]) {
+      options.compare = args[i + 1]!
+      i++
+    } else if (args[i] === '--granularity' && args[i + 1]) {
+      const value = args[i + 1]!.toLowerCase()
+      if (!(GRANULARITIES as string[]).includes(value)) {
+        console.error(`Invalid --granularity: ${args[i + 1]} (expected ${GRANULARITIES.join(', ')})`)
+        process.exit(1)
+      }
+      options.granularity = value as Granularity
+      i++
+    } else if (args[i] === '--json' || args[i] === '--json-daily') {
+      options.json = true
+      options.jsonDaily ||= args[i] === '--json-daily'
+      options.noTui = true
+    } else if (args[i] === '--check-budget') {
+      options.checkBudget = true
+      options.noTui = true
+    } else if (args[i] === '--code-dir' && args[i + 1]) {
+      options.codeDirs.push(...splitPathList(args[i + 1]))
+      i++
+    } else if (args[i] === '--ide-dir' && args[i + 1]) {
+      options.ideDirs.push(...splitPathList(args[i + 1]))
+      i++
+    } else if (args[i] === '--workspace-storage-dir' && args[i + 1]) {
+      options.workspaceStorageDirs.push(...splitPathList(args[i + 1]))
+      i++
+    } else if (args[i] === '--no-cache') {
+      options.cache = 'off'
+    } else if (args[i] === '--rebuild-cache') {
+      options.cache = 'rebuild'
     } else if (args[i] === '--no-tui') {
       options.noTui = true
+    } else if (args[i] === '--watch' || args[i] === '-w') {
+      options.watch = true
     } else if (args[i] === '--help' || args[i] === '-h') {
       console.log(`
 CodeBuddy Stats
 
 Usage: codebuddy-stats [options]
+       codebuddy-stats doctor [options]
+       codebuddy-stats pricing [--pricing <file>] [--currency <code>]
+
+Commands:
+  doctor            诊断数据目录、解析失败的行与计价兜底情况（默认检查 Code 与 IDE）
+  pricing           显示当前生效的价格表（内置价格 + 用户价格文件）
 
 Options:
-  --days <n>    只显示最近 n 天的数据
-  --no-tui      使用纯文本输出（不启用交互式界面）
-  --help, -h    显示帮助信息
+  --days <n>        只显示最近 n 天的数据
+  --since <date>    起始日期（含），格式 YYYY-MM-DD
+  --until <date>    结束日期（含），格式 YYYY-MM-DD
+  --this-week       本周（周一至今）
+  --this-month      本月（1 日至今）
+  --last-month      上一个自然月
+  --ytd             今年 1 月 1 日至今
+  --source <name>   数据源：code（默认）、ide 或 all（合并两者）
+  --tz <zone>       按指定 IANA 时区划分日期（如 Asia/Shanghai），默认本地时区
+  --pricing <file>  用户价格文件（JSON / YAML），默认 ${getPricingConfigPaths()[0]}
+  --simulate-model <spec>
+                    what-if 模拟：按另一个模型的价格重新计价，可写单个 model ID，
+                    或映射列表如 'opus→sonnet,gpt-5.2→gpt-5.1'（也可用 ->）
+  --currency <code> 金额显示币种（如 CNY），汇率取自价格文件的 exchangeRates 或内置汇率
+  --budget <spec>   预算，可重复：monthly=200、project:<name>:weekly=50、model:<name>:daily=10
+                    （金额按显示币种，与预算文件中的预算一起生效）
+  --budget-file <file>
+                    预算文件（JSON / YAML），默认 ${getBudgetConfigPaths()[0]}
+  --check-budget    只输出预算状态（隐含 --no-tui，可与 --json 合用）；有预算超出时退出码为 ${BUDGET_EXCEEDED_EXIT_CODE}
+  --anomaly-sensitivity <z>
+                    异常检测阈值（与前 ${ANOMALY_WINDOW_DAYS} 天中位数比较的 robust z-score），默认 ${DEFAULT_ANOMALY_SENSITIVITY}，越小越敏感
+  --compare <range> 与另一个周期对比：previous（上一个同长度 / 同类周期）、日历预设（如 last-month）
+                    或 <since>..<until>；TUI 中 By Model / By Project 按 p 切换对比列
+  --granularity <g> 按 day / week（ISO 周）/ month 汇总：Daily 视图的初始粒度，报告中输出对应的按周期汇总
+  --code-dir <dir>  CodeBuddy Code 的 projects 目录，可重复指定以合并多个目录
+  --ide-dir <dir>   CodeBuddyExtension 的 Data 目录，可重复指定
+  --workspace-storage-dir <dir>
+                    IDE 的 workspaceStorage 目录（用于还原工作区路径），可重复指定
+  --no-cache        不读取也不写入 JSONL 解析缓存
+  --rebuild-cache   丢弃已有的解析缓存并重新生成
+  --no-tui          使用纯文本输出（不启用交互式界面）
+  --json            以 JSON 输出到 stdout（schemaVersion ${JSON_SCHEMA_VERSION}，金额为 currency.code 即 --currency 所选币种；隐含 --no-tui）
+  --json-daily      同 --json，并附带按日期 / 项目 / 模型的 dailyData
+  --watch, -w       监听数据目录，有新用量时自动刷新 TUI
+  --help, -h        显示帮助信息
+
+Environment:
+  ${DATA_ROOT_ENV.codeDirs}, ${DATA_ROOT_ENV.ideDirs}, ${DATA_ROOT_ENV.workspaceStorageDirs}
+                    与上面三个目录选项等价，多个目录用 '${path.delimiter}' 分隔；命令行参数优先
+  ${PRICING_FILE_ENV}
+                    与 --pricing 等价
+  ${BUDGET_FILE_ENV}
+                    与 --budget-file 等价
 `)
       process.exit(0)
     }
   }
+
+  // doctor 默认同时检查两种数据源
+  if (options.command === 'doctor' && !sourceGiven) {
+    options.source = 'all'
+  }
+
+  // 提前校验日期范围与对比范围，避免加载到一半才报错
+  try {
+    resolveDateRange(options, resolveTimeZone(options.timeZone))
+    if (options.compare) resolveComparisonRange(options.compare, options, resolveTimeZone(options.timeZone))
+  } catch (err) {
+    console.error((err as Error).message)
+    process.exit(1)
+  }
+
   return options
 }
 
@@ -60,8 +333,153 @@ function getHeatChar(cost: number, maxCost: number): string {
   return '█'
 }
 
+// 按来源拆分显示（如 "Code $1.00 · IDE $0.50"），只有一个来源时返回其名称
+function formatSourceSplit(sources: SourceBreakdown): string {
+  const parts = USAGE_ORIGINS.filter(origin => sources[origin])
+  if (parts.length <= 1) return parts.map(origin => SOURCE_LABELS[origin]).join('')
+  return parts.map(origin => `${SOURCE_LABELS[origin]} ${formatCost(sources[origin]!.cost)}`).join(' · ')
+}
+
+// 来源标签（Code / IDE / Code+IDE）
+function formatSourceTag(sources: SourceBreakdown): string {
+  const parts = USAGE_ORIGINS.filter(origin => sources[origin])
+  return parts.length ? parts.map(origin => SOURCE_LABELS[origin]).join('+') : '-'
+}
+
+const COST_COMPONENT_LABELS: Record<CostComponent, string> = {
+  input: 'Input',
+  output: 'Output',
+  cacheRead: 'Cache read',
+  cacheWrite: 'Cache write',
+}
+
+// 分项费用及占比，如 "Input $1.20 (30.0%) · Output $2.80 (70.0%)"，省略为 0 的分项
+function formatCostBreakdown(costs: CostBreakdown, total: number): string {
+  const parts = COST_COMPONENTS.filter(component => costs[component] > 0).map(
+    component =>
+      `${COST_COMPONENT_LABELS[component]} ${formatCost(costs[component])} (${formatPercent(total > 0 ? costs[component] / total : 0)})`,
+  )
+  return parts.length ? parts.join(' · ') : '-'
+}
+
+// 分项费用列（By Model / By Project 的分项视图）
+const COMPONENT_COL = 13
+
+function formatComponentHeader(): string {
+  return COST_COMPONENTS.map(component => COST_COMPONENT_LABELS[component].padStart(COMPONENT_COL)).join('')
+}
+
+function formatComponentCells(costs: CostBreakdown): string {
+  return COST_COMPONENTS.map(component => formatCost(costs[component]).padStart(COMPONENT_COL)).join('')
+}
+
+// 带符号的费用，如 "-$0.15"
+function formatSignedCost(cost: number): string {
+  return cost < 0 ? `-${formatCost(-cost)}` : formatCost(cost)
+}
+
+// 缓存净节省，如 "$3.10 (12.7%)"，百分比相对无缓存费用
+function formatNetSavings(savings: CacheSavings): string {
+  const net = savings.readSavings - savings.writePremium
+  const share = savings.noCacheCost > 0 ? net / savings.noCacheCost : 0
+  return `${formatSignedCost(net)} (${formatPercent(share)})`
+}
+
+// 是否有缓存明细（IDE 数据没有缓存 token，不显示缓存节省）
+function hasCacheActivity(savings: CacheSavings): boolean {
+  return savings.readSavings !== 0 || savings.writePremium !== 0
+}
+
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }
+
+const BUDGET_LEVEL_COLORS: Record<BudgetLevel, string> = { ok: 'green', warning: 'yellow', exceeded: 'red' }
+
+function colorBudget(text: string, level: BudgetLevel): string {
+  const color = BUDGET_LEVEL_COLORS[level]
+  return `{${color}-fg}${text}{/${color}-fg}`
+}
+
+// 预算名称，如 "Monthly total"、"Weekly project api"
+function formatBudgetName(status: BudgetStatus): string {
+  const { period, scope, pattern } = status.budget
+  return `${BUDGET_PERIOD_LABELS[period]} ${scope === 'total' ? 'total' : `${scope} ${pattern}`}`
+}
+
+// 预算使用情况，如 "$81.20 / $100.00 (81.2%)"；日期范围未覆盖整个周期时加 *
+function formatBudgetUsage(status: BudgetStatus): string {
+  const partial = status.partial ? '*' : ''
+  return `${formatCost(status.spent)} / ${formatCost(status.budget.amount)} (${formatPercent(status.ratio)})${partial}`
+}
+
+// 使用比例进度条
+function formatBudgetBar(ratio: number, width: number): string {
+  const filled = Math.min(width, Math.round(Math.min(1, ratio) * width))
+  return '█'.repeat(filled) + '░'.repeat(width - filled)
+}
+
+// 使用比例最高的预算（状态栏只显示这一项）
+function getTightestBudget(statuses: BudgetStatus[]): BudgetStatus | null {
+  return statuses.reduce<BudgetStatus | null>((max, status) => (!max || status.ratio > max.ratio ? status : max), null)
+}
+
+const BUDGET_PARTIAL_NOTE = '* 加载的日期范围没有覆盖整个预算周期，花费可能偏低'
+
+const FORECAST_LABELS: Record<PeriodForecast['period'], string> = { week: 'This week', month: 'This month' }
+
+// 预测值，如 "$18.40"；日期范围未覆盖周期开头时加 *
+function formatForecastValue(forecast: PeriodForecast): string {
+  return formatCost(forecast.projected) + (forecast.partial ? '*' : '')
+}
+
+const FORECAST_PARTIAL_NOTE = '* 加载的日期范围从周期中途开始，预测缺少之前的花费，可能偏低'
+
+// 预测区间，如 "$12.10 – $24.70"
+function formatForecastBand(forecast: PeriodForecast): string {
+  return `${formatCost(forecast.low)} – ${formatCost(forecast.high)}`
+}
+
+// 与同周期的总预算比较：预计超出时返回对应预算
+function findOvershotBudget(forecast: PeriodForecast, budgets: BudgetStatus[]): BudgetStatus | null {
+  const period: BudgetPeriod = forecast.period === 'week' ? 'weekly' : 'monthly'
+  return (
+    budgets.find(
+      status =>
+        status.budget.scope === 'total' && status.budget.period === period && forecast.projected > status.budget.amount,
+    ) ?? null
+  )
+}
+
+// 异常日标记：总花费异常为红色 ▲，只有项目 / 模型序列异常为黄色 △
+const ANOMALY_MARK = '▲'
+const SERIES_ANOMALY_MARK = '△'
+
+// 异常相对基线的倍数与得分，如 "8.2× median $1.50, z=9.1"
+function formatAnomalyScore(point: AnomalyPoint): string {
+  const ratio = point.baseline > 0 ? `${(point.cost / point.baseline).toFixed(1)}× ` : ''
+  const score = Number.isFinite(point.score) ? point.score.toFixed(1) : '∞'
+  return `${ratio}median ${formatCost(point.baseline)}, z=${score}`
+}
+
+function formatAnomalyDrivers(drivers: AnomalyDriver[], data: AnalysisData): string {
+  return drivers
+    .map(driver => {
+      const name = driver.series === 'project' ? resolveProjectName(driver.key, data.workspaceMappings) : driver.key
+      return `${truncate(name, 40)} +${formatCost(driver.excess)}`
+    })
+    .join(', ')
+}
+
 // 渲染 Overview 视图
-function renderOverview(box: any, data: AnalysisData, width: number, height: number, note: string): void {
+function renderOverview(
+  box: any,
+  data: AnalysisData,
+  width: number,
+  height: number,
+  note: string,
+  budgets: BudgetStatus[],
+  forecast: SpendForecast | null,
+  anomalies: AnomalyReport,
+): void {
   const { dailySummary, grandTotal, topModel, topProject, cacheHitRate, activeDays } = data
 
   const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
@@ -98,30 +516,24 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
     const availableWidth = safeWidth - 10
     const maxWeeks = Math.min(Math.floor(availableWidth / 2), 26) // 最多 26 周 (半年)
 
-    // 生成正确的日期网格 - 从今天往前推算
-    const today = new Date()
-    const todayStr = today.toISOString().split('T')[0]!
-
-    // 找到最近的周六作为结束点（或今天）
-    const endDate = new Date(today)
+    // 生成正确的日期网格 - 从今天往前推算（按数据所用时区的日历）
+    const todayStr = todayInZone(data.timeZone)
 
     // 往前推 maxWeeks 周
-    const startDate = new Date(endDate)
-    startDate.setDate(startDate.getDate() - maxWeeks * 7 + 1)
-    // 调整到周一开始（getDay(): 0=Sun, 1=Mon, ..., 6=Sat）
-    const dayOfWeekStart = startDate.getDay()
+    let startDate = addDays(todayStr, -maxWeeks * 7 + 1)
+    // 调整到周一开始（getWeekday(): 0=Sun, 1=Mon, ..., 6=Sat）
+    const dayOfWeekStart = getWeekday(startDate)
     const offsetToMonday = dayOfWeekStart === 0 ? -6 : 1 - dayOfWeekStart
-    startDate.setDate(startDate.getDate() + offsetToMonday)
+    startDate = addDays(startDate, offsetToMonday)
 
     // 构建周数组，每周从周一到周日
     const weeks: string[][] = []
-    const currentDate = new Date(startDate)
-    while (currentDate <= endDate) {
+    let currentDate = startDate
+    while (currentDate <= todayStr) {
       const week: string[] = []
       for (let d = 0; d < 7; d++) {
-        const dateStr = currentDate.toISOString().split('T')[0]!
-        week.push(dateStr)
-        currentDate.setDate(currentDate.getDate() + 1)
+        week.push(currentDate)
+        currentDate = addDays(currentDate, 1)
       }
       weeks.push(week)
     }
@@ -135,6 +547,7 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
       }
     }
     const maxCost = Math.max(...visibleCosts, 0) || 1
+    const anomalyDates = new Set(anomalies.days.map(day => day.date))
 
     // 月份标尺（在列上方标注月份变化）
     const colWidth = 2 // 每周一列：字符 + 空格
@@ -149,7 +562,7 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
       const repDate = week.find(d => d && d <= todayStr) ?? week[0]
       if (!repDate) continue
 
-      const m = new Date(repDate).getMonth()
+      const m = Number(repDate.slice(5, 7)) - 1
       if (m !== lastMonth) {
         const label = monthNames[m]!
         const pos = heatStartCol + i * colWidth
@@ -173,7 +586,8 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
       for (const week of weeks) {
         const date = week[dayOfWeek]
         if (date && date <= todayStr && dailySummary[date]) {
-          row += getHeatChar(dailySummary[date]!.cost, maxCost) + ' '
+          const heatChar = getHeatChar(dailySummary[date]!.cost, maxCost)
+          row += (anomalyDates.has(date) ? `{red-fg}${heatChar}{/red-fg}` : heatChar) + ' '
         } else if (date && date <= todayStr) {
           row += '· ' // 有日期但无数据
         } else {
@@ -185,7 +599,10 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
 
     const rangeStart = weeks[0]?.[0] ?? todayStr
     lines.push(`{gray-fg}Range: ${rangeStart} → ${todayStr}{/gray-fg}`)
-    lines.push('    Less {gray-fg}·░▒▓{/gray-fg}{white-fg}█{/white-fg} More')
+    lines.push(
+      '    Less {gray-fg}·░▒▓{/gray-fg}{white-fg}█{/white-fg} More' +
+        (anomalies.days.some(day => day.date >= rangeStart) ? '   {red-fg}█{/red-fg} spike' : ''),
+    )
 
     return lines
   }
@@ -236,6 +653,19 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
           padEndVisible(' {green-fg}Avg daily cost:{/green-fg}', rightLabelW) +
           formatCost(avgDailyCost).padStart(rightValW),
       )
+
+      if (hasCacheActivity(grandTotal.cacheSavings)) {
+        const savings = grandTotal.cacheSavings
+        lines.push(
+          padEndVisible(
+            padEndVisible('{green-fg}Cache savings:{/green-fg}', leftLabelW) +
+              formatSignedCost(savings.readSavings - savings.writePremium).padStart(leftValW),
+            leftPartW,
+          ) +
+            padEndVisible(' {green-fg}No-cache cost:{/green-fg}', rightLabelW) +
+            formatCost(savings.noCacheCost).padStart(rightValW),
+        )
+      }
     } else {
       lines.push(`{green-fg}~Total cost:{/green-fg}      ${formatCost(grandTotal.cost)}`)
       lines.push(`{green-fg}Total tokens:{/green-fg}     ${formatTokens(grandTotal.tokens)}`)
@@ -243,6 +673,14 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
       lines.push(`{green-fg}Active days:{/green-fg}      ${activeDays}`)
       lines.push(`{green-fg}Cache hit rate:{/green-fg}   ${formatPercent(cacheHitRate)}`)
       lines.push(`{green-fg}Avg daily cost:{/green-fg}   ${formatCost(avgDailyCost)}`)
+      if (hasCacheActivity(grandTotal.cacheSavings)) {
+        lines.push(`{green-fg}Cache savings:{/green-fg}    ${formatNetSavings(grandTotal.cacheSavings)}`)
+        lines.push(`{green-fg}No-cache cost:{/green-fg}    ${formatCost(grandTotal.cacheSavings.noCacheCost)}`)
+      }
+    }
+
+    if (data.source === 'all') {
+      lines.push(`{green-fg}By source:{/green-fg}        ${formatSourceSplit(grandTotal.sources)}`)
     }
 
     if (!compact) lines.push('')
@@ -262,6 +700,37 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
       lines.push(label + truncate(shortName, maxNameLen) + ' ' + tail)
     }
 
+    if (forecast) {
+      if (!compact) lines.push('')
+      lines.push(
+        `{bold}Forecast{/bold} {gray-fg}(${Math.round(forecast.confidence * 100)}% band, ${forecast.historyDays}-day history){/gray-fg}`,
+      )
+      for (const period of [forecast.week, forecast.month]) {
+        const overshot = findOvershotBudget(period, budgets)
+        const warning = overshot ? ` {red-fg}> budget ${formatCost(overshot.budget.amount)}{/red-fg}` : ''
+        lines.push(
+          `{green-fg}${(FORECAST_LABELS[period.period] + ':').padEnd(12)}{/green-fg}` +
+            formatForecastValue(period).padStart(10) +
+            ` {gray-fg}(${formatForecastBand(period)}){/gray-fg}${warning}`,
+        )
+      }
+      if (forecast.week.partial || forecast.month.partial) lines.push(`{gray-fg}${FORECAST_PARTIAL_NOTE}{/gray-fg}`)
+    }
+
+    if (budgets.length) {
+      if (!compact) lines.push('')
+      lines.push('{bold}Budgets{/bold}')
+      const nameW = Math.min(24, Math.max(...budgets.map(status => formatBudgetName(status).length)) + 2)
+      const barW = maxW - nameW >= 46 ? 10 : 0
+      for (const status of budgets) {
+        const bar = barW ? colorBudget(formatBudgetBar(status.ratio, barW), status.level) + ' ' : ''
+        lines.push(
+          truncate(formatBudgetName(status), nameW - 1).padEnd(nameW) + bar + colorBudget(formatBudgetUsage(status), status.level),
+        )
+      }
+      if (budgets.some(status => status.partial)) lines.push(`{gray-fg}${BUDGET_PARTIAL_NOTE}{/gray-fg}`)
+    }
+
     return lines
   }
 
@@ -309,6 +778,159 @@ function renderOverview(box: any, data: AnalysisData, width: number, height: num
   box.setContent(verticalLines.join('\n'))
 }
 
+const ESTIMATED_BADGE = 'estimated (unknown model)'
+
+// Model 列（已补齐到 width）：价格表中找不到的 model 追加 estimated 标记，宽度不够时缩写
+function formatModelCell(modelId: string, estimated: boolean, width: number): string {
+  if (!estimated) return truncate(modelId, width - 1).padEnd(width)
+  const badge = width - 1 - ESTIMATED_BADGE.length - 1 >= 10 ? ESTIMATED_BADGE : 'estimated'
+  const name = truncate(modelId, Math.max(1, width - 1 - badge.length - 1))
+  return `${name} {yellow-fg}${badge}{/yellow-fg}` + ' '.repeat(Math.max(0, width - name.length - badge.length - 1))
+}
+
+// By Model / By Project 的列：默认 / 分项费用 / what-if 模拟 / 周期对比
+type ListColumns = 'default' | 'components' | 'whatIf' | 'compare'
+
+// 费用变化，如 "+$1.20"、"-$0.35"
+function formatCostDelta(delta: number): string {
+  return delta > 0 ? `+${formatCost(delta)}` : formatSignedCost(delta)
+}
+
+// 相对变化，如 "+12.5%"；基数为 0 时为 "-"
+function formatChangePercent(delta: number, base: number): string {
+  if (base <= 0) return '-'
+  const pct = (delta / base) * 100
+  return `${pct > 0 ? '+' : ''}${pct.toFixed(1)}%`
+}
+
+// 已补齐宽度的变化值着色：变贵为红色，变便宜为绿色
+function colorDelta(cell: string, delta: number): string {
+  if (delta > 0.005) return `{red-fg}${cell}{/red-fg}`
+  if (delta < -0.005) return `{green-fg}${cell}{/green-fg}`
+  return cell
+}
+
+function formatSimulationRules(rules: SimulationRule[]): string {
+  return rules.map(rule => `${rule.pattern === '*' ? 'all' : rule.pattern}→${rule.target}`).join(', ')
+}
+
+// what-if 列：Simulated + Diff + Change
+const WHAT_IF_COLS = 12 + 12 + 10
+
+function formatWhatIfHeader(): string {
+  return 'Simulated'.padStart(12) + 'Diff'.padStart(12) + 'Change'.padStart(10)
+}
+
+function formatWhatIfCells(stats: SimulatedStats | undefined): string {
+  if (!stats) return ''.padStart(WHAT_IF_COLS)
+  const delta = stats.simulated - stats.actual
+  return (
+    formatCost(stats.simulated).padStart(12) +
+    colorDelta(formatCostDelta(delta).padStart(12), delta) +
+    colorDelta(formatChangePercent(delta, stats.actual).padStart(10), delta)
+  )
+}
+
+// 列表标题，附带可用的列切换提示与当前 what-if 规则
+function formatListTitle(title: string, columns: ListColumns, simulation: SimulationResult | null): string {
+  const hint = simulation ? '(c components, w what-if, p compare)' : '(c components, p compare)'
+  const rules =
+    columns === 'whatIf' && simulation
+      ? `  {yellow-fg}What-if: ${formatSimulationRules(simulation.rules)}{/yellow-fg}`
+      : ''
+  return `{bold}${title}{/bold}  {gray-fg}${hint}{/gray-fg}${rules}\n\n`
+}
+
+// 带符号的变化量，如 "+1.2M"、"-35"
+function formatSignedChange(delta: number, format: (value: number) => string): string {
+  if (delta === 0) return '0'
+  return (delta > 0 ? '+' : '-') + format(Math.abs(delta))
+}
+
+// 命中率之差（百分点），如 "+5.0pp"
+function formatPointChange(delta: number): string {
+  const points = (delta * 100).toFixed(1)
+  return Number(points) === 0 ? '0.0pp' : `${delta > 0 ? '+' : ''}${points}pp`
+}
+
+// 对比列：费用（本期 / 对比期 / 差额 / 变化）+ Token、请求数（本期 / 变化）+ 缓存命中率（本期 / 百分点差）
+const COMPARE_COLS = 12 + 12 + 12 + 10 + 10 + 9 + 10 + 9 + 9 + 9
+
+function formatCompareHeader(): string {
+  return (
+    '~Cost'.padStart(12) +
+    'Previous'.padStart(12) +
+    'Diff'.padStart(12) +
+    'Change'.padStart(10) +
+    'Tokens'.padStart(10) +
+    'Change'.padStart(9) +
+    'Requests'.padStart(10) +
+    'Change'.padStart(9) +
+    'Cache'.padStart(9) +
+    'Change'.padStart(9)
+  )
+}
+
+function formatCompareCells(row: ComparisonRow): string {
+  const { current, previous, change } = row
+  return (
+    formatCost(current.cost).padStart(12) +
+    formatCost(previous.cost).padStart(12) +
+    colorDelta(formatCostDelta(change.cost.delta).padStart(12), change.cost.delta) +
+    colorDelta(formatChangePercent(change.cost.delta, previous.cost).padStart(10), change.cost.delta) +
+    formatTokens(current.tokens).padStart(10) +
+    formatChangePercent(change.tokens.delta, previous.tokens).padStart(9) +
+    formatNumber(current.requests).padStart(10) +
+    formatChangePercent(change.requests.delta, previous.requests).padStart(9) +
+    formatPercent(current.cacheHitRate).padStart(9) +
+    formatPointChange(change.cacheHitRate).padStart(9)
+  )
+}
+
+// By Model / By Project 的对比列表：包含只在其中一个周期出现的模型 / 项目
+function renderComparisonList(
+  box: any,
+  kind: 'model' | 'project',
+  data: AnalysisData,
+  comparison: PeriodComparison,
+  scrollOffset: number,
+  width: number,
+  note: string,
+  pageSize: number,
+): void {
+  const rows = sortComparisonRows(kind === 'model' ? comparison.byModel : comparison.byProject)
+  const availableWidth = width - 6 // padding
+  const nameCol = Math.max(20, Math.min(40, availableWidth - COMPARE_COLS))
+  const totalWidth = nameCol + COMPARE_COLS
+
+  let content = formatListTitle(kind === 'model' ? 'Cost by Model' : 'Cost by Project', 'compare', null)
+  content += `{yellow-fg}${comparison.current.label}{/yellow-fg} vs {yellow-fg}${comparison.previous.label}{/yellow-fg}\n`
+  content += '{underline}' + (kind === 'model' ? 'Model' : 'Project').padEnd(nameCol) + formatCompareHeader() + '{/underline}\n'
+
+  const safePageSize = Math.max(1, Math.floor(pageSize || 1))
+  for (const [key, row] of rows.slice(scrollOffset, scrollOffset + safePageSize)) {
+    const name =
+      kind === 'model'
+        ? formatModelCell(key, data.modelTotals[key]?.estimated ?? false, nameCol)
+        : truncate(resolveProjectName(key, data.workspaceMappings), nameCol - 1).padEnd(nameCol)
+    content += name + formatCompareCells(row) + '\n'
+  }
+
+  content += '─'.repeat(totalWidth) + '\n'
+  content += '{bold}' + 'Total'.padEnd(nameCol) + formatCompareCells(comparison.total) + '{/bold}\n'
+
+  if (rows.length > safePageSize) {
+    content += `\n{gray-fg}Showing ${scrollOffset + 1}-${Math.min(scrollOffset + safePageSize, rows.length)} of ${rows.length} ${kind}s (↑↓ to scroll){/gray-fg}`
+  }
+  content += `\n{gray-fg}Change: 相对对比周期的变化；Cache: 缓存命中率，Change 为百分点差{/gray-fg}`
+
+  if (note) {
+    content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
+  }
+
+  box.setContent(content)
+}
+
 // 渲染 By Model 视图
 function renderByModel(
   box: any,
@@ -317,24 +939,54 @@ function renderByModel(
   width: number,
   note: string,
   pageSize: number,
+  columns: ListColumns,
+  simulation: SimulationResult | null,
+  comparison: PeriodComparison | null,
 ): void {
+  if (columns === 'compare' && comparison) {
+    renderComparisonList(box, 'model', data, comparison, scrollOffset, width, note, pageSize)
+    return
+  }
+
   const { modelTotals, grandTotal } = data
   const sorted = Object.entries(modelTotals).sort((a, b) => b[1].cost - a[1].cost)
+  const mode: ListColumns = (columns === 'whatIf' && !simulation) || columns === 'compare' ? 'default' : columns
+  const showSplit = data.source === 'all' && mode === 'default'
+  // 只有数据中出现推理 token（如 GPT-5 系列）时才显示 Reasoning 列
+  const showReasoning = mode === 'default' && sorted.some(([, stats]) => stats.reasoningTokens > 0)
+  const totalReasoning = sorted.reduce((sum, [, stats]) => sum + stats.reasoningTokens, 0)
+  const targetCol = 20
 
   // 根据宽度计算列宽
   const availableWidth = width - 6 // padding
-  const fixedCols = 12 + 12 + 12 + 10 // Cost + Requests + Tokens + Avg/Req
+  const splitCols = showSplit ? USAGE_ORIGINS.length * 12 : 0 // 每个来源一列 Cost
+  const fixedCols =
+    mode === 'components'
+      ? 12 + COST_COMPONENTS.length * COMPONENT_COL // Cost + 各分项
+      : mode === 'whatIf'
+        ? 12 + targetCol + WHAT_IF_COLS // Cost + Simulated as + Simulated + Diff + Change
+        : 12 + 12 + 12 + 10 + splitCols + (showReasoning ? 12 : 0) // Cost + Requests + Tokens (+ Reasoning) + Avg/Req (+ Code/IDE)
   const modelCol = Math.max(20, Math.min(40, availableWidth - fixedCols))
   const totalWidth = modelCol + fixedCols
 
-  let content = '{bold}Cost by Model{/bold}\n\n'
+  const splitHeader = showSplit ? USAGE_ORIGINS.map(origin => SOURCE_LABELS[origin].padStart(12)).join('') : ''
+  const splitCells = (sources: SourceBreakdown): string =>
+    showSplit ? USAGE_ORIGINS.map(origin => formatCost(sources[origin]?.cost ?? 0).padStart(12)).join('') : ''
+
+  let content = formatListTitle('Cost by Model', mode, simulation)
   content +=
     '{underline}' +
     'Model'.padEnd(modelCol) +
     '~Cost'.padStart(12) +
-    'Requests'.padStart(12) +
-    'Tokens'.padStart(12) +
-    'Avg/Req'.padStart(10) +
+    (mode === 'components'
+      ? formatComponentHeader()
+      : mode === 'whatIf'
+        ? '  Simulated as'.padEnd(targetCol) + formatWhatIfHeader()
+        : splitHeader +
+          'Requests'.padStart(12) +
+          'Tokens'.padStart(12) +
+          (showReasoning ? 'Reasoning'.padStart(12) : '') +
+          'Avg/Req'.padStart(10)) +
     '{/underline}\n'
 
   const safePageSize = Math.max(1, Math.floor(pageSize || 1))
@@ -342,12 +994,20 @@ function renderByModel(
 
   for (const [modelId, stats] of visibleModels) {
     const avgPerReq = stats.requests > 0 ? stats.cost / stats.requests : 0
+    const simulated = simulation?.byModel[modelId]
     content +=
-      truncate(modelId, modelCol - 1).padEnd(modelCol) +
+      formatModelCell(modelId, stats.estimated, modelCol) +
       formatCost(stats.cost).padStart(12) +
-      formatNumber(stats.requests).padStart(12) +
-      formatTokens(stats.tokens).padStart(12) +
-      formatCost(avgPerReq).padStart(10) +
+      (mode === 'components'
+        ? formatComponentCells(stats.costs)
+        : mode === 'whatIf'
+          ? ('  ' + truncate(simulated?.target ?? '(unchanged)', targetCol - 3)).padEnd(targetCol) +
+            formatWhatIfCells(simulated)
+          : splitCells(stats.sources) +
+            formatNumber(stats.requests).padStart(12) +
+            formatTokens(stats.tokens).padStart(12) +
+            (showReasoning ? formatTokens(stats.reasoningTokens).padStart(12) : '') +
+            formatCost(avgPerReq).padStart(10)) +
       '\n'
   }
 
@@ -356,14 +1016,28 @@ function renderByModel(
     '{bold}' +
     'Total'.padEnd(modelCol) +
     formatCost(grandTotal.cost).padStart(12) +
-    formatNumber(grandTotal.requests).padStart(12) +
-    formatTokens(grandTotal.tokens).padStart(12) +
+    (mode === 'components'
+      ? formatComponentCells(grandTotal.costs)
+      : mode === 'whatIf'
+        ? ''.padEnd(targetCol) + formatWhatIfCells(simulation?.total)
+        : splitCells(grandTotal.sources) +
+          formatNumber(grandTotal.requests).padStart(12) +
+          formatTokens(grandTotal.tokens).padStart(12) +
+          (showReasoning ? formatTokens(totalReasoning).padStart(12) : '')) +
     '{/bold}\n'
 
   if (sorted.length > safePageSize) {
     content += `\n{gray-fg}Showing ${scrollOffset + 1}-${Math.min(scrollOffset + safePageSize, sorted.length)} of ${sorted.length} models (↑↓ to scroll){/gray-fg}`
   }
 
+  if (showReasoning) {
+    content += `\n{gray-fg}Reasoning: 输出 token 中的推理 token，已计入 Tokens 并按输出价计费{/gray-fg}`
+  }
+
+  if (sorted.some(([, stats]) => stats.estimated)) {
+    content += `\n{yellow-fg}estimated{/yellow-fg}{gray-fg}: 价格表中没有该模型，按 ${DEFAULT_MODEL_ID} 的价格估算（可在价格文件中添加价格或别名）{/gray-fg}`
+  }
+
   if (note) {
     content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
   }
@@ -379,23 +1053,40 @@ function renderByProject(
   width: number,
   note: string,
   pageSize: number,
+  columns: ListColumns,
+  simulation: SimulationResult | null,
+  comparison: PeriodComparison | null,
 ): void {
+  if (columns === 'compare' && comparison) {
+    renderComparisonList(box, 'project', data, comparison, scrollOffset, width, note, pageSize)
+    return
+  }
+
   const { projectTotals, grandTotal } = data
   const sorted = Object.entries(projectTotals).sort((a, b) => b[1].cost - a[1].cost)
+  const mode: ListColumns = (columns === 'whatIf' && !simulation) || columns === 'compare' ? 'default' : columns
+  const showSource = data.source === 'all'
 
   // 根据宽度计算列宽
   const availableWidth = width - 6 // padding
-  const fixedCols = 12 + 12 + 12 // Cost + Requests + Tokens
+  const sourceCol = showSource ? 10 : 0
+  // 各分项 / what-if 列 / Requests + Tokens
+  const statCols = mode === 'components' ? COST_COMPONENTS.length * COMPONENT_COL : mode === 'whatIf' ? WHAT_IF_COLS : 12 + 12
+  const fixedCols = 12 + statCols + sourceCol // Cost + ... (+ Source)
   const projectCol = Math.max(25, availableWidth - fixedCols)
   const totalWidth = projectCol + fixedCols
 
-  let content = '{bold}Cost by Project{/bold}\n\n'
+  let content = formatListTitle('Cost by Project', mode, simulation)
   content +=
     '{underline}' +
     'Project'.padEnd(projectCol) +
+    (showSource ? 'Source'.padStart(sourceCol) : '') +
     '~Cost'.padStart(12) +
-    'Requests'.padStart(12) +
-    'Tokens'.padStart(12) +
+    (mode === 'components'
+      ? formatComponentHeader()
+      : mode === 'whatIf'
+        ? formatWhatIfHeader()
+        : 'Requests'.padStart(12) + 'Tokens'.padStart(12)) +
     '{/underline}\n'
 
   const safePageSize = Math.max(1, Math.floor(pageSize || 1))
@@ -406,9 +1097,13 @@ function renderByProject(
     const shortName = resolveProjectName(projectName, data.workspaceMappings)
     content +=
       truncate(shortName, projectCol - 1).padEnd(projectCol) +
+      (showSource ? formatSourceTag(stats.sources).padStart(sourceCol) : '') +
       formatCost(stats.cost).padStart(12) +
-      formatNumber(stats.requests).padStart(12) +
-      formatTokens(stats.tokens).padStart(12) +
+      (mode === 'components'
+        ? formatComponentCells(stats.costs)
+        : mode === 'whatIf'
+          ? formatWhatIfCells(simulation?.byProject[projectName])
+          : formatNumber(stats.requests).padStart(12) + formatTokens(stats.tokens).padStart(12)) +
       '\n'
   }
 
@@ -416,9 +1111,13 @@ function renderByProject(
   content +=
     '{bold}' +
     `Total (${sorted.length} projects)`.padEnd(projectCol) +
+    (showSource ? ''.padStart(sourceCol) : '') +
     formatCost(grandTotal.cost).padStart(12) +
-    formatNumber(grandTotal.requests).padStart(12) +
-    formatTokens(grandTotal.tokens).padStart(12) +
+    (mode === 'components'
+      ? formatComponentCells(grandTotal.costs)
+      : mode === 'whatIf'
+        ? formatWhatIfCells(simulation?.total)
+        : formatNumber(grandTotal.requests).padStart(12) + formatTokens(grandTotal.tokens).padStart(12)) +
     '{/bold}\n'
 
   if (sorted.length > safePageSize) {
@@ -441,26 +1140,37 @@ function renderDaily(
   width: number,
   note: string,
   pageSize: number,
+  anomalies: AnomalyReport,
+  period: { rollup: PeriodRollup; granularity: Granularity } | null,
 ): void {
   const { dailySummary, dailyData } = data
-  const sortedDates = Object.keys(dailySummary).sort().reverse()
+  // 从周 / 月下钻时只列出该周期内的日期
+  const sortedDates = period ? period.rollup.dates : Object.keys(dailySummary).sort().reverse()
+  const showSplit = data.source === 'all'
+  const anomalyDates = new Set(anomalies.days.map(day => day.date))
+  const seriesAnomalyDates = new Set(anomalies.series.map(point => point.date))
 
   // 根据宽度计算列宽
   const availableWidth = width - 6 // padding
   const dateCol = 12
   const costCol = 12
+  const splitCol = 10
   const tokensCol = 10
   const reqCol = 10
-  const fixedCols = dateCol + costCol + tokensCol + reqCol
+  const splitCols = showSplit ? USAGE_ORIGINS.length * splitCol : 0
+  const fixedCols = dateCol + costCol + splitCols + tokensCol + reqCol
   const remainingWidth = availableWidth - fixedCols
   const modelCol = Math.max(15, Math.min(25, Math.floor(remainingWidth * 0.4)))
   const projectCol = Math.max(20, remainingWidth - modelCol)
 
-  let content = '{bold}Daily Cost Details{/bold}\n\n'
+  let content = period
+    ? `{bold}${GRANULARITY_LABELS[period.granularity]} ${formatPeriodLabel(period.rollup, period.granularity)} - Daily Cost Details{/bold}  {gray-fg}(Esc back){/gray-fg}\n\n`
+    : `{bold}Daily Cost Details{/bold}  {gray-fg}(g day / week / month){/gray-fg}\n\n`
   content +=
     '{underline}' +
     'Date'.padEnd(dateCol) +
     '~Cost'.padStart(costCol) +
+    (showSplit ? USAGE_ORIGINS.map(origin => SOURCE_LABELS[origin].padStart(splitCol)).join('') : '') +
     'Tokens'.padStart(tokensCol) +
     'Requests'.padStart(reqCol) +
     'Top Model'.padStart(modelCol) +
@@ -497,9 +1207,13 @@ function renderDaily(
     const shortProject = resolveProjectName(topProject.name, data.workspaceMappings)
 
     const isSelected = scrollOffset + i === selectedIndex
+    const mark = anomalyDates.has(date) ? ANOMALY_MARK : seriesAnomalyDates.has(date) ? SERIES_ANOMALY_MARK : ' '
     const rowContent =
-      date.padEnd(dateCol) +
+      (date + ' ' + mark).padEnd(dateCol) +
       formatCost(daySummary.cost).padStart(costCol) +
+      (showSplit
+        ? USAGE_ORIGINS.map(origin => formatCost(daySummary.sources[origin]?.cost ?? 0).padStart(splitCol)).join('')
+        : '') +
       formatTokens(daySummary.tokens).padStart(tokensCol) +
       formatNumber(daySummary.requests).padStart(reqCol) +
       truncate(topModel.id, modelCol - 1).padStart(modelCol) +
@@ -507,6 +1221,10 @@ function renderDaily(
 
     if (isSelected) {
       content += `{black-fg}{green-bg}${rowContent}{/green-bg}{/black-fg}\n`
+    } else if (anomalyDates.has(date)) {
+      content += `{red-fg}${rowContent}{/red-fg}\n`
+    } else if (seriesAnomalyDates.has(date)) {
+      content += `{yellow-fg}${rowContent}{/yellow-fg}\n`
     } else {
       content += rowContent + '\n'
     }
@@ -518,6 +1236,103 @@ function renderDaily(
     content += `\n{gray-fg}(↑↓ select, Enter detail){/gray-fg}`
   }
 
+  if (anomalies.days.length || anomalies.series.length) {
+    content += `  {red-fg}${ANOMALY_MARK}{/red-fg}{gray-fg} total spike{/gray-fg}  {yellow-fg}${SERIES_ANOMALY_MARK}{/yellow-fg}{gray-fg} project / model spike{/gray-fg}`
+  }
+
+  if (note) {
+    content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
+  }
+
+  box.setContent(content)
+}
+
+const GRANULARITY_LABELS: Record<Granularity, string> = { day: 'Day', week: 'Week', month: 'Month' }
+
+// 渲染 Daily 视图的周 / 月汇总列表（Enter 进入该周期内的每日列表）
+function renderPeriods(
+  box: any,
+  data: AnalysisData,
+  rollups: PeriodRollup[],
+  granularity: Granularity,
+  scrollOffset = 0,
+  selectedIndex = 0,
+  width: number,
+  note: string,
+  pageSize: number,
+  anomalies: AnomalyReport,
+): void {
+  const showSplit = data.source === 'all'
+  const anomalyDates = new Set(anomalies.days.map(day => day.date))
+
+  // 根据宽度计算列宽
+  const availableWidth = width - 6 // padding
+  const periodCol = granularity === 'week' ? 26 : 10
+  const costCol = 12
+  const splitCol = 10
+  const tokensCol = 10
+  const reqCol = 10
+  const cacheCol = 8
+  const daysCol = 6
+  const splitCols = showSplit ? USAGE_ORIGINS.length * splitCol : 0
+  const fixedCols = periodCol + costCol + splitCols + tokensCol + reqCol + cacheCol + daysCol
+  const remainingWidth = availableWidth - fixedCols
+  const modelCol = Math.max(15, Math.min(25, Math.floor(remainingWidth * 0.4)))
+  const projectCol = Math.max(20, remainingWidth - modelCol)
+
+  let content = `{bold}${granularity === 'week' ? 'Weekly' : 'Monthly'} Cost Details{/bold}  {gray-fg}(g day / week / month){/gray-fg}\n\n`
+  content +=
+    '{underline}' +
+    GRANULARITY_LABELS[granularity].padEnd(periodCol) +
+    '~Cost'.padStart(costCol) +
+    (showSplit ? USAGE_ORIGINS.map(origin => SOURCE_LABELS[origin].padStart(splitCol)).join('') : '') +
+    'Tokens'.padStart(tokensCol) +
+    'Requests'.padStart(reqCol) +
+    'Cache'.padStart(cacheCol) +
+    'Days'.padStart(daysCol) +
+    'Top Model'.padStart(modelCol) +
+    'Top Project'.padStart(projectCol) +
+    '{/underline}\n'
+
+  const safePageSize = Math.max(1, Math.floor(pageSize || 1))
+  const visible = rollups.slice(scrollOffset, scrollOffset + safePageSize)
+
+  for (let i = 0; i < visible.length; i++) {
+    const rollup = visible[i]!
+    const shortProject = rollup.topProject ? resolveProjectName(rollup.topProject.name, data.workspaceMappings) : '-'
+    const hasAnomaly = rollup.dates.some(date => anomalyDates.has(date))
+    const rowContent =
+      (formatPeriodLabel(rollup, granularity) + (hasAnomaly ? ' ' + ANOMALY_MARK : '')).padEnd(periodCol) +
+      formatCost(rollup.cost).padStart(costCol) +
+      (showSplit
+        ? USAGE_ORIGINS.map(origin => formatCost(rollup.sources[origin]?.cost ?? 0).padStart(splitCol)).join('')
+        : '') +
+      formatTokens(rollup.tokens).padStart(tokensCol) +
+      formatNumber(rollup.requests).padStart(reqCol) +
+      formatPercent(rollup.cacheHitRate).padStart(cacheCol) +
+      String(rollup.dates.length).padStart(daysCol) +
+      truncate(rollup.topModel?.id ?? '-', modelCol - 1).padStart(modelCol) +
+      truncate(shortProject, projectCol - 1).padStart(projectCol)
+
+    if (scrollOffset + i === selectedIndex) {
+      content += `{black-fg}{green-bg}${rowContent}{/green-bg}{/black-fg}\n`
+    } else if (hasAnomaly) {
+      content += `{red-fg}${rowContent}{/red-fg}\n`
+    } else {
+      content += rowContent + '\n'
+    }
+  }
+
+  const unit = granularity === 'week' ? 'weeks' : 'months'
+  if (rollups.length > safePageSize) {
+    content += `\n{gray-fg}Showing ${scrollOffset + 1}-${Math.min(scrollOffset + safePageSize, rollups.length)} of ${rollups.length} ${unit} (↑↓ scroll, Enter days){/gray-fg}`
+  } else {
+    content += `\n{gray-fg}(↑↓ select, Enter days){/gray-fg}`
+  }
+  if (rollups.some(rollup => rollup.dates.some(date => anomalyDates.has(date)))) {
+    content += `  {red-fg}${ANOMALY_MARK}{/red-fg}{gray-fg} contains a spike day{/gray-fg}`
+  }
+
   if (note) {
     content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
   }
@@ -533,6 +1348,7 @@ function renderDailyDetail(
   scrollOffset = 0,
   width: number,
   pageSize: number,
+  anomalies: AnomalyReport,
 ): void {
   const { dailySummary, dailyData } = data
   const daySummary = dailySummary[date]
@@ -550,7 +1366,15 @@ function renderDailyDetail(
     totalCost: number
     totalTokens: number
     totalRequests: number
-    models: Array<{ id: string; cost: number; tokens: number; requests: number }>
+    totalReasoning: number
+    models: Array<{
+      id: string
+      cost: number
+      tokens: number
+      reasoning: number
+      requests: number
+      sources: SourceBreakdown
+    }>
   }
 
   const projectDetails: ProjectDetail[] = []
@@ -561,16 +1385,19 @@ function renderDailyDetail(
     let totalCost = 0
     let totalTokens = 0
     let totalRequests = 0
+    let totalReasoning = 0
 
     for (const [modelId, stats] of Object.entries(models)) {
       const s = stats as any
       const cost = Number(s.cost ?? 0)
       const tokens = Number(s.totalTokens ?? 0)
+      const reasoning = Number(s.reasoningTokens ?? 0)
       const requests = Number(s.requests ?? 0)
-      modelList.push({ id: modelId, cost, tokens, requests })
+      modelList.push({ id: modelId, cost, tokens, reasoning, requests, sources: stats.sources })
       totalCost += cost
       totalTokens += tokens
       totalRequests += requests
+      totalReasoning += reasoning
     }
 
     // 按 cost 降序排序 models
@@ -582,6 +1409,7 @@ function renderDailyDetail(
       totalCost,
       totalTokens,
       totalRequests,
+      totalReasoning,
       models: modelList,
     })
   }
@@ -602,17 +1430,31 @@ function renderDailyDetail(
 
   // 根据宽度计算列宽
   const availableWidth = width - 6 // padding
-  const fixedCols = 12 + 12 + 12 // Cost + Requests + Tokens
+  const dayReasoning = projectDetails.reduce((sum, p) => sum + p.totalReasoning, 0)
+  const showReasoning = dayReasoning > 0
+  const fixedCols = 12 + 12 + 12 + (showReasoning ? 12 : 0) // Cost + Requests + Tokens (+ Reasoning)
   const nameCol = Math.max(25, availableWidth - fixedCols)
   const totalWidth = nameCol + fixedCols
 
-  let content = `{bold}${date} - Project & Model Usage Details{/bold}\n\n`
+  let content = `{bold}${date} - Project & Model Usage Details{/bold}`
+  // 异常日：在标题后说明推高花费的项目与模型（不占用额外的行）
+  const anomaly = anomalies.days.find(day => day.date === date)
+  if (anomaly) {
+    const drivers = formatAnomalyDrivers([...anomaly.projects.slice(0, 1), ...anomaly.models.slice(0, 1)], data)
+    content += `  {red-fg}${ANOMALY_MARK} spike: ${formatAnomalyScore(anomaly)}; ${drivers}{/red-fg}`
+  }
+  content += '\n\n'
 
   // 当天汇总
   content += `{green-fg}Total cost:{/green-fg}     ${formatCost(daySummary.cost)}    `
   content += `{green-fg}Tokens:{/green-fg} ${formatTokens(daySummary.tokens)}    `
   content += `{green-fg}Requests:{/green-fg} ${formatNumber(daySummary.requests)}    `
-  content += `{green-fg}Projects:{/green-fg} ${projectDetails.length}\n\n`
+  content += `{green-fg}Projects:{/green-fg} ${projectDetails.length}\n`
+  if (data.source === 'all') {
+    content += `{green-fg}By source:{/green-fg}      ${formatSourceSplit(daySummary.sources)}\n`
+  }
+  content += `{green-fg}By component:{/green-fg}   ${formatCostBreakdown(daySummary.costs, daySummary.cost)}\n`
+  content += '\n'
 
   content +=
     '{underline}' +
@@ -620,6 +1462,7 @@ function renderDailyDetail(
     '~Cost'.padStart(12) +
     'Requests'.padStart(12) +
     'Tokens'.padStart(12) +
+    (showReasoning ? 'Reasoning'.padStart(12) : '') +
     '{/underline}\n'
 
   const safePageSize = Math.max(1, Math.floor(pageSize || 1))
@@ -634,14 +1477,17 @@ function renderDailyDetail(
         formatCost(p.totalCost).padStart(12) +
         formatNumber(p.totalRequests).padStart(12) +
         formatTokens(p.totalTokens).padStart(12) +
+        (showReasoning ? formatTokens(p.totalReasoning).padStart(12) : '') +
         '{/cyan-fg}\n'
     } else {
       const m = line.model
+      const label = data.source === 'all' ? `${m.id} [${formatSourceTag(m.sources)}]` : m.id
       content +=
-        ('  ' + truncate(m.id, nameCol - 3)).padEnd(nameCol) +
+        ('  ' + truncate(label, nameCol - 3)).padEnd(nameCol) +
         formatCost(m.cost).padStart(12) +
         formatNumber(m.requests).padStart(12) +
         formatTokens(m.tokens).padStart(12) +
+        (showReasoning ? formatTokens(m.reasoning).padStart(12) : '') +
         '\n'
     }
   }
@@ -653,6 +1499,7 @@ function renderDailyDetail(
     formatCost(daySummary.cost).padStart(12) +
     formatNumber(daySummary.requests).padStart(12) +
     formatTokens(daySummary.tokens).padStart(12) +
+    (showReasoning ? formatTokens(dayReasoning).padStart(12) : '') +
     '{/bold}\n'
 
   if (displayLines.length > safePageSize) {
@@ -664,32 +1511,634 @@ function renderDailyDetail(
   box.setContent(content)
 }
 
-// 纯文本输出模式
-function printTextReport(data: AnalysisData): void {
-  const { modelTotals, projectTotals, grandTotal, topModel, topProject, cacheHitRate, activeDays } = data
+type SessionSortKey = 'cost' | 'requests' | 'tokens' | 'duration' | 'recent'
+
+const SESSION_SORT_KEYS: SessionSortKey[] = ['cost', 'requests', 'tokens', 'duration', 'recent']
+
+// 按指定字段降序排列会话
+function getSortedSessions(data: AnalysisData, sortKey: SessionSortKey): SessionStats[] {
+  const value = (s: SessionStats): number => {
+    switch (sortKey) {
+      case 'cost':
+        return s.cost
+      case 'requests':
+        return s.requests
+      case 'tokens':
+        return s.tokens
+      case 'duration':
+        return s.durationMs
+      case 'recent':
+        return s.lastTimestamp
+    }
+  }
+  return Object.values(data.sessions).sort((a, b) => value(b) - value(a) || b.cost - a.cost)
+}
 
-  console.log('\n🤖 CodeBuddy Stats Report')
-  console.log('='.repeat(50))
+// 会话简称：Code 取 JSONL 文件名，IDE 取对话 id
+function getSessionLabel(session: SessionStats): string {
+  return path.basename(session.path).replace(/\.jsonl$/, '')
+}
 
-  console.log(`\nTotal cost:        ${formatCost(grandTotal.cost)}`)
-  console.log(`Total tokens:      ${formatTokens(grandTotal.tokens)}`)
-  console.log(`Total requests:    ${formatNumber(grandTotal.requests)}`)
-  console.log(`Active days:       ${activeDays}`)
-  console.log(`Cache hit rate:    ${formatPercent(cacheHitRate)}`)
+function getSessionTopModel(session: SessionStats): string {
+  const top = Object.entries(session.models).sort((a, b) => b[1].cost - a[1].cost)[0]
+  return top?.[0] ?? '-'
+}
 
-  if (topModel) {
-    console.log(`\nTop model:         ${topModel.id} (${formatCost(topModel.cost)})`)
-  }
-  if (topProject) {
-    const shortName = resolveProjectName(topProject.name, data.workspaceMappings)
-    console.log(`Top project:       ${shortName}`)
-    console.log(`                   (${formatCost(topProject.cost)})`)
-  }
+// 渲染 Sessions 视图
+function renderSessions(
+  box: any,
+  data: AnalysisData,
+  scrollOffset = 0,
+  selectedIndex = 0,
+  sortKey: SessionSortKey,
+  width: number,
+  note: string,
+  pageSize: number,
+): void {
+  const sessions = getSortedSessions(data, sortKey)
+  const showSource = data.source === 'all'
 
-  console.log('\n' + '-'.repeat(50))
-  console.log('By Model:')
+  // 根据宽度计算列宽
+  const availableWidth = width - 6 // padding
+  const sessionCol = 14
+  const sourceCol = showSource ? 6 : 0
+  const startCol = 18
+  const durationCol = 10
+  const reqCol = 10
+  const costCol = 12
+  const fixedCols = sessionCol + sourceCol + startCol + durationCol + reqCol + costCol
+  const remainingWidth = availableWidth - fixedCols
+  const modelCol = Math.max(15, Math.min(22, Math.floor(remainingWidth * 0.4)))
+  const projectCol = Math.max(20, remainingWidth - modelCol)
+
+  let content = `{bold}Sessions{/bold}  {gray-fg}(sorted by ${sortKey}){/gray-fg}\n\n`
+  content +=
+    '{underline}' +
+    'Session'.padEnd(sessionCol) +
+    (showSource ? 'Src'.padEnd(sourceCol) : '') +
+    'Project'.padEnd(projectCol) +
+    'Started'.padEnd(startCol) +
+    'Duration'.padStart(durationCol) +
+    'Requests'.padStart(reqCol) +
+    '~Cost'.padStart(costCol) +
+    'Top Model'.padStart(modelCol) +
+    '{/underline}\n'
+
+  const safePageSize = Math.max(1, Math.floor(pageSize || 1))
+  const visibleSessions = sessions.slice(scrollOffset, scrollOffset + safePageSize)
+
+  for (let i = 0; i < visibleSessions.length; i++) {
+    const session = visibleSessions[i]!
+    const shortProject = resolveProjectName(session.project, data.workspaceMappings)
+    const rowContent =
+      truncate(getSessionLabel(session), sessionCol - 1).padEnd(sessionCol) +
+      (showSource ? SOURCE_LABELS[session.origin].padEnd(sourceCol) : '') +
+      truncate(shortProject, projectCol - 1).padEnd(projectCol) +
+      formatZonedDateTime(session.firstTimestamp, data.timeZone).padEnd(startCol) +
+      formatDuration(session.durationMs).padStart(durationCol) +
+      formatNumber(session.requests).padStart(reqCol) +
+      formatCost(session.cost).padStart(costCol) +
+      truncate(getSessionTopModel(session), modelCol - 1).padStart(modelCol)
+
+    if (scrollOffset + i === selectedIndex) {
+      content += `{black-fg}{green-bg}${rowContent}{/green-bg}{/black-fg}\n`
+    } else {
+      content += rowContent + '\n'
+    }
+  }
+
+  if (sessions.length > safePageSize) {
+    content += `\n{gray-fg}Showing ${scrollOffset + 1}-${Math.min(scrollOffset + safePageSize, sessions.length)} of ${sessions.length} sessions (↑↓ select, Enter detail, o sort){/gray-fg}`
+  } else {
+    content += `\n{gray-fg}(↑↓ select, Enter detail, o sort){/gray-fg}`
+  }
+
+  if (note) {
+    content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
+  }
+
+  box.setContent(content)
+}
+
+// 渲染 Session Detail 视图（单个会话的概要与按模型拆分）
+function renderSessionDetail(
+  box: any,
+  data: AnalysisData,
+  sessionId: string,
+  scrollOffset = 0,
+  width: number,
+  pageSize: number,
+): void {
+  const session = data.sessions[sessionId]
+  if (!session) {
+    box.setContent(`{bold}${sessionId}{/bold}\n\nNo data available for this session.`)
+    return
+  }
+
+  const shortProject = resolveProjectName(session.project, data.workspaceMappings)
+  const avgPerReq = session.requests > 0 ? session.cost / session.requests : 0
+
+  let content = `{bold}Session ${getSessionLabel(session)}{/bold}\n\n`
+  content += `{green-fg}Source:{/green-fg}     ${SOURCE_LABELS[session.origin]}\n`
+  content += `{green-fg}Project:{/green-fg}    ${shortProject}\n`
+  content += `{green-fg}Path:{/green-fg}       ${truncate(session.path, Math.max(20, width - 20))}\n`
+  content += `{green-fg}Started:{/green-fg}    ${formatZonedDateTime(session.firstTimestamp, data.timeZone)}    `
+  content += `{green-fg}Ended:{/green-fg} ${formatZonedDateTime(session.lastTimestamp, data.timeZone)}    `
+  content += `{green-fg}Duration:{/green-fg} ${formatDuration(session.durationMs)}\n`
+  content += `{green-fg}Total cost:{/green-fg} ${formatCost(session.cost)}    `
+  content += `{green-fg}Tokens:{/green-fg} ${formatTokens(session.tokens)}    `
+  content += `{green-fg}Requests:{/green-fg} ${formatNumber(session.requests)}    `
+  content += `{green-fg}Avg/Req:{/green-fg} ${formatCost(avgPerReq)}\n\n`
+
+  // 根据宽度计算列宽
+  const availableWidth = width - 6 // padding
+  const fixedCols = 12 + 12 + 12 + 10 // Cost + Requests + Tokens + Share
+  const modelCol = Math.max(20, Math.min(40, availableWidth - fixedCols))
+  const totalWidth = modelCol + fixedCols
+
+  content +=
+    '{underline}' +
+    'Model'.padEnd(modelCol) +
+    '~Cost'.padStart(12) +
+    'Requests'.padStart(12) +
+    'Tokens'.padStart(12) +
+    'Share'.padStart(10) +
+    '{/underline}\n'
+
+  const models = Object.entries(session.models).sort((a, b) => b[1].cost - a[1].cost)
+  const safePageSize = Math.max(1, Math.floor(pageSize || 1))
+  for (const [modelId, stats] of models.slice(scrollOffset, scrollOffset + safePageSize)) {
+    const share = session.cost > 0 ? stats.cost / session.cost : 0
+    content +=
+      truncate(modelId, modelCol - 1).padEnd(modelCol) +
+      formatCost(stats.cost).padStart(12) +
+      formatNumber(stats.requests).padStart(12) +
+      formatTokens(stats.tokens).padStart(12) +
+      formatPercent(share).padStart(10) +
+      '\n'
+  }
+
+  content += '─'.repeat(totalWidth) + '\n'
+
+  if (models.length > safePageSize) {
+    content += `\n{gray-fg}Showing ${scrollOffset + 1}-${Math.min(scrollOffset + safePageSize, models.length)} of ${models.length} models (↑↓ scroll, Esc back){/gray-fg}`
+  } else {
+    content += `\n{gray-fg}(Esc back to Sessions list){/gray-fg}`
+  }
+
+  box.setContent(content)
+}
+
+// Hours 视图的统计口径
+type HourlyMetric = 'cost' | 'requests'
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+// 小时 × 星期 网格（纯文本，无 tag）：表头 + 7 行 + 每行合计
+function buildHourlyGridLines(activity: HourlyActivity, metric: HourlyMetric, cellWidth: number): string[] {
+  const valueOf = (cell: SummaryStats): number => (metric === 'cost' ? cell.cost : cell.requests)
+  const formatValue = (value: number): string => (metric === 'cost' ? formatCost(value) : formatNumber(value))
+  const maxValue = Math.max(...activity.flatMap(row => row.map(valueOf)), 0) || 1
+
+  // 表头只标注偶数小时，避免窄格子里数字挤在一起
+  let header = ' '.repeat(4)
+  for (let hour = 0; hour < 24; hour++) {
+    const label = cellWidth >= 3 || hour % 2 === 0 ? String(hour).padStart(2, '0') : ''
+    header += label.padEnd(cellWidth)
+  }
+  const lines = [header.trimEnd().padEnd(4 + 24 * cellWidth) + '  ' + 'Total'.padStart(10)]
+
+  for (let weekday = 0; weekday < 7; weekday++) {
+    const row = activity[weekday]!
+    let line = WEEKDAY_LABELS[weekday]!.padEnd(4)
+    for (const cell of row) {
+      line += getHeatChar(valueOf(cell), maxValue).padEnd(cellWidth)
+    }
+    const total = row.reduce((sum, cell) => sum + valueOf(cell), 0)
+    lines.push(line + '  ' + formatValue(total).padStart(10))
+  }
+
+  return lines
+}
+
+// 小时分布摘要：最忙时段与非工作时间（工作日 09:00-18:00 以外）占比
+function summarizeHourlyActivity(activity: HourlyActivity, metric: HourlyMetric): string[] {
+  const valueOf = (cell: SummaryStats): number => (metric === 'cost' ? cell.cost : cell.requests)
+  const formatValue = (value: number): string => (metric === 'cost' ? formatCost(value) : formatNumber(value))
+
+  const hourTotals = Array.from({ length: 24 }, (_, hour) =>
+    activity.reduce((sum, row) => sum + valueOf(row[hour]!), 0),
+  )
+  const total = hourTotals.reduce((sum, value) => sum + value, 0)
+  if (total === 0) return []
+
+  let busiestHour = 0
+  for (let hour = 1; hour < 24; hour++) {
+    if (hourTotals[hour]! > hourTotals[busiestHour]!) busiestHour = hour
+  }
+
+  let offHours = 0
+  for (let weekday = 0; weekday < 7; weekday++) {
+    for (let hour = 0; hour < 24; hour++) {
+      const isWorkTime = weekday < 5 && hour >= 9 && hour < 18
+      if (!isWorkTime) offHours += valueOf(activity[weekday]![hour]!)
+    }
+  }
+
+  const weekend = activity.slice(5).reduce((sum, row) => sum + row.reduce((s, cell) => s + valueOf(cell), 0), 0)
+  const hourLabel = (hour: number): string => `${String(hour).padStart(2, '0')}:00`
+
+  return [
+    `Busiest hour:      ${hourLabel(busiestHour)}-${hourLabel((busiestHour + 1) % 24)} (${formatValue(hourTotals[busiestHour]!)}, ${formatPercent(hourTotals[busiestHour]! / total)})`,
+    `Off-hours share:   ${formatPercent(offHours / total)} (outside Mon-Fri 09:00-18:00)`,
+    `Weekend share:     ${formatPercent(weekend / total)}`,
+  ]
+}
+
+// 渲染 Hours 视图
+function renderHours(box: any, data: AnalysisData, metric: HourlyMetric, width: number, note: string): void {
+  const cellWidth = width >= 100 ? 3 : 2
+  const metricLabel = metric === 'cost' ? 'cost' : 'requests'
+
+  let content = `{bold}Hour of Day × Weekday{/bold}  {gray-fg}(${metricLabel}, ${data.timeZone}){/gray-fg}\n\n`
+
+  const [header, ...rows] = buildHourlyGridLines(data.hourlyActivity, metric, cellWidth)
+  content += `{gray-fg}${header}{/gray-fg}\n`
+  content += rows.join('\n') + '\n'
+  content += '    Less {gray-fg}·░▒▓{/gray-fg}{white-fg}█{/white-fg} More\n'
+
+  const summary = summarizeHourlyActivity(data.hourlyActivity, metric)
+  if (summary.length) {
+    content += '\n' + summary.map(line => line.replace(/^([^:]+:)/, '{green-fg}$1{/green-fg}')).join('\n') + '\n'
+  }
+
+  if (data.diagnostics.ideTimestampFallbacks > 0) {
+    content += `\n{gray-fg}${formatNumber(data.diagnostics.ideTimestampFallbacks)} 个 IDE 请求没有自身的时间信息，按对话最后一条消息的时间计入{/gray-fg}\n`
+  }
+
+  content += `\n{gray-fg}(m toggle cost / requests){/gray-fg}`
+
+  if (note) {
+    content += `\n\n{gray-fg}备注：${note}{/gray-fg}\n`
+  }
+
+  box.setContent(content)
+}
+
+// 诊断信息（带 blessed tag），TUI 诊断面板与 cbs doctor 共用
+function buildDiagnosticsLines(data: AnalysisData): string[] {
+  const diag = data.diagnostics
+  const listLimit = 20
+  const lines: string[] = []
+
+  const pushList = (items: string[], indent = '    '): void => {
+    for (const item of items.slice(0, listLimit)) lines.push(indent + item)
+    if (items.length > listLimit) lines.push(`${indent}{gray-fg}… and ${items.length - listLimit} more{/gray-fg}`)
+  }
+  const pushRoots = (title: string, roots: RootDiagnostics[], unit: string): void => {
+    if (!roots.length) return
+    lines.push(`  ${title}`)
+    for (const root of roots) {
+      lines.push(
+        root.exists
+          ? `    {green-fg}✓{/green-fg} ${root.dir} {gray-fg}(${formatNumber(root.entries)} ${unit}){/gray-fg}`
+          : `    {red-fg}✗{/red-fg} ${root.dir} {gray-fg}(not found){/gray-fg}`,
+      )
+    }
+  }
+  const warnCount = (count: number): string =>
+    count > 0 ? `{yellow-fg}${formatNumber(count)}{/yellow-fg}` : formatNumber(count)
+
+  lines.push('{bold}Data directories{/bold}')
+  pushRoots('Code projects', diag.codeRoots, 'files')
+  pushRoots('IDE data', diag.ideRoots, 'conversations')
+  pushRoots('IDE workspaceStorage', diag.workspaceStorageRoots, 'workspaces')
+
+  if (data.source !== 'ide') {
+    lines.push('')
+    lines.push('{bold}Code JSONL{/bold}')
+    lines.push(`  Files scanned:         ${formatNumber(diag.codeFilesScanned)}`)
+    lines.push('  Skipped lines:')
+    for (const reason of SKIP_REASONS) {
+      const hint = reason === 'noUsage' ? ' {gray-fg}(messages without usage, usually expected){/gray-fg}' : ''
+      const count = reason === 'noUsage' ? formatNumber(diag.skippedLines[reason]) : warnCount(diag.skippedLines[reason])
+      lines.push(`    ${SKIP_REASON_LABELS[reason].padEnd(20)}${count}${hint}`)
+    }
+    if (diag.filesWithErrors.length) {
+      lines.push('  Files with bad lines:')
+      pushList(
+        diag.filesWithErrors.map(
+          file => `${file.path} {gray-fg}(bad JSON ${file.badJson}, bad timestamp ${file.badTimestamp}){/gray-fg}`,
+        ),
+      )
+    }
+    if (diag.unreadableFiles.length) {
+      lines.push(`  Unreadable files:      ${warnCount(diag.unreadableFiles.length)}`)
+      pushList(diag.unreadableFiles)
+    }
+  }
+
+  if (data.source !== 'code') {
+    lines.push('')
+    lines.push('{bold}IDE history{/bold}')
+    lines.push(`  Workspaces:            ${formatNumber(diag.ideWorkspaces)}`)
+    lines.push(`  Conversations read:    ${formatNumber(diag.ideConversations)}`)
+    lines.push(`  Requests w/o usage:    ${warnCount(diag.ideRequestsWithoutUsage)}`)
+    lines.push(
+      `  Dated by conversation: ${warnCount(diag.ideTimestampFallbacks)} {gray-fg}(requests without their own timestamp){/gray-fg}`,
+    )
+    lines.push(`  Missing index.json:    ${warnCount(diag.missingIndexes.length)}`)
+    pushList(diag.missingIndexes)
+  }
+
+  lines.push('')
+  lines.push('{bold}Pricing fallbacks{/bold}')
+  lines.push(
+    `  Pricing file:          ${data.pricing.file ?? '{gray-fg}none (built-in prices only){/gray-fg}'}`,
+  )
+  lines.push(
+    `  No model ID:           ${warnCount(diag.missingModelId.requests)} requests (${formatCost(diag.missingModelId.cost)}), priced as ${diag.missingModelId.pricedAs}`,
+  )
+  const unknownModels = Object.entries(diag.unknownModels).sort((a, b) => b[1].cost - a[1].cost)
+  lines.push(`  Unknown model IDs:     ${warnCount(unknownModels.length)} (priced as ${DEFAULT_MODEL_ID})`)
+  pushList(
+    unknownModels.map(
+      ([modelId, stats]) => `${modelId} {gray-fg}(${formatNumber(stats.requests)} requests, ${formatCost(stats.cost)}){/gray-fg}`,
+    ),
+  )
+  const normalizedModels = Object.entries(diag.normalizedModels).sort((a, b) => a[0].localeCompare(b[0]))
+  lines.push(`  Normalized model IDs:  ${normalizedModels.length}`)
+  pushList(normalizedModels.map(([modelId, pricedAs]) => `${modelId} {gray-fg}→ ${pricedAs}{/gray-fg}`))
+
+  lines.push('')
+  lines.push('{bold}Projects{/bold}')
+  lines.push(`  Unresolved names:      ${warnCount(diag.unresolvedProjects.length)}`)
+  pushList(diag.unresolvedProjects)
+
+  return lines
+}
+
+// 渲染诊断面板
+function renderDiagnostics(box: any, data: AnalysisData, scrollOffset: number, pageSize: number): void {
+  const lines = buildDiagnosticsLines(data)
+  const safePageSize = Math.max(1, pageSize)
+  const maxOffset = Math.max(0, lines.length - safePageSize)
+  const offset = Math.min(scrollOffset, maxOffset)
+
+  let content = `{bold}Diagnostics{/bold}  {gray-fg}(Source: ${SOURCE_LABELS[data.source]}){/gray-fg}\n\n`
+  content += lines.slice(offset, offset + safePageSize).join('\n')
+  content += `\n\n{gray-fg}(↑/↓ scroll, Esc or d close)${maxOffset > 0 ? ` ${offset + 1}-${Math.min(offset + safePageSize, lines.length)}/${lines.length}` : ''}{/gray-fg}`
+
+  box.setContent(content)
+}
+
+// cbs doctor：输出诊断信息
+function printDoctorReport(data: AnalysisData): void {
+  console.log('\n🩺 CodeBuddy Stats Doctor')
+  console.log(`   Source: ${SOURCE_LABELS[data.source]} · ${data.dateRange.label} · ${data.timeZone}`)
+  console.log('='.repeat(50) + '\n')
+  for (const line of buildDiagnosticsLines(data)) {
+    console.log(line.replace(/\{[^}]+\}/g, '')) // eslint-disable-line no-console
+  }
+  console.log('\n' + '='.repeat(50) + '\n')
+}
+
+const PRICING_COMPONENT_LABELS: Record<(typeof PRICING_COMPONENTS)[number], string> = {
+  prompt: 'Input',
+  completion: 'Output',
+  cacheRead: 'Cache read',
+  cacheWrite: 'Cache write',
+}
+
+// 价格显示：按显示币种换算，至少两位小数，最多四位（如 $14.00、$0.175）
+function formatPrice(price: number): string {
+  const [int, dec = ''] = convertCost(price).toFixed(4).replace(/0+$/, '').split('.')
+  return `${getCostCurrency().symbol}${int}.${dec.padEnd(2, '0')}`
+}
+
+// 币种说明：显示币种的汇率，以及以其他币种定价、已换算为 USD 的模型
+function formatCurrencyNotes(pricing: ActivePricing, modelIds: string[]): string[] {
+  const currency = getCostCurrency()
+  const lines = [
+    currency.code === BASE_CURRENCY
+      ? `Amounts in ${BASE_CURRENCY}.`
+      : `Amounts in ${currency.code}, converted at ${formatExchangeRate(currency.code, currency.rate)}.`,
+  ]
+
+  const nativeModels: Record<string, Set<string>> = {}
+  for (const modelId of modelIds) {
+    for (const period of pricing.table[modelId] ?? []) {
+      if (period.currency && period.currency !== BASE_CURRENCY) {
+        nativeModels[period.currency] ??= new Set()
+        nativeModels[period.currency]!.add(modelId)
+      }
+    }
+  }
+  for (const [code, models] of Object.entries(nativeModels).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const rate = pricing.exchangeRates[code] ?? 0
+    lines.push(`${code} prices (${[...models].sort().join(', ')}) converted at ${formatExchangeRate(code, rate)}.`)
+  }
+  return lines
+}
+
+// 分档价格，每档一行，如 ["$3.00 ≤200K", "$6.00 >200K"]
+function formatTierLines(tiers: PricingTier[]): string[] {
+  const formatLimit = (limit: number): string =>
+    limit % 1_000_000 === 0 ? `${limit / 1_000_000}M` : limit % 1_000 === 0 ? `${limit / 1_000}K` : String(limit)
+
+  if (tiers.length === 1) return [formatPrice(tiers[0]!.pricePerMTok)]
+  return tiers.map((tier, i) =>
+    Number.isFinite(tier.limit)
+      ? `${formatPrice(tier.pricePerMTok)} ≤${formatLimit(tier.limit)}`
+      : `${formatPrice(tier.pricePerMTok)} >${formatLimit(tiers[i - 1]!.limit)}`,
+  )
+}
+
+// 价格生效时间段，如 "2025-01-01 → 2025-06-01"、"since 2025-06-01"；不限时为空
+function formatEffectivePeriod(period: PricingPeriod): string {
+  if (period.effectiveFrom && period.effectiveTo) return `${period.effectiveFrom} → ${period.effectiveTo}`
+  if (period.effectiveFrom) return `since ${period.effectiveFrom}`
+  if (period.effectiveTo) return `until ${period.effectiveTo}`
+  return ''
+}
+
+// cbs pricing：输出当前生效的价格表（含价格历史）
+function printPricingReport(pricing: ActivePricing): void {
+  console.log(`\n💲 CodeBuddy Stats Pricing  (${getCostCurrency().code} / 1M tokens)`)
+  if (pricing.file) {
+    console.log(`   File: ${pricing.file} (${pricing.added.length} added, ${pricing.overridden.length} overridden)`)
+  } else {
+    console.log(`   File: none, built-in prices only (looked for ${getPricingConfigPaths().join(', ')})`)
+  }
+  console.log('='.repeat(50) + '\n')
+
+  const modelWidth = Math.max(20, ...Object.keys(pricing.table).map(id => id.length + 2))
+  const effectiveLabels = Object.values(pricing.table).flatMap(periods => periods.map(formatEffectivePeriod))
+  // 没有任何带日期的价格时不显示 Effective 列
+  const effectiveWidth = effectiveLabels.some(Boolean) ? Math.max(...effectiveLabels.map(label => label.length + 2)) : 0
+  const columnWidth = 16
+  console.log(
+    'Model'.padEnd(modelWidth) +
+      'Source'.padEnd(11) +
+      (effectiveWidth ? 'Effective'.padEnd(effectiveWidth) : '') +
+      'Tiers by'.padEnd(13) +
+      PRICING_COMPONENTS.map(component => PRICING_COMPONENT_LABELS[component].padEnd(columnWidth)).join('').trimEnd(),
+  )
+  console.log('-'.repeat(modelWidth + 11 + effectiveWidth + 13 + columnWidth * PRICING_COMPONENTS.length))
+
+  const overridden = new Set(pricing.overridden)
+  const added = new Set(pricing.added)
+  for (const [modelId, periods] of Object.entries(pricing.table).sort((a, b) => a[0].localeCompare(b[0]))) {
+    const sourceLabel = added.has(modelId) ? 'user' : overridden.has(modelId) ? 'override' : 'built-in'
+    periods.forEach((period, index) => {
+      const columns = PRICING_COMPONENTS.map(component => formatTierLines(period[component]))
+      const rowCount = Math.max(...columns.map(lines => lines.length))
+      for (let row = 0; row < rowCount; row++) {
+        const head =
+          row === 0 && index === 0 ? modelId.padEnd(modelWidth) + sourceLabel.padEnd(11) : ' '.repeat(modelWidth + 11)
+        const effective = effectiveWidth ? (row === 0 ? formatEffectivePeriod(period) : '').padEnd(effectiveWidth) : ''
+        // 只有一档时分档规则不影响价格
+        const tierBy = row === 0 && rowCount > 1 ? (period.tierBy ?? DEFAULT_TIER_BASIS) : row === 0 ? '-' : ''
+        console.log((head + effective + tierBy.padEnd(13) + columns.map(lines => (lines[row] ?? '').padEnd(columnWidth)).join('')).trimEnd()) // eslint-disable-line no-console
+      }
+    })
+  }
+
+  const userAliases = new Set(pricing.userAliases)
+  const aliases = Object.entries(pricing.aliases).sort((a, b) => a[0].localeCompare(b[0]))
+  if (aliases.length) {
+    const aliasWidth = Math.max(20, ...aliases.map(([alias]) => alias.length + 2))
+    console.log('\nAliases:')
+    for (const [alias, target] of aliases) {
+      const sourceLabel = userAliases.has(alias) ? 'user' : 'built-in'
+      console.log(`  ${alias.padEnd(aliasWidth)}→ ${target.padEnd(modelWidth)}${sourceLabel}`) // eslint-disable-line no-console
+    }
+  }
+
+  console.log('\nModel IDs are matched case-insensitively, ignoring vendor prefixes and date/version suffixes.')
+  console.log(`Unknown model IDs are priced as ${DEFAULT_MODEL_ID}.`)
+  console.log(
+    'Tiers by: totalPrompt = tier chosen by the request\'s whole input context (cache hits + misses + writes), component = each part on its own.',
+  )
+  for (const line of formatCurrencyNotes(pricing, Object.keys(pricing.table))) {
+    console.log(line) // eslint-disable-line no-console
+  }
+  console.log('\n' + '='.repeat(50) + '\n')
+}
+
+const BUDGET_LEVEL_LABELS: Record<BudgetLevel, string> = { ok: 'OK', warning: 'WARNING', exceeded: 'EXCEEDED' }
+
+function printBudgetLines(budgets: BudgetStatus[]): void {
+  console.log('Budgets:')
+  const nameWidth = Math.max(...budgets.map(status => formatBudgetName(status).length)) + 2
+  for (const status of budgets) {
+    const period = status.since === status.until ? status.since : `${status.since} → ${status.until}`
+    console.log(
+      `  ${BUDGET_LEVEL_LABELS[status.level].padEnd(9)}${formatBudgetName(status).padEnd(nameWidth)}${formatBudgetUsage(status)}  ${period}`,
+    ) // eslint-disable-line no-console
+    if (status.budget.scope !== 'total' && !status.matches.length) {
+      console.log(`           no ${status.budget.scope} matches "${status.budget.pattern}"`) // eslint-disable-line no-console
+    }
+  }
+  if (budgets.some(status => status.partial)) console.log(BUDGET_PARTIAL_NOTE)
+}
+
+// --check-budget：只输出预算状态
+function printBudgetReport(budgets: BudgetStatus[]): void {
+  printBudgetLines(budgets)
+  const exceeded = budgets.filter(status => status.level === 'exceeded').length
+  const warning = budgets.filter(status => status.level === 'warning').length
+  console.log(`\n${exceeded} exceeded, ${warning} warning, ${budgets.length - exceeded - warning} ok`)
+}
+
+// 纯文本输出模式
+function printTextReport(
+  data: AnalysisData,
+  simulation: SimulationResult | null,
+  budgets: BudgetStatus[],
+  anomalies: AnomalyReport,
+  comparison: PeriodComparison | null,
+  granularity: Granularity | null,
+): void {
+  const { modelTotals, projectTotals, grandTotal, topModel, topProject, cacheHitRate, activeDays } = data
+
+  console.log('\n🤖 CodeBuddy Stats Report')
+  console.log(`   ${data.dateRange.label}`)
+  console.log('='.repeat(50))
+
+  console.log(`\nSource:            ${SOURCE_LABELS[data.source]}`)
+  console.log(`Time zone:         ${data.timeZone}`)
+  console.log(`Total cost:        ${formatCost(grandTotal.cost)}`)
+  if (data.source === 'all') {
+    console.log(`                   (${formatSourceSplit(grandTotal.sources)})`)
+  }
+  console.log(`Total tokens:      ${formatTokens(grandTotal.tokens)}`)
+  console.log(`Total requests:    ${formatNumber(grandTotal.requests)}`)
+  console.log(`Active days:       ${activeDays}`)
+  console.log(`Cache hit rate:    ${formatPercent(cacheHitRate)}`)
+  if (data.source !== 'code') {
+    console.log(`IDE date fallback: ${formatNumber(data.diagnostics.ideTimestampFallbacks)} requests dated by conversation`)
+  }
+
+  if (topModel) {
+    console.log(`\nTop model:         ${topModel.id} (${formatCost(topModel.cost)})`)
+  }
+  if (topProject) {
+    const shortName = resolveProjectName(topProject.name, data.workspaceMappings)
+    console.log(`Top project:       ${shortName}`)
+    console.log(`                   (${formatCost(topProject.cost)})`)
+  }
+
+  if (budgets.length) {
+    console.log('\n' + '-'.repeat(50))
+    printBudgetLines(budgets)
+  }
+
+  const forecast = buildForecast(data)
+  if (forecast) {
+    console.log('\n' + '-'.repeat(50))
+    console.log(`Forecast (${Math.round(forecast.confidence * 100)}% band, based on ${forecast.historyDays} days before ${forecast.today}):`)
+    for (const period of [forecast.week, forecast.month]) {
+      const overshot = findOvershotBudget(period, budgets)
+      console.log(
+        `  ${(FORECAST_LABELS[period.period] + ':').padEnd(12)}${formatForecastValue(period).padStart(10)}  [${formatForecastBand(period)}]` +
+          `  so far ${formatCost(period.actual)}, run-rate ${formatCost(period.runRate)}, ${period.remainingDays} days left (${period.since} → ${period.until})` +
+          (overshot ? `  OVER BUDGET ${formatCost(overshot.budget.amount)}` : ''),
+      ) // eslint-disable-line no-console
+    }
+    console.log(`  Daily run-rate (last 7 days): ${formatCost(forecast.dailyRunRate)}`)
+    if (forecast.week.partial || forecast.month.partial) console.log(FORECAST_PARTIAL_NOTE)
+  }
+
+  if (granularity) {
+    const periodCol = granularity === 'week' ? 26 : 12
+    // 按天时每行就是一天，不需要 Days 列
+    const daysCell = (value: string): string => (granularity === 'day' ? '' : value.padStart(6))
+    console.log('\n' + '-'.repeat(50))
+    console.log(`By ${GRANULARITY_LABELS[granularity]}:`)
+    console.log(
+      `  ${GRANULARITY_LABELS[granularity].padEnd(periodCol)}${'~Cost'.padStart(10)}${'Tokens'.padStart(10)}${'Requests'.padStart(10)}` +
+        `${'Cache'.padStart(8)}${daysCell('Days')}  Top model · project`,
+    )
+    for (const rollup of buildRollups(data, granularity)) {
+      const top = rollup.topModel
+        ? `${rollup.topModel.id} · ${resolveProjectName(rollup.topProject!.name, data.workspaceMappings)}`
+        : '-'
+      console.log(
+        `  ${formatPeriodLabel(rollup, granularity).padEnd(periodCol)}${formatCost(rollup.cost).padStart(10)}` +
+          `${formatTokens(rollup.tokens).padStart(10)}${formatNumber(rollup.requests).padStart(10)}` +
+          `${formatPercent(rollup.cacheHitRate).padStart(8)}${daysCell(String(rollup.dates.length))}  ${top}`,
+      ) // eslint-disable-line no-console
+    }
+  }
+
+  console.log('\n' + '-'.repeat(50))
+  console.log('By Model:')
   for (const [model, stats] of Object.entries(modelTotals).sort((a, b) => b[1].cost - a[1].cost)) {
-    console.log(`  ${model}: ${formatCost(stats.cost)} (${formatNumber(stats.requests)} req)`) // eslint-disable-line no-console
+    const split = data.source === 'all' ? ` [${formatSourceSplit(stats.sources)}]` : ''
+    const estimated = stats.estimated ? ` [${ESTIMATED_BADGE}]` : ''
+    const reasoning = stats.reasoningTokens > 0 ? `, ${formatTokens(stats.reasoningTokens)} reasoning` : ''
+    console.log(`  ${model}: ${formatCost(stats.cost)} (${formatNumber(stats.requests)} req${reasoning})${split}${estimated}`) // eslint-disable-line no-console
   }
 
   console.log('\n' + '-'.repeat(50))
@@ -698,7 +2147,186 @@ function printTextReport(data: AnalysisData): void {
     .sort((a, b) => b[1].cost - a[1].cost)
     .slice(0, 10)) {
     const shortName = resolveProjectName(project, data.workspaceMappings)
-    console.log(`  ${truncate(shortName, 40)}: ${formatCost(stats.cost)}`) // eslint-disable-line no-console
+    const tag = data.source === 'all' ? ` [${formatSourceTag(stats.sources)}]` : ''
+    console.log(`  ${truncate(shortName, 40)}: ${formatCost(stats.cost)}${tag}`) // eslint-disable-line no-console
+  }
+
+  console.log('\n' + '-'.repeat(50))
+  console.log('Cost by Component:')
+  for (const component of COST_COMPONENTS) {
+    const cost = grandTotal.costs[component]
+    const share = grandTotal.cost > 0 ? cost / grandTotal.cost : 0
+    console.log(`  ${(COST_COMPONENT_LABELS[component] + ':').padEnd(13)}${formatCost(cost).padStart(10)}  (${formatPercent(share)})`) // eslint-disable-line no-console
+  }
+  console.log('  By model:')
+  for (const [model, stats] of Object.entries(modelTotals).sort((a, b) => b[1].cost - a[1].cost)) {
+    console.log(`    ${model}: ${formatCostBreakdown(stats.costs, stats.cost)}`) // eslint-disable-line no-console
+  }
+
+  if (hasCacheActivity(grandTotal.cacheSavings)) {
+    const { noCacheCost, readSavings, writePremium } = grandTotal.cacheSavings
+    const savingsDetail = (savings: CacheSavings): string =>
+      `${formatNetSavings(savings)} [reads ${formatCost(savings.readSavings)}, writes ${formatSignedCost(-savings.writePremium)}]`
+
+    console.log('\n' + '-'.repeat(50))
+    console.log('Cache Savings (vs. billing every input token at the prompt rate):')
+    console.log(`  No-cache cost:     ${formatCost(noCacheCost)}`)
+    console.log(`  Actual cost:       ${formatCost(grandTotal.cost)}`)
+    console.log(`  Read savings:      ${formatCost(readSavings)}`)
+    console.log(`  Write premium:     ${formatSignedCost(-writePremium)}`)
+    console.log(`  Net saving:        ${formatNetSavings(grandTotal.cacheSavings)}`)
+
+    console.log('  By model:')
+    for (const [model, stats] of Object.entries(modelTotals)
+      .filter(([, stats]) => hasCacheActivity(stats.cacheSavings))
+      .sort((a, b) => b[1].cost - a[1].cost)) {
+      console.log(`    ${model}: ${savingsDetail(stats.cacheSavings)}`) // eslint-disable-line no-console
+    }
+
+    console.log('  By project:')
+    for (const [project, stats] of Object.entries(projectTotals)
+      .filter(([, stats]) => hasCacheActivity(stats.cacheSavings))
+      .sort((a, b) => b[1].cost - a[1].cost)
+      .slice(0, 10)) {
+      const shortName = resolveProjectName(project, data.workspaceMappings)
+      console.log(`    ${truncate(shortName, 40)}: ${savingsDetail(stats.cacheSavings)}`) // eslint-disable-line no-console
+    }
+
+    console.log('  By day (last 7 active days):')
+    for (const [date, stats] of Object.entries(data.dailySummary)
+      .filter(([, stats]) => hasCacheActivity(stats.cacheSavings))
+      .sort((a, b) => b[0].localeCompare(a[0]))
+      .slice(0, 7)) {
+      console.log(`    ${date}: ${savingsDetail(stats.cacheSavings)}`) // eslint-disable-line no-console
+    }
+  }
+
+  console.log('\n' + '-'.repeat(50))
+  console.log(`Anomalies (z ≥ ${anomalies.sensitivity} vs ${ANOMALY_WINDOW_DAYS}-day median):`)
+  if (!anomalies.days.length && !anomalies.series.length) console.log('  None detected')
+  for (const day of anomalies.days) {
+    console.log(`  ${day.date}  ${formatCost(day.cost)} (${formatAnomalyScore(day)})`) // eslint-disable-line no-console
+    if (day.projects.length) console.log(`    Projects: ${formatAnomalyDrivers(day.projects, data)}`) // eslint-disable-line no-console
+    if (day.models.length) console.log(`    Models:   ${formatAnomalyDrivers(day.models, data)}`) // eslint-disable-line no-console
+  }
+  if (anomalies.series.length) {
+    console.log('  Project / model spikes:')
+    for (const point of anomalies.series.slice(0, 10)) {
+      const name = point.series === 'project' ? resolveProjectName(point.key!, data.workspaceMappings) : point.key!
+      console.log(`    ${point.date}  ${point.series} ${truncate(name, 40)}: ${formatCost(point.cost)} (${formatAnomalyScore(point)})`) // eslint-disable-line no-console
+    }
+    if (anomalies.series.length > 10) console.log(`    … and ${anomalies.series.length - 10} more`)
+  }
+
+  if (comparison) {
+    const { total } = comparison
+    const changeLine = (label: string, current: string, previous: string, change: string): string =>
+      `  ${label.padEnd(16)}${current.padStart(12)}${previous.padStart(12)}   ${change}`
+
+    console.log('\n' + '-'.repeat(50))
+    console.log(`Comparison: ${comparison.current.label} vs ${comparison.previous.label}`)
+    console.log(changeLine('', 'Current', 'Previous', 'Change'))
+    console.log(
+      changeLine(
+        'Cost',
+        formatCost(total.current.cost),
+        formatCost(total.previous.cost),
+        `${formatCostDelta(total.change.cost.delta)} (${formatChangePercent(total.change.cost.delta, total.previous.cost)})`,
+      ),
+    )
+    console.log(
+      changeLine(
+        'Tokens',
+        formatTokens(total.current.tokens),
+        formatTokens(total.previous.tokens),
+        `${formatSignedChange(total.change.tokens.delta, formatTokens)} (${formatChangePercent(total.change.tokens.delta, total.previous.tokens)})`,
+      ),
+    )
+    console.log(
+      changeLine(
+        'Requests',
+        formatNumber(total.current.requests),
+        formatNumber(total.previous.requests),
+        `${formatSignedChange(total.change.requests.delta, formatNumber)} (${formatChangePercent(total.change.requests.delta, total.previous.requests)})`,
+      ),
+    )
+    console.log(
+      changeLine(
+        'Cache hit rate',
+        formatPercent(total.current.cacheHitRate),
+        formatPercent(total.previous.cacheHitRate),
+        formatPointChange(total.change.cacheHitRate),
+      ),
+    )
+
+    const rowDetail = ({ current, previous, change }: ComparisonRow): string =>
+      `${formatCost(current.cost)} vs ${formatCost(previous.cost)} (${formatCostDelta(change.cost.delta)}, ${formatChangePercent(change.cost.delta, previous.cost)})` +
+      `, ${formatTokens(current.tokens)} vs ${formatTokens(previous.tokens)} tokens (${formatChangePercent(change.tokens.delta, previous.tokens)})` +
+      `, ${formatNumber(current.requests)} vs ${formatNumber(previous.requests)} req (${formatChangePercent(change.requests.delta, previous.requests)})` +
+      `, cache ${formatPercent(current.cacheHitRate)} vs ${formatPercent(previous.cacheHitRate)} (${formatPointChange(change.cacheHitRate)})`
+
+    console.log('  By Model:')
+    for (const [model, row] of sortComparisonRows(comparison.byModel)) {
+      console.log(`    ${model}: ${rowDetail(row)}`) // eslint-disable-line no-console
+    }
+    console.log('  By Project:')
+    for (const [projectName, row] of sortComparisonRows(comparison.byProject)) {
+      const shortName = resolveProjectName(projectName, data.workspaceMappings)
+      console.log(`    ${truncate(shortName, 40)}: ${rowDetail(row)}`) // eslint-disable-line no-console
+    }
+  }
+
+  if (simulation) {
+    const whatIfLine = (label: string, stats: SimulatedStats): string => {
+      const delta = stats.simulated - stats.actual
+      return `  ${label}: ${formatCost(stats.actual)} → ${formatCost(stats.simulated)} (${formatCostDelta(delta)}, ${formatChangePercent(delta, stats.actual)})`
+    }
+
+    console.log('\n' + '-'.repeat(50))
+    console.log(`What-if Simulation (${formatSimulationRules(simulation.rules)}):`)
+    console.log(whatIfLine('Total', simulation.total))
+    console.log('  By model:')
+    for (const [model, stats] of Object.entries(simulation.byModel).sort((a, b) => b[1].actual - a[1].actual)) {
+      const target = stats.target ? ` as ${stats.target}` : ' (unchanged)'
+      console.log(`  ${whatIfLine(model + target, stats)}`) // eslint-disable-line no-console
+    }
+    console.log('  By project:')
+    for (const [project, stats] of Object.entries(simulation.byProject)
+      .sort((a, b) => b[1].actual - a[1].actual)
+      .slice(0, 10)) {
+      const shortName = resolveProjectName(project, data.workspaceMappings)
+      console.log(`  ${whatIfLine(truncate(shortName, 40), stats)}`) // eslint-disable-line no-console
+    }
+  }
+
+  const topSessions = getSortedSessions(data, 'cost').slice(0, 5)
+  if (topSessions.length) {
+    console.log('\n' + '-'.repeat(50))
+    console.log('Top Sessions:')
+    for (const session of topSessions) {
+      const shortName = resolveProjectName(session.project, data.workspaceMappings)
+      console.log(
+        `  ${formatZonedDateTime(session.firstTimestamp, data.timeZone)}  ${formatDuration(session.durationMs).padStart(7)}  ${formatCost(session.cost).padStart(9)}  ${truncate(shortName, 30)} (${getSessionLabel(session)})`,
+      ) // eslint-disable-line no-console
+    }
+  }
+
+  if (grandTotal.requests > 0) {
+    console.log('\n' + '-'.repeat(50))
+    console.log(`Hour of Day × Weekday (cost, ${data.timeZone}):`)
+    for (const line of buildHourlyGridLines(data.hourlyActivity, 'cost', 2)) {
+      console.log(`  ${line}`) // eslint-disable-line no-console
+    }
+    console.log('')
+    for (const line of summarizeHourlyActivity(data.hourlyActivity, 'cost')) {
+      console.log(line) // eslint-disable-line no-console
+    }
+  }
+
+  console.log('\n' + '-'.repeat(50))
+  const pricedModels = [...new Set(Object.values(modelTotals).map(stats => stats.pricedAs))]
+  for (const line of formatCurrencyNotes(data.pricing, pricedModels)) {
+    console.log(line) // eslint-disable-line no-console
   }
 
   console.log('\n' + '='.repeat(50) + '\n')
@@ -708,12 +2336,133 @@ function printTextReport(data: AnalysisData): void {
 async function main(): Promise<void> {
   const options = parseArgs()
 
-  console.log('Loading data...')
-  let currentSource: 'code' | 'ide' = 'code'
-  let data = await loadUsageData({ days: options.days, source: currentSource })
+  // 提前加载价格表：价格文件有误时直接给出清晰的错误，而不是在加载数据途中失败
+  let pricing: ActivePricing
+  try {
+    pricing = await loadActivePricing(options.pricingFile)
+  } catch (err) {
+    console.error((err as Error).message)
+    process.exit(1)
+  }
+
+  try {
+    setCostCurrency(resolveDisplayCurrency(options.currency ?? pricing.currency ?? BASE_CURRENCY, pricing.exchangeRates))
+  } catch (err) {
+    console.error((err as Error).message)
+    process.exit(1)
+  }
+
+  if (options.command === 'pricing') {
+    printPricingReport(pricing)
+    return
+  }
+
+  let budgetConfig: BudgetConfig
+  try {
+    budgetConfig = await loadBudgetConfig(options.budgetFile, pricing.exchangeRates)
+    budgetConfig.budgets.push(...options.budgets.map(spec => parseBudgetSpec(spec, getCostCurrency())))
+  } catch (err) {
+    console.error((err as Error).message)
+    process.exit(1)
+  }
+  if (options.checkBudget && !budgetConfig.budgets.length) {
+    console.error(`No budgets configured: pass --budget or create ${getBudgetConfigPaths()[0]}`)
+    process.exit(1)
+  }
+
+  let simulationRules: SimulationRule[] | null = null
+  if (options.simulateModel) {
+    try {
+      simulationRules = parseSimulationSpec(options.simulateModel, pricing.table, pricing.aliases)
+    } catch (err) {
+      console.error((err as Error).message)
+      process.exit(1)
+    }
+  }
+
+  // --json 时 stdout 只输出 JSON
+  if (!options.json) console.log('Loading data...')
+  let currentSource: UsageSource = options.source
+  const loadOptions = (cache: CacheMode): LoadUsageOptions => ({
+    days: options.days,
+    since: options.since,
+    until: options.until,
+    preset: options.preset,
+    source: currentSource,
+    cache,
+    timeZone: options.timeZone,
+    pricingFile: options.pricingFile,
+    codeDirs: options.codeDirs,
+    ideDirs: options.ideDirs,
+    workspaceStorageDirs: options.workspaceStorageDirs,
+  })
+  let loader: UsageLoader = await createUsageLoader(loadOptions(options.cache))
+  let data = loader.data
+  // 缓存只需在启动时重建一次，之后的刷新复用新缓存
+  const cacheMode: CacheMode = options.cache === 'rebuild' ? 'use' : options.cache
+
+  // 对比范围：--compare 指定；未指定时 TUI 中按 p 使用上一个周期（当前范围没有起点时无法推算）
+  let comparisonRange: DateRange | null = null
+  let comparisonError = ''
+  try {
+    comparisonRange = resolveComparisonRange(options.compare ?? COMPARE_PREVIOUS, options, data.timeZone)
+  } catch (err) {
+    comparisonError = (err as Error).message
+  }
+  // 对比周期的数据：同一数据源，按对比范围重新加载
+  const loadComparisonData = async (range: DateRange): Promise<AnalysisData> =>
+    (await createUsageLoader({ ...loadOptions(cacheMode), days: null, preset: null, since: range.since, until: range.until }))
+      .data
+
+  if (options.command === 'doctor') {
+    printDoctorReport(data)
+    return
+  }
+
+  if (options.checkBudget) {
+    const statuses = evaluateBudgets(data, budgetConfig.budgets, budgetConfig.warnAt)
+    if (options.json) {
+      const report = buildBudgetJsonReport(data, {
+        tool: { name: pkg.name, version: VERSION },
+        currency: getCostCurrency(),
+        budgets: statuses,
+      })
+      process.stdout.write(JSON.stringify(report, null, 2) + '\n')
+    } else {
+      printBudgetReport(statuses)
+    }
+    if (statuses.some(status => status.level === 'exceeded')) process.exit(BUDGET_EXCEEDED_EXIT_CODE)
+    return
+  }
 
   if (options.noTui) {
-    printTextReport(data)
+    const simulation = simulationRules && simulateRepricing(data, simulationRules)
+    const budgets = evaluateBudgets(data, budgetConfig.budgets, budgetConfig.warnAt)
+    const anomalies = detectAnomalies(data, options.anomalySensitivity)
+    const comparison =
+      options.compare && comparisonRange
+        ? buildComparison(data, await loadComparisonData(comparisonRange), comparisonRange)
+        : null
+
+    if (options.json) {
+      const report = buildJsonReport(data, {
+        tool: { name: pkg.name, version: VERSION },
+        currency: getCostCurrency(),
+        budgets,
+        forecast: buildForecast(data),
+        anomalies,
+        comparison,
+        rollups: options.granularity
+          ? { granularity: options.granularity, periods: buildRollups(data, options.granularity) }
+          : null,
+        simulation,
+        includeDailyData: options.jsonDaily,
+      })
+      process.stdout.write(JSON.stringify(report, null, 2) + '\n')
+      return
+    }
+
+    printTextReport(data, simulation, budgets, anomalies, comparison, options.granularity)
     return
   }
 
@@ -726,8 +2475,89 @@ async function main(): Promise<void> {
   })
 
   // Tab 状态
-  const tabs = ['Overview', 'By Model', 'By Project', 'Daily']
+  const tabs = ['Overview', 'By Model', 'By Project', 'Daily', 'Sessions', 'Hours']
   let currentTab = 0
+  let hourlyMetric: HourlyMetric = 'cost'
+  let listColumns: ListColumns = options.compare ? 'compare' : 'default' // By Model / By Project 的列
+
+  // what-if 结果按 data 与记录数缓存，数据更新后重新计算
+  let simulationCache: { data: AnalysisData; records: number; result: SimulationResult } | null = null
+  const getSimulation = (): SimulationResult | null => {
+    if (!simulationRules) return null
+    if (!simulationCache || simulationCache.data !== data || simulationCache.records !== data.usageRecords.length) {
+      simulationCache = { data, records: data.usageRecords.length, result: simulateRepricing(data, simulationRules) }
+    }
+    return simulationCache.result
+  }
+
+  // 对比周期的数据：--compare 时启动即加载，否则第一次按 p 时加载；刷新或切换数据源后重新加载
+  let comparisonData: AnalysisData | null =
+    options.compare && comparisonRange ? await loadComparisonData(comparisonRange) : null
+  let comparisonCache: {
+    data: AnalysisData
+    records: number
+    previous: AnalysisData
+    result: PeriodComparison
+  } | null = null
+  const getComparison = (): PeriodComparison | null => {
+    if (!comparisonData || !comparisonRange) return null
+    if (
+      !comparisonCache ||
+      comparisonCache.data !== data ||
+      comparisonCache.records !== data.usageRecords.length ||
+      comparisonCache.previous !== comparisonData
+    ) {
+      comparisonCache = {
+        data,
+        records: data.usageRecords.length,
+        previous: comparisonData,
+        result: buildComparison(data, comparisonData, comparisonRange),
+      }
+    }
+    return comparisonCache.result
+  }
+  // By Model / By Project 当前显示的行数（对比列包含只在对比周期出现的模型 / 项目）
+  const getListRowCount = (kind: 'model' | 'project'): number => {
+    const comparison = listColumns === 'compare' ? getComparison() : null
+    if (comparison) return Object.keys(kind === 'model' ? comparison.byModel : comparison.byProject).length
+    return Object.keys(kind === 'model' ? data.modelTotals : data.projectTotals).length
+  }
+
+  // 异常检测结果按 data 与记录数缓存
+  let anomalyCache: { data: AnalysisData; records: number; result: AnomalyReport } | null = null
+  const getAnomalies = (): AnomalyReport => {
+    if (!anomalyCache || anomalyCache.data !== data || anomalyCache.records !== data.usageRecords.length) {
+      anomalyCache = {
+        data,
+        records: data.usageRecords.length,
+        result: detectAnomalies(data, options.anomalySensitivity),
+      }
+    }
+    return anomalyCache.result
+  }
+
+  // 预算状态按 data、记录数与当天日期缓存（跨零点时周期会变化）
+  let budgetCache: { data: AnalysisData; records: number; today: string; result: BudgetStatus[] } | null = null
+  const getBudgetStatuses = (): BudgetStatus[] => {
+    const today = todayInZone(data.timeZone)
+    if (
+      !budgetCache ||
+      budgetCache.data !== data ||
+      budgetCache.records !== data.usageRecords.length ||
+      budgetCache.today !== today
+    ) {
+      budgetCache = {
+        data,
+        records: data.usageRecords.length,
+        today,
+        result: evaluateBudgets(data, budgetConfig.budgets, budgetConfig.warnAt),
+      }
+    }
+    return budgetCache.result
+  }
+  let showDiagnostics = false
+  let diagnosticsScrollOffset = 0
+  let diagnosticsPageSize = 10
 
   let modelScrollOffset = 0
   let projectScrollOffset = 0
@@ -735,11 +2565,54 @@ async function main(): Promise<void> {
   let dailySelectedIndex = 0
   let dailyDetailDate: string | null = null // 当前查看详情的日期，null 表示在列表视图
   let dailyDetailScrollOffset = 0
+  let dailyGranularity: Granularity = options.granularity ?? 'day'
+  let dailyPeriodKey: string | null = null // 从周 / 月列表进入的周期，null 表示不在下钻视图
+  let periodScrollOffset = 0 // 下钻前周期列表的位置，返回时恢复
+  let periodSelectedIndex = 0
+  let sessionScrollOffset = 0
+  let sessionSelectedIndex = 0
+  let sessionSortKey: SessionSortKey = 'cost'
+  let sessionDetailId: string | null = null // 当前查看详情的会话，null 表示在列表视图
+  let sessionDetailScrollOffset = 0
 
   let modelPageSize = 10
   let projectPageSize = 10
   let dailyPageSize = 20
   let dailyDetailPageSize = 10
+  let sessionPageSize = 20
+  let sessionDetailPageSize = 10
+
+  // 当前处于某个详情视图（Daily / Sessions）时禁用 tab 切换
+  const inDetailView = (): boolean => Boolean(dailyDetailDate || dailyPeriodKey || sessionDetailId || showDiagnostics)
+
+  // 周 / 月汇总按 data、记录数与粒度缓存
+  let rollupCache: { data: AnalysisData; records: number; granularity: Granularity; result: PeriodRollup[] } | null =
+    null
+  const getRollups = (): PeriodRollup[] => {
+    if (
+      !rollupCache ||
+      rollupCache.data !== data ||
+      rollupCache.records !== data.usageRecords.length ||
+      rollupCache.granularity !== dailyGranularity
+    ) {
+      rollupCache = {
+        data,
+        records: data.usageRecords.length,
+        granularity: dailyGranularity,
+        result: buildRollups(data, dailyGranularity),
+      }
+    }
+    return rollupCache.result
+  }
+  const getDailyPeriod = (): PeriodRollup | null =>
+    dailyPeriodKey ? (getRollups().find(rollup => rollup.key === dailyPeriodKey) ?? null) : null
+  // Daily 列表当前的行：按天时为全部日期，按周 / 月时为周期，下钻后为该周期内的日期
+  const showingPeriods = (): boolean => dailyGranularity !== 'day' && !dailyPeriodKey
+  const getDailyRowKeys = (): string[] => {
+    if (showingPeriods()) return getRollups().map(rollup => rollup.key)
+    if (dailyPeriodKey) return getDailyPeriod()?.dates ?? []
+    return Object.keys(data.dailySummary).sort().reverse()
+  }
 
   // Tab 栏
   const tabBar = blessed.box({
@@ -798,13 +2671,14 @@ async function main(): Promise<void> {
     let content = ' CodeBuddy Stats  '
 
     content += '{gray-fg}Source:{/gray-fg} '
-    if (currentSource === 'code') {
-      content += '{black-fg}{green-bg} Code {/green-bg}{/black-fg} '
-      content += '{gray-fg}IDE{/gray-fg}  '
-    } else {
-      content += '{gray-fg}Code{/gray-fg} '
-      content += '{black-fg}{green-bg} IDE {/green-bg}{/black-fg}  '
+    for (const source of SOURCE_CYCLE) {
+      if (source === currentSource) {
+        content += `{black-fg}{green-bg} ${SOURCE_LABELS[source]} {/green-bg}{/black-fg} `
+      } else {
+        content += `{gray-fg}${SOURCE_LABELS[source]}{/gray-fg} `
+      }
     }
+    content += ' '
 
     content += '{gray-fg}Views:{/gray-fg} '
 
@@ -823,10 +2697,14 @@ async function main(): Promise<void> {
   function updateContent(): void {
     const width = Number(screen.width) || 80
 
+    const codeNote = `针对 CodeBuddy Code < 2.20.0 版本产生的数据，由于没有请求级别的 model ID，用量是基于当前 CodeBuddy Code 设置的 model ID（${data.defaultModelId}）计算价格的`
+    const ideNote = 'IDE 的 usage 不包含缓存命中/写入 tokens，无法计算缓存相关价格与命中率；成本按 input/output tokens 估算'
     const note =
       currentSource === 'code'
-        ? `针对 CodeBuddy Code < 2.20.0 版本产生的数据，由于没有请求级别的 model ID，用量是基于当前 CodeBuddy Code 设置的 model ID（${data.defaultModelId}）计算价格的`
-        : 'IDE 的 usage 不包含缓存命中/写入 tokens，无法计算缓存相关价格与命中率；成本按 input/output tokens 估算'
+        ? codeNote
+        : currentSource === 'ide'
+          ? ideNote
+          : `合并 Code 与 IDE 数据；缓存命中率仅反映 Code 部分。${codeNote}`
 
     const screenHeight = Number(screen.height) || 24
     const contentBoxHeight = Math.max(1, screenHeight - 5) // 对应 contentBox: height = '100%-5'
@@ -843,62 +2721,228 @@ async function main(): Promise<void> {
 
     // By Model / By Project：表格尾部还有 total 两行
     const listReservedLines = baseLines + 2 + hintLines + noteLines + 1 // separator + total + safety
-    modelPageSize = Math.max(1, innerHeight - listReservedLines)
-    projectPageSize = Math.max(1, innerHeight - listReservedLines)
+    const estimatedLegendLines = Object.values(data.modelTotals).some(stats => stats.estimated) ? 1 : 0
+    // 对比列多出周期说明与图例两行
+    const compareLines = listColumns === 'compare' && getComparison() ? 2 : 0
+    modelPageSize = Math.max(1, innerHeight - listReservedLines - estimatedLegendLines - compareLines)
+    projectPageSize = Math.max(1, innerHeight - listReservedLines - compareLines)
 
     // Daily：无 total 行
     const dailyReservedLines = baseLines + hintLines + noteLines + 1 // safety
     dailyPageSize = Math.max(1, innerHeight - dailyReservedLines)
 
     // Daily Detail：有 summary + total 行
-    const dailyDetailReservedLines = baseLines + 3 + 2 + hintLines + 1 // summary(3) + separator + total + safety
+    const dailyDetailReservedLines = baseLines + 4 + 2 + hintLines + 1 // summary(4) + separator + total + safety
     dailyDetailPageSize = Math.max(1, innerHeight - dailyDetailReservedLines)
 
-    const modelMaxOffset = Math.max(0, Object.keys(data.modelTotals).length - modelPageSize)
+    // Sessions：同 Daily；Session Detail：概要 6 行 + 空行 + separator + hint
+    sessionPageSize = dailyPageSize
+    const sessionDetailReservedLines = baseLines + 7 + 1 + hintLines + 1
+    sessionDetailPageSize = Math.max(1, innerHeight - sessionDetailReservedLines)
+
+    const modelMaxOffset = Math.max(0, getListRowCount('model') - modelPageSize)
     modelScrollOffset = Math.min(modelScrollOffset, modelMaxOffset)
 
-    const projectMaxOffset = Math.max(0, Object.keys(data.projectTotals).length - projectPageSize)
+    const projectMaxOffset = Math.max(0, getListRowCount('project') - projectPageSize)
     projectScrollOffset = Math.min(projectScrollOffset, projectMaxOffset)
 
-    const dailyMaxOffset = Math.max(0, Object.keys(data.dailySummary).length - dailyPageSize)
+    const dailyRowCount = getDailyRowKeys().length
+    const dailyMaxOffset = Math.max(0, dailyRowCount - dailyPageSize)
     dailyScrollOffset = Math.min(dailyScrollOffset, dailyMaxOffset)
-    dailySelectedIndex = Math.min(dailySelectedIndex, Math.max(0, Object.keys(data.dailySummary).length - 1))
+    dailySelectedIndex = Math.min(dailySelectedIndex, Math.max(0, dailyRowCount - 1))
+
+    const sessionCount = Object.keys(data.sessions).length
+    sessionScrollOffset = Math.min(sessionScrollOffset, Math.max(0, sessionCount - sessionPageSize))
+    sessionSelectedIndex = Math.min(sessionSelectedIndex, Math.max(0, sessionCount - 1))
+
+    // 诊断面板：标题 + 空行 + 空行 + hint + safety
+    diagnosticsPageSize = Math.max(1, innerHeight - 5)
+
+    if (showDiagnostics) {
+      renderDiagnostics(contentBox, data, diagnosticsScrollOffset, diagnosticsPageSize)
+      return
+    }
 
     switch (currentTab) {
       case 0:
-        renderOverview(contentBox, data, width, innerHeight, note)
+        renderOverview(contentBox, data, width, innerHeight, note, getBudgetStatuses(), buildForecast(data), getAnomalies())
         break
       case 1:
-        renderByModel(contentBox, data, modelScrollOffset, width, note, modelPageSize)
+        renderByModel(
+          contentBox,
+          data,
+          modelScrollOffset,
+          width,
+          note,
+          modelPageSize,
+          listColumns,
+          getSimulation(),
+          getComparison(),
+        )
         break
       case 2:
-        renderByProject(contentBox, data, projectScrollOffset, width, note, projectPageSize)
+        renderByProject(
+          contentBox,
+          data,
+          projectScrollOffset,
+          width,
+          note,
+          projectPageSize,
+          listColumns,
+          getSimulation(),
+          getComparison(),
+        )
         break
       case 3:
         if (dailyDetailDate) {
-          renderDailyDetail(contentBox, data, dailyDetailDate, dailyDetailScrollOffset, width, dailyDetailPageSize)
+          renderDailyDetail(contentBox, data, dailyDetailDate, dailyDetailScrollOffset, width, dailyDetailPageSize, getAnomalies())
+        } else if (showingPeriods()) {
+          renderPeriods(
+            contentBox,
+            data,
+            getRollups(),
+            dailyGranularity,
+            dailyScrollOffset,
+            dailySelectedIndex,
+            width,
+            note,
+            dailyPageSize,
+            getAnomalies(),
+          )
+        } else {
+          const period = getDailyPeriod()
+          renderDaily(
+            contentBox,
+            data,
+            dailyScrollOffset,
+            dailySelectedIndex,
+            width,
+            note,
+            dailyPageSize,
+            getAnomalies(),
+            period && { rollup: period, granularity: dailyGranularity },
+          )
+        }
+        break
+      case 4:
+        if (sessionDetailId) {
+          renderSessionDetail(contentBox, data, sessionDetailId, sessionDetailScrollOffset, width, sessionDetailPageSize)
         } else {
-          renderDaily(contentBox, data, dailyScrollOffset, dailySelectedIndex, width, note, dailyPageSize)
+          renderSessions(
+            contentBox,
+            data,
+            sessionScrollOffset,
+            sessionSelectedIndex,
+            sessionSortKey,
+            width,
+            note,
+            sessionPageSize,
+          )
         }
         break
+      case 5:
+        renderHours(contentBox, data, hourlyMetric, width, note)
+        break
     }
   }
 
+  // watch 模式：监听数据目录，增量更新 data 后原地重绘
+  let stopWatching: (() => void) | null = null
+  let watchQueue: Promise<void> = Promise.resolve()
+  let lastLiveUpdate: Date | null = null
+  // 有目录无法递归监听、改为轮询
+  let watchPolling = false
+
+  async function applyLiveUpdate(activeLoader: UsageLoader, changedPaths: string[] | null): Promise<void> {
+    // 数据源切换或刷新后，旧 loader 的事件直接丢弃
+    if (activeLoader !== loader) return
+
+    const selectedDate = getDailyRowKeys()[dailySelectedIndex]
+    const selectedSessionId = getSortedSessions(data, sessionSortKey)[sessionSelectedIndex]?.id
+
+    // 轮询时不知道具体文件，检查全部
+    const changed = await activeLoader.update(changedPaths ?? undefined)
+    if (!changed || activeLoader !== loader) return
+    lastLiveUpdate = new Date()
+
+    // 新日期（或新的周 / 月）插入后保持 Daily 列表选中的行不变
+    if (selectedDate) {
+      const newIndex = getDailyRowKeys().indexOf(selectedDate)
+      if (newIndex !== -1) {
+        dailyScrollOffset = Math.max(0, dailyScrollOffset + newIndex - dailySelectedIndex)
+        dailySelectedIndex = newIndex
+      }
+    }
+    // Sessions 列表同理：排序变化后仍选中同一个会话
+    if (selectedSessionId) {
+      const newIndex = getSortedSessions(data, sessionSortKey).findIndex(s => s.id === selectedSessionId)
+      if (newIndex !== -1) {
+        sessionScrollOffset = Math.max(0, sessionScrollOffset + newIndex - sessionSelectedIndex)
+        sessionSelectedIndex = newIndex
+      }
+    }
+
+    updateContent()
+    updateStatusBar()
+    screen.render()
+  }
+
+  async function startWatching(): Promise<void> {
+    stopWatching?.()
+    stopWatching = null
+    if (!options.watch) return
+
+    const activeLoader = loader
+    const dirs = await activeLoader.watchDirs()
+    if (activeLoader !== loader) return
+    watchPolling = false
+    stopWatching = watchDirectories(
+      dirs,
+      changedPaths => {
+        watchQueue = watchQueue
+          .then(() => applyLiveUpdate(activeLoader, changedPaths))
+          .catch(err => {
+            statusBar.setContent(` {red-fg}Live update failed: ${String(err)}{/red-fg}`)
+            screen.render()
+          })
+      },
+      {
+        // TUI 运行中写 stderr 会打乱界面，提示显示在状态栏
+        onWarning: message => {
+          watchPolling = true
+          statusBar.setContent(` {yellow-fg}${message}{/yellow-fg}`)
+          screen.render()
+        },
+      }
+    )
+  }
+
   // 更新状态栏
   function updateStatusBar(): void {
-    const daysInfo = options.days ? `Last ${options.days} days` : 'All time'
-    const sourceInfo = currentSource === 'code' ? 'Code' : 'IDE'
-    const rightContent = `v${VERSION}`
+    const liveInfo = options.watch
+      ? ` | ● Live${watchPolling ? ' (polling)' : ''}${lastLiveUpdate ? ` ${lastLiveUpdate.toTimeString().slice(0, 8)}` : ''}`
+      : ''
+    const tzInfo = options.timeZone ? ` (${options.timeZone})` : ''
+    const daysInfo = data.dateRange.label + tzInfo + liveInfo
+    const sourceInfo = SOURCE_LABELS[currentSource]
+    const splitInfo = currentSource === 'all' ? ` (${formatSourceSplit(data.grandTotal.sources)})` : ''
+    const currency = getCostCurrency()
+    const rightContent = (currency.code === BASE_CURRENCY ? '' : `${formatExchangeRate(currency.code, currency.rate)}  `) + `v${VERSION}`
     const width = Number(screen.width) || 80
 
+    // 只显示使用比例最高的预算；宽度按不含颜色标签的文本计算，输出时再着色
+    const tightest = getTightestBudget(getBudgetStatuses())
+    const budgetText = tightest ? `Budget: ${formatBudgetName(tightest)} ${formatPercent(tightest.ratio)}` : ''
+    const budgetInfo = budgetText ? ` | ${budgetText}` : ''
+
     // 根据剩余宽度决定左侧内容详细程度（预留版本号空间）
     const reservedForRight = rightContent.length + 2 // 版本号 + 两侧空格
     const availableForLeft = width - reservedForRight
 
     let leftContent: string
-    const fullContent = ` ${daysInfo} | Source: ${sourceInfo} | Total: ${formatCost(data.grandTotal.cost)} | q quit, Tab view, s source, r refresh`
-    const mediumContent = ` ${daysInfo} | ${sourceInfo} | ${formatCost(data.grandTotal.cost)} | q/Tab/s/r`
-    const shortContent = ` ${sourceInfo} | ${formatCost(data.grandTotal.cost)} | q/Tab/s/r`
+    const fullContent = ` ${daysInfo} | Source: ${sourceInfo} | Total: ${formatCost(data.grandTotal.cost)}${splitInfo}${budgetInfo} | q quit, Tab view, s source, r refresh, d diagnostics`
+    const mediumContent = ` ${daysInfo} | ${sourceInfo} | ${formatCost(data.grandTotal.cost)}${splitInfo}${budgetInfo} | q/Tab/s/r`
+    const shortContent = ` ${sourceInfo} | ${formatCost(data.grandTotal.cost)}${budgetInfo} | q/Tab/s/r`
     const minContent = ` ${formatCost(data.grandTotal.cost)}`
 
     if (fullContent.length <= availableForLeft) {
@@ -912,17 +2956,20 @@ async function main(): Promise<void> {
     }
 
     const padding = Math.max(1, width - leftContent.length - rightContent.length)
+    if (tightest) leftContent = leftContent.replace(budgetText, colorBudget(budgetText, tightest.level))
     statusBar.setContent(leftContent + ' '.repeat(padding) + rightContent)
   }
 
   // 键盘事件
   screen.key(['tab'], () => {
-    if (dailyDetailDate) return // 在 detail 视图时禁用 tab 切换
+    if (inDetailView()) return // 在 detail 视图时禁用 tab 切换
     currentTab = (currentTab + 1) % tabs.length
     modelScrollOffset = 0
     projectScrollOffset = 0
     dailyScrollOffset = 0
     dailySelectedIndex = 0
+    sessionScrollOffset = 0
+    sessionSelectedIndex = 0
     contentBox.scrollTo(0)
     updateTabBar()
     updateContent()
@@ -930,12 +2977,14 @@ async function main(): Promise<void> {
   })
 
   screen.key(['S-tab'], () => {
-    if (dailyDetailDate) return // 在 detail 视图时禁用 tab 切换
+    if (inDetailView()) return // 在 detail 视图时禁用 tab 切换
     currentTab = (currentTab - 1 + tabs.length) % tabs.length
     modelScrollOffset = 0
     projectScrollOffset = 0
     dailyScrollOffset = 0
     dailySelectedIndex = 0
+    sessionScrollOffset = 0
+    sessionSelectedIndex = 0
     contentBox.scrollTo(0)
     updateTabBar()
     updateContent()
@@ -943,6 +2992,12 @@ async function main(): Promise<void> {
   })
 
   screen.key(['up', 'k'], () => {
+    if (showDiagnostics) {
+      diagnosticsScrollOffset = Math.max(0, diagnosticsScrollOffset - 1)
+      updateContent()
+      screen.render()
+      return
+    }
     if (currentTab === 1) {
       modelScrollOffset = Math.max(0, modelScrollOffset - 1)
       updateContent()
@@ -973,21 +3028,41 @@ async function main(): Promise<void> {
       screen.render()
       return
     }
+    if (currentTab === 4) {
+      if (sessionDetailId) {
+        sessionDetailScrollOffset = Math.max(0, sessionDetailScrollOffset - 1)
+      } else if (sessionSelectedIndex > 0) {
+        sessionSelectedIndex--
+        if (sessionSelectedIndex < sessionScrollOffset) {
+          sessionScrollOffset = sessionSelectedIndex
+        }
+      }
+      updateContent()
+      screen.render()
+      return
+    }
 
     contentBox.scroll(-1)
     screen.render()
   })
 
   screen.key(['down', 'j'], () => {
+    if (showDiagnostics) {
+      const maxOffset = Math.max(0, buildDiagnosticsLines(data).length - diagnosticsPageSize)
+      diagnosticsScrollOffset = Math.min(maxOffset, diagnosticsScrollOffset + 1)
+      updateContent()
+      screen.render()
+      return
+    }
     if (currentTab === 1) {
-      const maxOffset = Math.max(0, Object.keys(data.modelTotals).length - modelPageSize)
+      const maxOffset = Math.max(0, getListRowCount('model') - modelPageSize)
       modelScrollOffset = Math.min(maxOffset, modelScrollOffset + 1)
       updateContent()
       screen.render()
       return
     }
     if (currentTab === 2) {
-      const maxOffset = Math.max(0, Object.keys(data.projectTotals).length - projectPageSize)
+      const maxOffset = Math.max(0, getListRowCount('project') - projectPageSize)
       projectScrollOffset = Math.min(maxOffset, projectScrollOffset + 1)
       updateContent()
       screen.render()
@@ -1007,8 +3082,8 @@ async function main(): Promise<void> {
         }
       } else {
         // 在列表视图中移动选中项
-        const totalDays = Object.keys(data.dailySummary).length
-        if (dailySelectedIndex < totalDays - 1) {
+        const totalRows = getDailyRowKeys().length
+        if (dailySelectedIndex < totalRows - 1) {
           dailySelectedIndex++
           // 如果选中项超出当前页，滚动页面
           if (dailySelectedIndex >= dailyScrollOffset + dailyPageSize) {
@@ -1020,6 +3095,21 @@ async function main(): Promise<void> {
       screen.render()
       return
     }
+    if (currentTab === 4) {
+      if (sessionDetailId) {
+        const modelCount = Object.keys(data.sessions[sessionDetailId]?.models ?? {}).length
+        const maxOffset = Math.max(0, modelCount - sessionDetailPageSize)
+        sessionDetailScrollOffset = Math.min(maxOffset, sessionDetailScrollOffset + 1)
+      } else if (sessionSelectedIndex < Object.keys(data.sessions).length - 1) {
+        sessionSelectedIndex++
+        if (sessionSelectedIndex >= sessionScrollOffset + sessionPageSize) {
+          sessionScrollOffset = sessionSelectedIndex - sessionPageSize + 1
+        }
+      }
+      updateContent()
+      screen.render()
+      return
+    }
 
     contentBox.scroll(1)
     screen.render()
@@ -1027,28 +3117,150 @@ async function main(): Promise<void> {
 
   screen.key(['enter'], () => {
     if (currentTab === 3 && !dailyDetailDate) {
-      // 进入 detail 视图
-      const sortedDates = Object.keys(data.dailySummary).sort().reverse()
-      if (sortedDates[dailySelectedIndex]) {
-        dailyDetailDate = sortedDates[dailySelectedIndex]!
+      const selected = getDailyRowKeys()[dailySelectedIndex]
+      if (selected && showingPeriods()) {
+        // 进入该周 / 月的每日列表
+        periodScrollOffset = dailyScrollOffset
+        periodSelectedIndex = dailySelectedIndex
+        dailyPeriodKey = selected
+        dailyScrollOffset = 0
+        dailySelectedIndex = 0
+        updateContent()
+        screen.render()
+      } else if (selected) {
+        // 进入 detail 视图
+        dailyDetailDate = selected
         dailyDetailScrollOffset = 0
         updateContent()
         screen.render()
       }
     }
+    if (currentTab === 4 && !sessionDetailId) {
+      const selected = getSortedSessions(data, sessionSortKey)[sessionSelectedIndex]
+      if (selected) {
+        sessionDetailId = selected.id
+        sessionDetailScrollOffset = 0
+        updateContent()
+        screen.render()
+      }
+    }
   })
 
   screen.key(['escape', 'backspace'], () => {
+    if (showDiagnostics) {
+      showDiagnostics = false
+      updateContent()
+      screen.render()
+      return
+    }
     if (currentTab === 3 && dailyDetailDate) {
       // 返回列表视图
       dailyDetailDate = null
       dailyDetailScrollOffset = 0
       updateContent()
       screen.render()
+    } else if (currentTab === 3 && dailyPeriodKey) {
+      // 从每日列表返回周 / 月列表
+      dailyPeriodKey = null
+      dailyScrollOffset = periodScrollOffset
+      dailySelectedIndex = periodSelectedIndex
+      updateContent()
+      screen.render()
     }
+    if (currentTab === 4 && sessionDetailId) {
+      sessionDetailId = null
+      sessionDetailScrollOffset = 0
+      updateContent()
+      screen.render()
+    }
+  })
+
+  // Sessions 视图：切换排序字段
+  screen.key(['o'], () => {
+    if (currentTab !== 4 || sessionDetailId) return
+    sessionSortKey = SESSION_SORT_KEYS[(SESSION_SORT_KEYS.indexOf(sessionSortKey) + 1) % SESSION_SORT_KEYS.length]!
+    sessionScrollOffset = 0
+    sessionSelectedIndex = 0
+    updateContent()
+    screen.render()
+  })
+
+  // 诊断面板：打开 / 关闭
+  screen.key(['d'], () => {
+    showDiagnostics = !showDiagnostics
+    diagnosticsScrollOffset = 0
+    updateContent()
+    screen.render()
+  })
+
+  // Daily 视图：切换按天 / 周 / 月汇总
+  screen.key(['g'], () => {
+    if (currentTab !== 3 || dailyDetailDate || dailyPeriodKey) return
+    dailyGranularity = GRANULARITIES[(GRANULARITIES.indexOf(dailyGranularity) + 1) % GRANULARITIES.length]!
+    dailyScrollOffset = 0
+    dailySelectedIndex = 0
+    updateContent()
+    screen.render()
+  })
+
+  // Hours 视图：切换 cost / requests
+  screen.key(['m'], () => {
+    if (currentTab !== 5) return
+    hourlyMetric = hourlyMetric === 'cost' ? 'requests' : 'cost'
+    updateContent()
+    screen.render()
+  })
+
+  // By Model / By Project：切换分项费用列
+  screen.key(['c'], () => {
+    if (currentTab !== 1 && currentTab !== 2) return
+    listColumns = listColumns === 'components' ? 'default' : 'components'
+    updateContent()
+    screen.render()
+  })
+
+  // By Model / By Project：切换 what-if 模拟列
+  screen.key(['w'], () => {
+    if (currentTab !== 1 && currentTab !== 2) return
+    if (!simulationRules) {
+      statusBar.setContent(' {yellow-fg}What-if needs --simulate-model <id|from→to,...>{/yellow-fg}')
+      screen.render()
+      return
+    }
+    listColumns = listColumns === 'whatIf' ? 'default' : 'whatIf'
+    updateContent()
+    screen.render()
+  })
+
+  // By Model / By Project：切换与对比周期的对比列
+  screen.key(['p'], async () => {
+    if (currentTab !== 1 && currentTab !== 2) return
+    if (!comparisonRange) {
+      statusBar.setContent(` {yellow-fg}${comparisonError}{/yellow-fg}`)
+      screen.render()
+      return
+    }
+    if (listColumns !== 'compare' && !comparisonData) {
+      statusBar.setContent(' {yellow-fg}Loading comparison period...{/yellow-fg}')
+      screen.render()
+      try {
+        comparisonData = await loadComparisonData(comparisonRange)
+      } catch (err) {
+        statusBar.setContent(` {red-fg}Loading comparison failed: ${String(err)}{/red-fg}`)
+        screen.render()
+        return
+      }
+      updateStatusBar()
+    }
+    listColumns = listColumns === 'compare' ? 'default' : 'compare'
+    modelScrollOffset = 0
+    projectScrollOffset = 0
+    updateContent()
+    screen.render()
   })
 
   screen.key(['q', 'C-c'], () => {
+    stopWatching?.()
     screen.destroy()
     process.exit(0)
   })
@@ -1058,18 +3270,28 @@ async function main(): Promise<void> {
     screen.render()
     try {
       const prevDetailDate = dailyDetailDate
-      data = await loadUsageData({ days: options.days, source: currentSource })
+      const prevSessionId = sessionDetailId
+      loader = await createUsageLoader(loadOptions(cacheMode))
+      data = loader.data
+      // 已加载过对比周期时，按新的数据源一并重新加载
+      if (comparisonData && comparisonRange) comparisonData = await loadComparisonData(comparisonRange)
+      await startWatching()
       modelScrollOffset = 0
       projectScrollOffset = 0
       dailyScrollOffset = 0
       dailySelectedIndex = 0
       dailyDetailScrollOffset = 0
+      sessionScrollOffset = 0
+      sessionSelectedIndex = 0
+      sessionDetailScrollOffset = 0
       // 如果之前在详情视图且该日期仍存在，保持在详情视图
       if (prevDetailDate && data.dailySummary[prevDetailDate]) {
         dailyDetailDate = prevDetailDate
       } else {
         dailyDetailDate = null
       }
+      if (dailyPeriodKey && !getDailyPeriod()) dailyPeriodKey = null
+      sessionDetailId = prevSessionId && data.sessions[prevSessionId] ? prevSessionId : null
       contentBox.scrollTo(0)
       updateTabBar()
       updateContent()
@@ -1084,14 +3306,23 @@ async function main(): Promise<void> {
     statusBar.setContent(' {yellow-fg}Switching source...{/yellow-fg}')
     screen.render()
     try {
-      currentSource = currentSource === 'code' ? 'ide' : 'code'
-      data = await loadUsageData({ days: options.days, source: currentSource })
+      currentSource = SOURCE_CYCLE[(SOURCE_CYCLE.indexOf(currentSource) + 1) % SOURCE_CYCLE.length]!
+      loader = await createUsageLoader(loadOptions(cacheMode))
+      data = loader.data
+      // 已加载过对比周期时，按新的数据源一并重新加载
+      if (comparisonData && comparisonRange) comparisonData = await loadComparisonData(comparisonRange)
+      await startWatching()
       modelScrollOffset = 0
       projectScrollOffset = 0
       dailyScrollOffset = 0
       dailySelectedIndex = 0
       dailyDetailDate = null
+      dailyPeriodKey = null
       dailyDetailScrollOffset = 0
+      sessionScrollOffset = 0
+      sessionSelectedIndex = 0
+      sessionDetailId = null
+      sessionDetailScrollOffset = 0
       contentBox.scrollTo(0)
       updateTabBar()
       updateContent()
@@ -1115,6 +3346,8 @@ async function main(): Promise<void> {
   updateContent()
   updateStatusBar()
   screen.render()
+
+  await startWatching()
 }
 
 main().catch(err => {
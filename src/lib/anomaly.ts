@@ -0,0 +1,161 @@
+/**
+ * 日花费异常检测：把每天的花费与此前一段时间的中位数比较（robust z-score = 0.6745 × (x - median) / MAD）
+ * 只检测突增；总花费、各项目、各模型的日序列分别检测
+ */
+
+import type { AnalysisData } from './data-loader.js'
+import { addDays } from './timezone.js'
+
+/** 默认阈值：robust z-score 达到该值视为异常，越小越敏感 */
+export const DEFAULT_ANOMALY_SENSITIVITY = 3.5
+
+/** 基线窗口：当天之前的天数 */
+export const ANOMALY_WINDOW_DAYS = 14
+
+/** 基线至少需要的历史天数，不足时不检测 */
+export const ANOMALY_MIN_HISTORY = 7
+
+/** 超出基线的最小金额（USD），避免把几分钱的波动报为异常 */
+export const ANOMALY_MIN_EXCESS = 1
+
+/** 异常当天的每个驱动项最多列出的数量 */
+const MAX_DRIVERS = 3
+
+export type AnomalySeries = 'total' | 'project' | 'model'
+
+export interface AnomalyPoint {
+  series: AnomalySeries
+  /** 项目或模型 key；total 时为 null */
+  key: string | null
+  date: string
+  cost: number
+  /** 基线窗口的中位数 */
+  baseline: number
+  /** robust z-score（MAD 为 0 时用平均绝对偏差近似） */
+  score: number
+}
+
+/** 推高当天花费的项目或模型 */
+export interface AnomalyDriver {
+  series: 'project' | 'model'
+  key: string
+  cost: number
+  baseline: number
+  /** cost - baseline */
+  excess: number
+}
+
+export interface DailyAnomaly extends AnomalyPoint {
+  series: 'total'
+  projects: AnomalyDriver[]
+  models: AnomalyDriver[]
+}
+
+export interface AnomalyReport {
+  sensitivity: number
+  /** 总花费的异常日，按日期倒序 */
+  days: DailyAnomaly[]
+  /** 项目 / 模型序列上的异常点（可能不在 days 中），按超出金额降序 */
+  series: AnomalyPoint[]
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2
+}
+
+/**
+ * 计算某天相对之前窗口的基线与得分；历史不足时返回 null
+ */
+function scoreDay(values: number[], index: number, start: number): { baseline: number; score: number } | null {
+  const window = values.slice(Math.max(start, index - ANOMALY_WINDOW_DAYS), index)
+  if (window.length < ANOMALY_MIN_HISTORY) return null
+
+  const baseline = median(window)
+  const mad = median(window.map(value => Math.abs(value - baseline)))
+  // MAD 为 0（一半以上的天花费相同，常见于大多数天为 0 的序列）时退回平均绝对偏差
+  const spread =
+    mad > 0 ? mad / 0.6745 : window.reduce((sum, value) => sum + Math.abs(value - baseline), 0) / window.length / 0.7979
+  const excess = values[index]! - baseline
+  const score = spread > 0 ? excess / spread : excess > 0 ? Number.POSITIVE_INFINITY : 0
+  return { baseline, score }
+}
+
+function isSpike(cost: number, result: { baseline: number; score: number } | null, sensitivity: number): boolean {
+  return Boolean(result && result.score >= sensitivity && cost - result.baseline >= ANOMALY_MIN_EXCESS)
+}
+
+/**
+ * 检测异常日
+ * 序列覆盖从第一天有数据到最后一天有数据的连续日历，没有用量的天按 0 计；项目 / 模型序列从其第一次出现开始
+ */
+export function detectAnomalies(data: AnalysisData, sensitivity = DEFAULT_ANOMALY_SENSITIVITY): AnomalyReport {
+  const report: AnomalyReport = { sensitivity, days: [], series: [] }
+  const dates = Object.keys(data.dailySummary).sort()
+  if (!dates.length) return report
+
+  const calendar: string[] = []
+  for (let date = dates[0]!; date <= dates[dates.length - 1]!; date = addDays(date, 1)) calendar.push(date)
+
+  const totals = calendar.map(date => data.dailySummary[date]?.cost ?? 0)
+  const seriesValues: Record<'project' | 'model', Record<string, number[]>> = { project: {}, model: {} }
+  calendar.forEach((date, index) => {
+    for (const [project, models] of Object.entries(data.dailyData[date] ?? {})) {
+      for (const [modelId, stats] of Object.entries(models)) {
+        seriesValues.project[project] ??= new Array<number>(calendar.length).fill(0)
+        seriesValues.project[project]![index]! += stats.cost
+        seriesValues.model[modelId] ??= new Array<number>(calendar.length).fill(0)
+        seriesValues.model[modelId]![index]! += stats.cost
+      }
+    }
+  })
+
+  // 各项目 / 模型序列的首次出现位置，以及逐日的基线与得分
+  const seriesScores: Record<'project' | 'model', Record<string, Array<{ baseline: number; score: number } | null>>> = {
+    project: {},
+    model: {},
+  }
+  for (const kind of ['project', 'model'] as const) {
+    for (const [key, values] of Object.entries(seriesValues[kind])) {
+      const start = values.findIndex(value => value > 0)
+      const scores = values.map((_, index) => scoreDay(values, index, start))
+      seriesScores[kind][key] = scores
+      values.forEach((cost, index) => {
+        const result = scores[index]
+        if (result && isSpike(cost, result, sensitivity)) {
+          report.series.push({ series: kind, key, date: calendar[index]!, cost, ...result })
+        }
+      })
+    }
+  }
+
+  const findDrivers = (kind: 'project' | 'model', index: number): AnomalyDriver[] =>
+    Object.entries(seriesValues[kind])
+      .map(([key, values]) => {
+        const cost = values[index]!
+        const baseline = seriesScores[kind][key]![index]?.baseline ?? 0
+        return { series: kind, key, cost, baseline, excess: cost - baseline }
+      })
+      .filter(driver => driver.excess > 0)
+      .sort((a, b) => b.excess - a.excess)
+      .slice(0, MAX_DRIVERS)
+
+  totals.forEach((cost, index) => {
+    const result = scoreDay(totals, index, 0)
+    if (!result || !isSpike(cost, result, sensitivity)) return
+    report.days.push({
+      series: 'total',
+      key: null,
+      date: calendar[index]!,
+      cost,
+      ...result,
+      projects: findDrivers('project', index),
+      models: findDrivers('model', index),
+    })
+  })
+
+  report.days.reverse()
+  report.series.sort((a, b) => b.cost - b.baseline - (a.cost - a.baseline))
+  return report
+}
@@ -0,0 +1,192 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import YAML from 'yaml'
+
+import { BUDGET_PERIODS, DEFAULT_BUDGET_WARN_AT, type Budget, type BudgetPeriod, type BudgetScope } from './budget.js'
+import { BASE_CURRENCY, normalizeCurrencyCode, type DisplayCurrency } from './currency.js'
+import { expandHomePath, getBudgetConfigPaths } from './paths.js'
+
+/** 指定预算文件的环境变量 */
+export const BUDGET_FILE_ENV = 'CODEBUDDY_STATS_BUDGETS'
+
+/**
+ * 生效的预算：预算文件 + --budget 参数
+ */
+export interface BudgetConfig {
+  budgets: Budget[]
+  /** 达到上限的这一比例时提示 */
+  warnAt: number
+  /** 预算文件路径；没有找到时为 null */
+  file: string | null
+}
+
+function invalid(file: string, where: string, message: string): never {
+  throw new Error(`Invalid budget file ${file}: ${where} ${message}`)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const BUDGET_FIELDS = ['period', 'amount', 'project', 'model']
+
+/**
+ * 校验预算文件内容，金额按 rates 换算为 USD；不合法时抛出带字段路径的错误
+ *
+ * 预算文件格式（JSON 或 YAML）：
+ *
+ *   currency: CNY                                 # 可省略；金额所用币种，默认 USD
+ *   warnAt: 0.8                                   # 可省略；达到上限的这一比例时提示
+ *   budgets:
+ *     - { period: monthly, amount: 1000 }         # 全部用量
+ *     - { period: weekly, amount: 200, project: work/api }
+ *     - { period: daily, amount: 30, model: opus }
+ *
+ * period 为 daily / weekly / monthly；project / model 忽略大小写，按全等或子串匹配，匹配到多个时合计
+ */
+export function validateBudgetConfig(
+  raw: unknown,
+  file: string,
+  rates: Record<string, number>
+): Omit<BudgetConfig, 'file'> {
+  if (!isPlainObject(raw)) invalid(file, 'root', 'must be an object with a "budgets" field')
+  for (const key of Object.keys(raw)) {
+    if (!['currency', 'warnAt', 'budgets'].includes(key)) {
+      invalid(file, key, 'is not a known top-level field (expected "currency", "warnAt" or "budgets")')
+    }
+  }
+
+  let rate = 1
+  if (raw.currency !== undefined) {
+    const code = typeof raw.currency === 'string' ? normalizeCurrencyCode(raw.currency) : null
+    if (!code) invalid(file, 'currency', 'must be a 3-letter currency code such as USD or CNY')
+    if (rates[code] === undefined) {
+      invalid(file, 'currency', `is ${code}, which has no exchange rate; add it under "exchangeRates" in the pricing file`)
+    }
+    rate = rates[code]!
+  }
+
+  let warnAt = DEFAULT_BUDGET_WARN_AT
+  if (raw.warnAt !== undefined) {
+    if (typeof raw.warnAt !== 'number' || !(raw.warnAt > 0 && raw.warnAt <= 1)) {
+      invalid(file, 'warnAt', 'must be a number between 0 and 1 (e.g. 0.8 for 80%)')
+    }
+    warnAt = raw.warnAt
+  }
+
+  if (!Array.isArray(raw.budgets)) invalid(file, 'budgets', 'must be an array of { period, amount } entries')
+
+  const budgets = raw.budgets.map((item: unknown, i): Budget => {
+    const where = `budgets[${i}]`
+    if (!isPlainObject(item)) invalid(file, where, 'must be an object with period and amount')
+    for (const key of Object.keys(item)) {
+      if (!BUDGET_FIELDS.includes(key)) {
+        invalid(file, `${where}.${key}`, `is not a known field (expected ${BUDGET_FIELDS.join(', ')})`)
+      }
+    }
+    if (!BUDGET_PERIODS.includes(item.period as BudgetPeriod)) {
+      invalid(file, `${where}.period`, `must be one of ${BUDGET_PERIODS.join(', ')}`)
+    }
+    if (typeof item.amount !== 'number' || !Number.isFinite(item.amount) || item.amount <= 0) {
+      invalid(file, `${where}.amount`, 'must be a positive number')
+    }
+    if (item.project !== undefined && item.model !== undefined) {
+      invalid(file, where, 'may set project or model, not both')
+    }
+
+    let scope: BudgetScope = 'total'
+    let pattern: string | null = null
+    for (const key of ['project', 'model'] as const) {
+      if (item[key] === undefined) continue
+      if (typeof item[key] !== 'string' || !item[key].trim()) invalid(file, `${where}.${key}`, 'must be a non-empty string')
+      scope = key
+      pattern = item[key].trim()
+    }
+
+    return { period: item.period as BudgetPeriod, amount: item.amount / rate, scope, pattern }
+  })
+
+  return { budgets, warnAt }
+}
+
+/**
+ * 解析 --budget：[project:<pattern>:|model:<pattern>:]<period>=<amount>，金额按显示币种
+ * 例如 monthly=200、project:api:weekly=50、model:opus:daily=10
+ */
+export function parseBudgetSpec(spec: string, currency: DisplayCurrency): Budget {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid --budget: "${spec}" ${message}`)
+  }
+
+  const eq = spec.lastIndexOf('=')
+  if (eq < 0) fail('should look like monthly=200 or project:<name>:weekly=50')
+  const amount = Number(spec.slice(eq + 1).trim())
+  if (!Number.isFinite(amount) || amount <= 0) fail('needs a positive amount after "="')
+
+  const target = spec.slice(0, eq).trim()
+  const lastColon = target.lastIndexOf(':')
+  const period = (lastColon < 0 ? target : target.slice(lastColon + 1)).trim().toLowerCase()
+  if (!BUDGET_PERIODS.includes(period as BudgetPeriod)) fail(`has an unknown period (expected ${BUDGET_PERIODS.join(', ')})`)
+
+  let scope: BudgetScope = 'total'
+  let pattern: string | null = null
+  if (lastColon >= 0) {
+    const scoped = target.slice(0, lastColon)
+    const firstColon = scoped.indexOf(':')
+    const kind = scoped.slice(0, firstColon).trim().toLowerCase()
+    pattern = scoped.slice(firstColon + 1).trim()
+    if (firstColon < 0 || (kind !== 'project' && kind !== 'model') || !pattern) {
+      fail('should scope the budget as project:<name>:<period> or model:<name>:<period>')
+    }
+    scope = kind as BudgetScope
+  }
+
+  return { period: period as BudgetPeriod, amount: amount / currency.rate, scope, pattern }
+}
+
+async function readBudgetFile(file: string, rates: Record<string, number>): Promise<Omit<BudgetConfig, 'file'>> {
+  const raw = await fs.readFile(file, 'utf8')
+  let parsed: unknown
+  try {
+    const ext = path.extname(file).toLowerCase()
+    parsed = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw)
+  } catch (err) {
+    throw new Error(`Invalid budget file ${file}: ${(err as Error).message}`)
+  }
+  return validateBudgetConfig(parsed, file, rates)
+}
+
+/**
+ * 加载预算文件
+ * 预算文件：显式传入 > 环境变量 > 配置目录下的 budgets.json / budgets.yaml / budgets.yml
+ * 显式指定的文件不存在时报错；默认位置没有文件时没有预算
+ */
+export async function loadBudgetConfig(
+  filePath: string | null | undefined,
+  rates: Record<string, number> = { [BASE_CURRENCY]: 1 }
+): Promise<BudgetConfig> {
+  const explicit = filePath || process.env[BUDGET_FILE_ENV]
+  let file: string | null = null
+
+  if (explicit) {
+    file = expandHomePath(explicit)
+    try {
+      await fs.access(file)
+    } catch {
+      throw new Error(`Budget file not found: ${file}`)
+    }
+  } else {
+    for (const candidate of getBudgetConfigPaths()) {
+      try {
+        await fs.access(candidate)
+        file = candidate
+        break
+      } catch {
+        // 尝试下一个候选路径
+      }
+    }
+  }
+
+  if (!file) return { budgets: [], warnAt: DEFAULT_BUDGET_WARN_AT, file: null }
+  return { ...(await readBudgetFile(file, rates)), file }
+}
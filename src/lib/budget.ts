@@ -0,0 +1,139 @@
+/**
+ * 预算：按日 / 周 / 月统计当前周期的花费，判断是否接近或超出上限
+ */
+
+import type { AnalysisData } from './data-loader.js'
+import { addDays, getWeekday, todayInZone } from './timezone.js'
+import { resolveProjectName } from './workspace-resolver.js'
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly'
+
+export const BUDGET_PERIODS: readonly BudgetPeriod[] = ['daily', 'weekly', 'monthly']
+
+/**
+ * 预算范围
+ * - total：全部用量
+ * - project / model：按 pattern 匹配的项目或模型（忽略大小写，全等或子串），多个匹配项合计
+ */
+export type BudgetScope = 'total' | 'project' | 'model'
+
+export const BUDGET_SCOPES: readonly BudgetScope[] = ['total', 'project', 'model']
+
+export interface Budget {
+  period: BudgetPeriod
+  /** 上限（USD） */
+  amount: number
+  scope: BudgetScope
+  /** scope 为 project / model 时的匹配字符串，total 时为 null */
+  pattern: string | null
+}
+
+/** 达到上限的这一比例时提示（可在预算文件中用 warnAt 调整） */
+export const DEFAULT_BUDGET_WARN_AT = 0.8
+
+/**
+ * - ok：低于 warnAt
+ * - warning：达到 warnAt，未超出
+ * - exceeded：达到或超出上限
+ */
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded'
+
+export interface BudgetStatus {
+  budget: Budget
+  /** 当前周期（含两端），按数据所用时区的日历 */
+  since: string
+  until: string
+  spent: number
+  /** spent / amount */
+  ratio: number
+  level: BudgetLevel
+  /** 加载的日期范围没有覆盖整个周期，花费可能偏低 */
+  partial: boolean
+  /** 匹配到的项目或模型（total 时为空） */
+  matches: string[]
+}
+
+/**
+ * 包含 today 的预算周期：当天、本周（ISO 周，周一开始）、本月
+ */
+export function getBudgetWindow(period: BudgetPeriod, today: string): { since: string; until: string } {
+  switch (period) {
+    case 'daily':
+      return { since: today, until: today }
+    case 'weekly': {
+      const weekday = getWeekday(today)
+      return { since: addDays(today, weekday === 0 ? -6 : 1 - weekday), until: today }
+    }
+    case 'monthly':
+      return { since: `${today.slice(0, 8)}01`, until: today }
+  }
+}
+
+function matchesPattern(pattern: string, candidates: string[]): 'exact' | 'partial' | null {
+  const needle = pattern.toLowerCase()
+  const values = candidates.map(value => value.toLowerCase())
+  if (values.includes(needle)) return 'exact'
+  if (values.some(value => value.includes(needle))) return 'partial'
+  return null
+}
+
+/**
+ * 找出预算匹配的项目或模型 key：有全等匹配时只取全等的，否则取所有子串匹配
+ */
+function findBudgetMatches(budget: Budget, data: AnalysisData): string[] {
+  if (budget.scope === 'total' || !budget.pattern) return []
+
+  const candidates: Array<[string, string[]]> =
+    budget.scope === 'project'
+      ? Object.keys(data.projectTotals).map(project => [
+          project,
+          [project, resolveProjectName(project, data.workspaceMappings)],
+        ])
+      : Object.entries(data.modelTotals).map(([modelId, stats]) => [modelId, [modelId, stats.pricedAs]])
+
+  const exact: string[] = []
+  const partial: string[] = []
+  for (const [key, names] of candidates) {
+    const match = matchesPattern(budget.pattern, names)
+    if (match === 'exact') exact.push(key)
+    else if (match === 'partial') partial.push(key)
+  }
+  return exact.length ? exact : partial
+}
+
+function getBudgetLevel(ratio: number, warnAt: number): BudgetLevel {
+  if (ratio >= 1) return 'exceeded'
+  if (ratio >= warnAt) return 'warning'
+  return 'ok'
+}
+
+/**
+ * 统计每个预算在当前周期内的花费
+ */
+export function evaluateBudgets(data: AnalysisData, budgets: Budget[], warnAt = DEFAULT_BUDGET_WARN_AT): BudgetStatus[] {
+  const today = todayInZone(data.timeZone)
+
+  return budgets.map(budget => {
+    const { since, until } = getBudgetWindow(budget.period, today)
+    const matches = findBudgetMatches(budget, data)
+    const matchSet = new Set(matches)
+
+    let spent = 0
+    for (let date = since; date <= until; date = addDays(date, 1)) {
+      if (budget.scope === 'total') {
+        spent += data.dailySummary[date]?.cost ?? 0
+        continue
+      }
+      for (const [project, models] of Object.entries(data.dailyData[date] ?? {})) {
+        for (const [modelId, stats] of Object.entries(models)) {
+          if (matchSet.has(budget.scope === 'project' ? project : modelId)) spent += stats.cost
+        }
+      }
+    }
+
+    const { since: rangeSince, until: rangeUntil } = data.dateRange
+    const partial = Boolean((rangeSince && rangeSince > since) || (rangeUntil && rangeUntil < until))
+    const ratio = budget.amount > 0 ? spent / budget.amount : 0
+    return { budget, since, until, spent, ratio, level: getBudgetLevel(ratio, warnAt), partial, matches }
+  })
+}
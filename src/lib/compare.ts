@@ -0,0 +1,140 @@
+/**
+ * 周期对比：当前范围与对比范围（如上一个周期）按总计、模型、项目逐项比较
+ */
+
+import type { AnalysisData, DailyModelStats } from './data-loader.js'
+import type { DateRange } from './date-range.js'
+
+export interface PeriodStats {
+  cost: number
+  tokens: number
+  requests: number
+  cacheHitTokens: number
+  cacheMissTokens: number
+  /** 命中 / (命中 + 未命中)；没有缓存明细时为 0 */
+  cacheHitRate: number
+}
+
+export interface MetricChange {
+  /** current - previous */
+  delta: number
+  /** delta / previous；previous 为 0 时为 null */
+  ratio: number | null
+}
+
+export interface ComparisonRow {
+  current: PeriodStats
+  previous: PeriodStats
+  change: {
+    cost: MetricChange
+    tokens: MetricChange
+    requests: MetricChange
+    /** 命中率之差（百分点，以小数表示，如 0.05 = +5 pp） */
+    cacheHitRate: number
+  }
+}
+
+export interface PeriodComparison {
+  current: DateRange
+  previous: DateRange
+  total: ComparisonRow
+  /** 任一周期出现过的模型 / 项目 */
+  byModel: Record<string, ComparisonRow>
+  byProject: Record<string, ComparisonRow>
+}
+
+function createPeriodStats(): PeriodStats {
+  return { cost: 0, tokens: 0, requests: 0, cacheHitTokens: 0, cacheMissTokens: 0, cacheHitRate: 0 }
+}
+
+function addDailyStats(target: PeriodStats, stats: DailyModelStats): void {
+  target.cost += stats.cost
+  target.tokens += stats.totalTokens
+  target.requests += stats.requests
+  target.cacheHitTokens += stats.cacheHitTokens
+  target.cacheMissTokens += stats.cacheMissTokens
+}
+
+function finishPeriodStats(stats: PeriodStats): PeriodStats {
+  const cacheTokens = stats.cacheHitTokens + stats.cacheMissTokens
+  stats.cacheHitRate = cacheTokens > 0 ? stats.cacheHitTokens / cacheTokens : 0
+  return stats
+}
+
+interface PeriodTotals {
+  total: PeriodStats
+  byModel: Record<string, PeriodStats>
+  byProject: Record<string, PeriodStats>
+}
+
+function summarizePeriod(data: AnalysisData): PeriodTotals {
+  const totals: PeriodTotals = { total: createPeriodStats(), byModel: {}, byProject: {} }
+  for (const projects of Object.values(data.dailyData)) {
+    for (const [project, models] of Object.entries(projects)) {
+      for (const [modelId, stats] of Object.entries(models)) {
+        addDailyStats(totals.total, stats)
+        totals.byModel[modelId] ??= createPeriodStats()
+        addDailyStats(totals.byModel[modelId]!, stats)
+        totals.byProject[project] ??= createPeriodStats()
+        addDailyStats(totals.byProject[project]!, stats)
+      }
+    }
+  }
+
+  finishPeriodStats(totals.total)
+  for (const stats of [...Object.values(totals.byModel), ...Object.values(totals.byProject)]) finishPeriodStats(stats)
+  return totals
+}
+
+function getChange(current: number, previous: number): MetricChange {
+  const delta = current - previous
+  return { delta, ratio: previous > 0 ? delta / previous : null }
+}
+
+function compareStats(current = createPeriodStats(), previous = createPeriodStats()): ComparisonRow {
+  return {
+    current,
+    previous,
+    change: {
+      cost: getChange(current.cost, previous.cost),
+      tokens: getChange(current.tokens, previous.tokens),
+      requests: getChange(current.requests, previous.requests),
+      cacheHitRate: current.cacheHitRate - previous.cacheHitRate,
+    },
+  }
+}
+
+function compareRecords(
+  current: Record<string, PeriodStats>,
+  previous: Record<string, PeriodStats>
+): Record<string, ComparisonRow> {
+  const rows: Record<string, ComparisonRow> = {}
+  for (const key of new Set([...Object.keys(current), ...Object.keys(previous)])) {
+    rows[key] = compareStats(current[key], previous[key])
+  }
+  return rows
+}
+
+/**
+ * 对比两份数据；previous 通常是用对比范围重新加载的同一数据源
+ */
+export function buildComparison(current: AnalysisData, previous: AnalysisData, previousRange: DateRange): PeriodComparison {
+  const now = summarizePeriod(current)
+  const before = summarizePeriod(previous)
+  return {
+    current: current.dateRange,
+    previous: previousRange,
+    total: compareStats(now.total, before.total),
+    byModel: compareRecords(now.byModel, before.byModel),
+    byProject: compareRecords(now.byProject, before.byProject),
+  }
+}
+
+/**
+ * 按当前周期费用降序、再按对比周期费用降序排列
+ */
+export function sortComparisonRows(rows: Record<string, ComparisonRow>): Array<[string, ComparisonRow]> {
+  return Object.entries(rows).sort(
+    (a, b) => b[1].current.cost - a[1].current.cost || b[1].previous.cost - a[1].previous.cost
+  )
+}
@@ -0,0 +1,66 @@
+/**
+ * 币种与汇率
+ * 内部金额统一以 USD 计算；以其他币种定价的价格在加载时换算为 USD，显示时再换算为所选币种
+ */
+
+export const BASE_CURRENCY = 'USD'
+
+/** 内置汇率：1 USD 可兑换的该币种数量（CNY 沿用内置 GLM 价格的换算口径） */
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  USD: 1,
+  CNY: 7,
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CNY: '¥',
+  EUR: '€',
+  GBP: '£',
+  JPY: 'JP¥',
+  HKD: 'HK$',
+  TWD: 'NT$',
+  SGD: 'S$',
+  KRW: '₩',
+}
+
+/** 显示所用的币种 */
+export interface DisplayCurrency {
+  code: string
+  symbol: string
+  /** 1 USD 可兑换的该币种数量 */
+  rate: number
+}
+
+export const USD_CURRENCY: DisplayCurrency = { code: BASE_CURRENCY, symbol: '$', rate: 1 }
+
+/** 规范化币种代码（三位字母，大写）；不合法时返回 null */
+export function normalizeCurrencyCode(value: string): string | null {
+  const code = value.trim().toUpperCase()
+  return /^[A-Z]{3}$/.test(code) ? code : null
+}
+
+/** 币种符号；没有内置符号的币种使用 "EUR " 形式的代码前缀 */
+export function getCurrencySymbol(code: string): string {
+  return CURRENCY_SYMBOLS[code] ?? `${code} `
+}
+
+/**
+ * 按汇率表解析显示币种；币种代码不合法或没有汇率时抛出错误
+ */
+export function resolveDisplayCurrency(value: string, rates: Record<string, number>): DisplayCurrency {
+  const code = normalizeCurrencyCode(value)
+  if (!code) throw new Error(`Invalid currency: ${value} (expected a 3-letter code such as USD or CNY)`)
+  const rate = rates[code]
+  if (rate === undefined) {
+    throw new Error(
+      `No exchange rate for ${code} (known: ${Object.keys(rates).sort().join(', ')}); add it under "exchangeRates" in the pricing file`
+    )
+  }
+  return { code, symbol: getCurrencySymbol(code), rate }
+}
+
+/** 汇率说明，如 "1 USD = 7.20 CNY" */
+export function formatExchangeRate(code: string, rate: number): string {
+  const [int, dec = ''] = rate.toFixed(4).replace(/0+$/, '').split('.')
+  return `1 ${BASE_CURRENCY} = ${int}.${dec.padEnd(2, '0')} ${code}`
+}
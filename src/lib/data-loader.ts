@@ -1,21 +1,51 @@
+import { createHash } from 'node:crypto'
 import fs from 'node:fs/promises'
 import fsSync from 'node:fs'
 import path from 'node:path'
-import { createInterface } from 'node:readline'
-
-import { getIdeDataDir, getProjectsDir, getSettingsPath } from './paths.js'
-import { DEFAULT_MODEL_ID, getPricingForModel, tokensToCost } from './pricing.js'
-import { loadWorkspaceMappings, type WorkspaceMapping } from './workspace-resolver.js'
 
+import { isDateInRange, resolveDateRange, type DateRange, type DateRangeOptions } from './date-range.js'
+import { loadParseCache, saveParseCache, type CacheMode, type CachedUsageEntry, type ParseCache } from './parse-cache.js'
+import {
+  addSkipCounts,
+  createSkipCounts,
+  type FallbackPricingStats,
+  type LoadDiagnostics,
+  type RootDiagnostics,
+  type SkipCounts,
+  type SkipReason,
+} from './diagnostics.js'
+import { getProjectsDir, getSettingsPath, isPathInside, resolveDataRoots, type DataRoots } from './paths.js'
+import { createModelResolver, DEFAULT_MODEL_ID, DEFAULT_TIER_BASIS, getPricingForModel, tokensToCost, type PricingTable } from './pricing.js'
+import { loadActivePricing, type ActivePricing } from './pricing-config.js'
+import { getZonedParts, parseZonedDate, resolveTimeZone, type ZonedParts } from './timezone.js'
+import { loadWorkspaceMappings, resolveProjectName, type WorkspaceMapping } from './workspace-resolver.js'
+
+/** CodeBuddy Code 的默认 projects 目录；实际扫描的目录见 LoadUsageOptions.codeDirs */
 export const BASE_DIR = getProjectsDir()
 
+/**
+ * 日志中的原始用量，兼容几种上游格式：
+ * - DeepSeek 风格：prompt_cache_hit_tokens / prompt_cache_miss_tokens
+ * - OpenAI 风格：prompt_tokens_details.cached_tokens、completion_tokens_details.reasoning_tokens
+ * - Anthropic 风格：cache_read_input_tokens / cache_creation_input_tokens；
+ *   没有 prompt_tokens 时读取 input_tokens / output_tokens，其中 input_tokens 不含缓存读写
+ */
 export interface RawUsage {
   prompt_tokens?: number
   completion_tokens?: number
+  input_tokens?: number
+  output_tokens?: number
   total_tokens?: number
   prompt_cache_hit_tokens?: number
   prompt_cache_miss_tokens?: number
   cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+  prompt_tokens_details?: {
+    cached_tokens?: number
+  }
+  completion_tokens_details?: {
+    reasoning_tokens?: number
+  }
 }
 
 export interface UsageStats {
@@ -25,11 +55,68 @@ export interface UsageStats {
   cacheHitTokens: number
   cacheMissTokens: number
   cacheWriteTokens: number
+  /** 推理（思考）token，已包含在 completionTokens 中，按输出价计费 */
+  reasoningTokens: number
 }
 
+/**
+ * 费用分项
+ * - input：未命中缓存的输入（没有缓存明细时为全部输入）
+ * - output：输出
+ * - cacheRead / cacheWrite：缓存命中 / 写入
+ */
+export type CostComponent = 'input' | 'output' | 'cacheRead' | 'cacheWrite'
+
+export const COST_COMPONENTS: readonly CostComponent[] = ['input', 'output', 'cacheRead', 'cacheWrite']
+
+export type CostBreakdown = Record<CostComponent, number>
+
+export function createCostBreakdown(): CostBreakdown {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }
+}
+
+export function addCostBreakdown(target: CostBreakdown, source: CostBreakdown): void {
+  for (const component of COST_COMPONENTS) target[component] += source[component]
+}
+
+/**
+ * 缓存带来的费用变化
+ * - noCacheCost：假设所有输入 token（命中 + 未命中 + 写入）都按 prompt 价计费时的费用
+ * - readSavings：缓存命中比 prompt 价便宜的部分
+ * - writePremium：缓存写入比 prompt 价贵的部分
+ * 净节省 = readSavings - writePremium = noCacheCost - cost
+ */
+export interface CacheSavings {
+  noCacheCost: number
+  readSavings: number
+  writePremium: number
+}
+
+export function createCacheSavings(): CacheSavings {
+  return { noCacheCost: 0, readSavings: 0, writePremium: 0 }
+}
+
+export function addCacheSavings(target: CacheSavings, source: CacheSavings): void {
+  target.noCacheCost += source.noCacheCost
+  target.readSavings += source.readSavings
+  target.writePremium += source.writePremium
+}
+
+/** 单条用量记录的来源（CodeBuddy Code 或 IDE） */
+export type UsageOrigin = 'code' | 'ide'
+
+export const USAGE_ORIGINS: readonly UsageOrigin[] = ['code', 'ide']
+
+/** 按来源拆分的汇总（仅包含实际出现过的来源） */
+export type SourceBreakdown = Partial<Record<UsageOrigin, SummaryStats>>
+
 export interface DailyModelStats extends UsageStats {
   cost: number
+  /** cost 按分项拆分，各项之和等于 cost */
+  costs: CostBreakdown
+  cacheSavings: CacheSavings
   requests: number
+  sources: SourceBreakdown
 }
 
 export interface SummaryStats {
@@ -38,33 +125,110 @@ export interface SummaryStats {
   requests: number
 }
 
-export interface GrandTotal extends SummaryStats {
+export interface SourcedSummaryStats extends SummaryStats {
+  sources: SourceBreakdown
+  /** cost 按分项拆分 */
+  costs: CostBreakdown
+  cacheSavings: CacheSavings
+}
+
+export interface GrandTotal extends SourcedSummaryStats {
   cacheHitTokens: number
   cacheMissTokens: number
 }
 
 export type DailyData = Record<string, Record<string, Record<string, DailyModelStats>>>
 
+/**
+ * 小时 × 星期 活跃度网格：hourlyActivity[weekday][hour]
+ * weekday 从周一开始（0=Mon ... 6=Sun），hour 为 0-23，均按数据所用时区计算
+ */
+export type HourlyActivity = SummaryStats[][]
+
+/**
+ * 会话级汇总
+ * - Code：每个 JSONL 文件是一个会话
+ * - IDE：每个对话（history/<workspace>/<conversation>）是一个会话
+ */
+export interface SessionStats extends SummaryStats {
+  id: string
+  origin: UsageOrigin
+  /** Code：JSONL 文件路径；IDE：对话目录 */
+  path: string
+  project: string
+  /** 首条 / 末条记录的时间戳（epoch ms） */
+  firstTimestamp: number
+  lastTimestamp: number
+  durationMs: number
+  models: Record<string, SummaryStats>
+}
+
+/** 单次请求的用量（what-if 模拟需要按请求重新计价） */
+export interface UsageRecord {
+  origin: UsageOrigin
+  date: string
+  timestamp: number
+  project: string
+  modelId: string
+  pricedModelId: string
+  cost: number
+  stats: UsageStats
+}
+
+/** 按 model 汇总的统计，key 为日志中的原始 model ID */
+export interface ModelTotalStats extends SourcedSummaryStats {
+  /** 计价所用的价格表 model ID（规范化 / 别名匹配后的结果，或兜底的 DEFAULT_MODEL_ID） */
+  pricedAs: string
+  /** 价格表中找不到该 model，费用按 DEFAULT_MODEL_ID 估算 */
+  estimated: boolean
+  /** 输出 token 中的推理 token */
+  reasoningTokens: number
+}
+
 export interface AnalysisData {
+  source: UsageSource
+  /** 日期划分所用的 IANA 时区 */
+  timeZone: string
+  /** 实际生效的日期范围 */
+  dateRange: DateRange
   defaultModelId: string
+  /** 实际扫描的数据目录 */
+  dataRoots: DataRoots
+  /** 实际生效的价格表 */
+  pricing: ActivePricing
   dailyData: DailyData
-  dailySummary: Record<string, SummaryStats>
-  modelTotals: Record<string, SummaryStats>
-  projectTotals: Record<string, SummaryStats>
+  dailySummary: Record<string, SourcedSummaryStats>
+  modelTotals: Record<string, ModelTotalStats>
+  projectTotals: Record<string, SourcedSummaryStats>
   grandTotal: GrandTotal
   topModel: (SummaryStats & { id: string }) | null
   topProject: (SummaryStats & { name: string }) | null
+  /** 会话 id -> 会话汇总 */
+  sessions: Record<string, SessionStats>
+  hourlyActivity: HourlyActivity
+  /** 逐条请求的用量，按加载顺序排列 */
+  usageRecords: UsageRecord[]
   cacheHitRate: number
   activeDays: number
-  /** 工作区 hash -> 路径映射（仅 IDE source 有效） */
+  /** 数据发现与解析过程中的诊断信息 */
+  diagnostics: LoadDiagnostics
+  /** 工作区 hash -> 路径映射（仅 IDE / All source 有效） */
   workspaceMappings?: Map<string, import('./workspace-resolver.js').WorkspaceMapping>
 }
 
-export type UsageSource = 'code' | 'ide'
+export type UsageSource = UsageOrigin | 'all'
 
-export interface LoadUsageOptions {
-  days?: number | null
+/**
+ * codeDirs / ideDirs / workspaceStorageDirs 未指定时依次回退到环境变量与平台默认目录
+ */
+export interface LoadUsageOptions extends DateRangeOptions, Partial<DataRoots> {
   source?: UsageSource
+  /** JSONL 解析缓存模式，默认 'use' */
+  cache?: CacheMode
+  /** 按哪个 IANA 时区划分日期，默认本地时区 */
+  timeZone?: string | null
+  /** 用户价格文件，默认查找配置目录下的 pricing.json / pricing.yaml */
+  pricingFile?: string | null
 }
 
 interface SettingsFile {
@@ -111,23 +275,48 @@ async function findJsonlFiles(dir: string): Promise<string[]> {
   }
 }
 
-function getProjectName(filePath: string): string {
-  const parts = filePath.split(path.sep)
-  const projectsIndex = parts.lastIndexOf('projects')
-  if (projectsIndex !== -1 && projectsIndex < parts.length - 1) {
-    return parts[projectsIndex + 1] ?? 'unknown-project'
+/**
+ * 项目名取 JSONL 文件相对所在根目录的第一级目录名
+ * 不同根目录（本机与拷贝回来的副本）下同名项目会合并统计
+ */
+function getProjectName(filePath: string, root: string): string {
+  const parts = path.relative(root, filePath).split(path.sep)
+  if (parts.length > 1 && parts[0] && parts[0] !== '..') {
+    return parts[0]
   }
   return 'unknown-project'
 }
 
-function extractUsageStats(usage: RawUsage): UsageStats {
-  const promptTokens = usage.prompt_tokens ?? 0
-  const completionTokens = usage.completion_tokens ?? 0
+/** 只接受有限的非负数，其他值视为缺失 */
+function tokenCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined
+}
+
+/**
+ * 未命中缓存的输入：prompt_tokens 包含缓存读取；缓存写入放不下时视为不包含在内
+ */
+function uncachedPromptTokens(promptTokens: number, cacheHitTokens: number, cacheWriteTokens: number): number {
+  const rest = promptTokens - cacheHitTokens
+  return rest >= cacheWriteTokens ? rest - cacheWriteTokens : Math.max(rest, 0)
+}
+
+/** 把各种上游格式的原始用量统一为 UsageStats */
+export function extractUsageStats(usage: RawUsage): UsageStats {
+  const cacheHitTokens =
+    tokenCount(usage.prompt_cache_hit_tokens) ??
+    tokenCount(usage.cache_read_input_tokens) ??
+    tokenCount(usage.prompt_tokens_details?.cached_tokens) ??
+    0
+  const cacheWriteTokens = tokenCount(usage.cache_creation_input_tokens) ?? 0
+  const inputTokens = usage.prompt_tokens === undefined ? tokenCount(usage.input_tokens) : undefined
+  const promptTokens = usage.prompt_tokens ?? (inputTokens === undefined ? 0 : inputTokens + cacheHitTokens + cacheWriteTokens)
+  const completionTokens = usage.completion_tokens ?? tokenCount(usage.output_tokens) ?? 0
   const totalTokens = usage.total_tokens ?? promptTokens + completionTokens
-  const cacheHitTokens = usage.prompt_cache_hit_tokens ?? 0
+  const hasCacheTokens = cacheHitTokens > 0 || cacheWriteTokens > 0
   const cacheMissTokens =
-    usage.prompt_cache_miss_tokens ?? (cacheHitTokens > 0 ? Math.max(promptTokens - cacheHitTokens, 0) : 0)
-  const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0
+    tokenCount(usage.prompt_cache_miss_tokens) ??
+    (hasCacheTokens ? (inputTokens ?? uncachedPromptTokens(promptTokens, cacheHitTokens, cacheWriteTokens)) : 0)
+  const reasoningTokens = Math.min(tokenCount(usage.completion_tokens_details?.reasoning_tokens) ?? 0, completionTokens)
 
   return {
     promptTokens,
@@ -136,40 +325,62 @@ function extractUsageStats(usage: RawUsage): UsageStats {
     cacheHitTokens,
     cacheMissTokens,
     cacheWriteTokens,
+    reasoningTokens,
   }
 }
 
-function computeUsageCost(usage: RawUsage, modelId: string): { cost: number; stats: UsageStats } {
-  const stats = extractUsageStats(usage)
-  const pricing = getPricingForModel(modelId)
+export interface UsageCost {
+  cost: number
+  costs: CostBreakdown
+  cacheSavings: CacheSavings
+}
 
-  let inputCost = 0
-  if (stats.cacheHitTokens || stats.cacheMissTokens || stats.cacheWriteTokens) {
-    inputCost += tokensToCost(stats.cacheHitTokens, pricing.cacheRead)
-    inputCost += tokensToCost(stats.cacheMissTokens, pricing.prompt)
-    inputCost += tokensToCost(stats.cacheWriteTokens, pricing.cacheWrite)
+/**
+ * 按记录时间生效的价格计算一次请求的费用
+ * 分档按模型的 tierBy 规则选择：默认按请求的输入上下文总量，各分项落在同一档
+ */
+export function computeStatsCost(
+  stats: UsageStats,
+  pricedModelId: string,
+  table: PricingTable,
+  timestamp: number
+): UsageCost {
+  const pricing = getPricingForModel(pricedModelId, table, timestamp)
+
+  const hasCacheBreakdown = Boolean(stats.cacheHitTokens || stats.cacheMissTokens || stats.cacheWriteTokens)
+  const contextTokens = hasCacheBreakdown
+    ? stats.cacheHitTokens + stats.cacheMissTokens + stats.cacheWriteTokens
+    : stats.promptTokens
+  // 按分项选档时不传 tierTokens
+  const tierTokens = (pricing.tierBy ?? DEFAULT_TIER_BASIS) === 'totalPrompt' ? contextTokens : undefined
+
+  const costs = createCostBreakdown()
+  if (hasCacheBreakdown) {
+    costs.cacheRead = tokensToCost(stats.cacheHitTokens, pricing.cacheRead, tierTokens)
+    costs.input = tokensToCost(stats.cacheMissTokens, pricing.prompt, tierTokens)
+    costs.cacheWrite = tokensToCost(stats.cacheWriteTokens, pricing.cacheWrite, tierTokens)
   } else {
-    inputCost += tokensToCost(stats.promptTokens, pricing.prompt)
+    costs.input = tokensToCost(stats.promptTokens, pricing.prompt, tierTokens)
   }
+  costs.output = tokensToCost(stats.completionTokens, pricing.completion, tierTokens)
+  const cost = costs.input + costs.output + costs.cacheRead + costs.cacheWrite
+
+  // 反事实：所有输入都按 prompt 价（同一档）计费
+  const cacheSavings = createCacheSavings()
+  if (hasCacheBreakdown) {
+    cacheSavings.readSavings = tokensToCost(stats.cacheHitTokens, pricing.prompt, tierTokens) - costs.cacheRead
+    cacheSavings.writePremium = costs.cacheWrite - tokensToCost(stats.cacheWriteTokens, pricing.prompt, tierTokens)
+  }
+  cacheSavings.noCacheCost = cost + cacheSavings.readSavings - cacheSavings.writePremium
 
-  const outputCost = tokensToCost(stats.completionTokens, pricing.completion)
-
-  return { cost: inputCost + outputCost, stats }
-}
-
-function computeMinDate(days?: number | null): string | null {
-  if (!days) return null
-  const d = new Date()
-  d.setDate(d.getDate() - days + 1)
-  d.setHours(0, 0, 0, 0)
-  return d.toISOString().split('T')[0] ?? null
+  return { cost, costs, cacheSavings }
 }
 
-function toISODateString(value: unknown): string | null {
-  if (typeof value !== 'string') return null
-  const d = new Date(value)
-  if (Number.isNaN(d.getTime())) return null
-  return d.toISOString().split('T')[0] ?? null
+function toTimestamp(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  // 数字形式的时间戳可能是秒
+  const t = new Date(typeof value === 'number' && value < 1e11 ? value * 1000 : value).getTime()
+  return Number.isNaN(t) ? null : t
 }
 
 async function pathExists(p: string): Promise<boolean> {
@@ -181,6 +392,127 @@ async function pathExists(p: string): Promise<boolean> {
   }
 }
 
+interface AnalysisAccumulator {
+  dailyData: DailyData
+  modelTotals: Record<string, ModelTotalStats>
+  projectTotals: Record<string, SourcedSummaryStats>
+  sessions: Record<string, SessionStats>
+  hourlyActivity: HourlyActivity
+  usageRecords: UsageRecord[]
+  grandTotal: GrandTotal
+  diagnostics: DiagnosticsAccumulator
+}
+
+interface DiagnosticsAccumulator {
+  /** 已扫描的 JSONL 文件 -> 被跳过的行数 */
+  codeFiles: Map<string, SkipCounts>
+  unreadableFiles: Set<string>
+  ideWorkspaces: Set<string>
+  /** 已读取 index.json 的对话目录 */
+  ideConversations: Set<string>
+  missingIndexes: Set<string>
+  ideRequestsWithoutUsage: number
+  ideTimestampFallbacks: number
+  missingModelId: FallbackPricingStats
+  unknownModels: Record<string, FallbackPricingStats>
+  /** 经规范化 / 别名匹配到价格表的 model ID -> 价格表 model ID */
+  normalizedModels: Record<string, string>
+}
+
+/** 记录所属会话 */
+interface SessionRef {
+  id: string
+  path: string
+  /** 会话开始时间（IDE 对话的 createdAt），早于首条记录时用于计算时长 */
+  startedAt?: number | null
+}
+
+/** 一条已计价的用量记录，origin 标记其来自 Code 还是 IDE */
+interface PricedUsageRecord {
+  origin: UsageOrigin
+  date: string
+  /** 记录时间（epoch ms）及其在数据时区下的小时 / 星期 */
+  timestamp: number
+  zoned: ZonedParts
+  project: string
+  session: SessionRef
+  modelId: string
+  /** 记录本身没有 model ID，modelId 来自默认模型 */
+  modelInferred: boolean
+  /** 计价所用的价格表 model ID */
+  pricedModelId: string
+  /** 价格表中没有该 model，按 DEFAULT_MODEL_ID 的价格计价 */
+  pricingFallback: boolean
+  cost: number
+  costs: CostBreakdown
+  cacheSavings: CacheSavings
+  stats: UsageStats
+}
+
+function createAccumulator(): AnalysisAccumulator {
+  return {
+    dailyData: {},
+    modelTotals: {},
+    projectTotals: {},
+    sessions: {},
+    hourlyActivity: Array.from({ length: 7 }, () =>
+      Array.from({ length: 24 }, () => ({ cost: 0, tokens: 0, requests: 0 }))
+    ),
+    usageRecords: [],
+    grandTotal: {
+      cost: 0,
+      tokens: 0,
+      requests: 0,
+      cacheHitTokens: 0,
+      cacheMissTokens: 0,
+      sources: {},
+      costs: createCostBreakdown(),
+      cacheSavings: createCacheSavings(),
+    },
+    diagnostics: {
+      codeFiles: new Map(),
+      unreadableFiles: new Set(),
+      ideWorkspaces: new Set(),
+      ideConversations: new Set(),
+      missingIndexes: new Set(),
+      ideRequestsWithoutUsage: 0,
+      ideTimestampFallbacks: 0,
+      missingModelId: { requests: 0, cost: 0 },
+      unknownModels: {},
+      normalizedModels: {},
+    },
+  }
+}
+
+function addToSources(sources: SourceBreakdown, origin: UsageOrigin, cost: number, tokens: number): void {
+  sources[origin] ??= { cost: 0, tokens: 0, requests: 0 }
+  sources[origin]!.cost += cost
+  sources[origin]!.tokens += tokens
+  sources[origin]!.requests += 1
+}
+
+function addToSummary(
+  totals: Record<string, SourcedSummaryStats>,
+  key: string,
+  record: PricedUsageRecord
+): void {
+  const { origin, cost, stats } = record
+  totals[key] ??= {
+    cost: 0,
+    tokens: 0,
+    requests: 0,
+    sources: {},
+    costs: createCostBreakdown(),
+    cacheSavings: createCacheSavings(),
+  }
+  totals[key]!.cost += cost
+  totals[key]!.tokens += stats.totalTokens
+  totals[key]!.requests += 1
+  addCostBreakdown(totals[key]!.costs, record.costs)
+  addCacheSavings(totals[key]!.cacheSavings, record.cacheSavings)
+  addToSources(totals[key]!.sources, origin, cost, stats.totalTokens)
+}
+
 function ensureDailyModelStats(dailyData: DailyData, date: string, project: string, modelId: string): DailyModelStats {
   dailyData[date] ??= {}
   dailyData[date]![project] ??= {}
@@ -192,29 +524,163 @@ function ensureDailyModelStats(dailyData: DailyData, date: string, project: stri
     cacheHitTokens: 0,
     cacheMissTokens: 0,
     cacheWriteTokens: 0,
+    reasoningTokens: 0,
     requests: 0,
+    sources: {},
+    costs: createCostBreakdown(),
+    cacheSavings: createCacheSavings(),
   }
   return dailyData[date]![project]![modelId]!
 }
 
-function finalizeAnalysis(
-  defaultModelId: string,
-  dailyData: DailyData,
-  modelTotals: Record<string, SummaryStats>,
-  projectTotals: Record<string, SummaryStats>,
-  grandTotal: GrandTotal,
+function addToSession(acc: AnalysisAccumulator, record: PricedUsageRecord): void {
+  const { origin, project, session: ref, modelId, cost, stats } = record
+  const start = Math.min(record.timestamp, ref.startedAt ?? record.timestamp)
+
+  acc.sessions[ref.id] ??= {
+    id: ref.id,
+    origin,
+    path: ref.path,
+    project,
+    firstTimestamp: start,
+    lastTimestamp: record.timestamp,
+    durationMs: 0,
+    cost: 0,
+    tokens: 0,
+    requests: 0,
+    models: {},
+  }
+  const session = acc.sessions[ref.id]!
+  session.firstTimestamp = Math.min(session.firstTimestamp, start)
+  session.lastTimestamp = Math.max(session.lastTimestamp, record.timestamp)
+  session.durationMs = session.lastTimestamp - session.firstTimestamp
+  session.cost += cost
+  session.tokens += stats.totalTokens
+  session.requests += 1
+
+  session.models[modelId] ??= { cost: 0, tokens: 0, requests: 0 }
+  session.models[modelId]!.cost += cost
+  session.models[modelId]!.tokens += stats.totalTokens
+  session.models[modelId]!.requests += 1
+}
+
+function addUsageRecord(acc: AnalysisAccumulator, record: PricedUsageRecord): void {
+  const { origin, date, project, modelId, cost, costs, stats } = record
+
+  const dayStats = ensureDailyModelStats(acc.dailyData, date, project, modelId)
+  dayStats.cost += cost
+  addCostBreakdown(dayStats.costs, costs)
+  addCacheSavings(dayStats.cacheSavings, record.cacheSavings)
+  dayStats.promptTokens += stats.promptTokens
+  dayStats.completionTokens += stats.completionTokens
+  dayStats.totalTokens += stats.totalTokens
+  dayStats.cacheHitTokens += stats.cacheHitTokens
+  dayStats.cacheMissTokens += stats.cacheMissTokens
+  dayStats.cacheWriteTokens += stats.cacheWriteTokens
+  dayStats.reasoningTokens += stats.reasoningTokens
+  dayStats.requests += 1
+  addToSources(dayStats.sources, origin, cost, stats.totalTokens)
+
+  acc.modelTotals[modelId] ??= {
+    cost: 0,
+    tokens: 0,
+    requests: 0,
+    sources: {},
+    costs: createCostBreakdown(),
+    cacheSavings: createCacheSavings(),
+    pricedAs: record.pricedModelId,
+    estimated: record.pricingFallback,
+    reasoningTokens: 0,
+  }
+  addToSummary(acc.modelTotals, modelId, record)
+  acc.modelTotals[modelId]!.reasoningTokens += stats.reasoningTokens
+  addToSummary(acc.projectTotals, project, record)
+  addToSession(acc, record)
+  acc.usageRecords.push({
+    origin,
+    date,
+    timestamp: record.timestamp,
+    project,
+    modelId,
+    pricedModelId: record.pricedModelId,
+    cost,
+    stats,
+  })
+
+  // getDay 风格的 weekday（0=Sun）转换为周一开始的行号
+  const cell = acc.hourlyActivity[(record.zoned.weekday + 6) % 7]![record.zoned.hour]!
+  cell.cost += cost
+  cell.tokens += stats.totalTokens
+  cell.requests += 1
+
+  acc.grandTotal.cost += cost
+  addCostBreakdown(acc.grandTotal.costs, costs)
+  addCacheSavings(acc.grandTotal.cacheSavings, record.cacheSavings)
+  acc.grandTotal.tokens += stats.totalTokens
+  acc.grandTotal.requests += 1
+  acc.grandTotal.cacheHitTokens += stats.cacheHitTokens
+  acc.grandTotal.cacheMissTokens += stats.cacheMissTokens
+  addToSources(acc.grandTotal.sources, origin, cost, stats.totalTokens)
+
+  if (record.modelInferred) {
+    acc.diagnostics.missingModelId.requests += 1
+    acc.diagnostics.missingModelId.cost += cost
+  }
+  if (record.pricingFallback) {
+    const unknown = (acc.diagnostics.unknownModels[record.modelId] ??= { requests: 0, cost: 0 })
+    unknown.requests += 1
+    unknown.cost += cost
+  } else if (record.pricedModelId !== modelId) {
+    acc.diagnostics.normalizedModels[modelId] = record.pricedModelId
+  }
+}
+
+/** 与具体用量无关、在加载开始时就确定的信息 */
+interface AnalysisMeta {
+  source: UsageSource
+  timeZone: string
+  dateRange: DateRange
+  defaultModelId: string
+  dataRoots: DataRoots
+  pricing: ActivePricing
+  /** 存在的数据目录 */
+  existingRoots: Set<string>
+  workspaceStorageRoots: RootDiagnostics[]
   workspaceMappings?: Map<string, WorkspaceMapping>
-): AnalysisData {
-  const dailySummary: Record<string, SummaryStats> = {}
+}
+
+function finalizeAnalysis(meta: AnalysisMeta, acc: AnalysisAccumulator): AnalysisData {
+  const { source, timeZone, dateRange, defaultModelId, dataRoots, pricing, workspaceMappings } = meta
+  const { dailyData, modelTotals, projectTotals, sessions, hourlyActivity, usageRecords, grandTotal } = acc
+
+  const dailySummary: Record<string, SourcedSummaryStats> = {}
   for (const date of Object.keys(dailyData)) {
-    dailySummary[date] = { cost: 0, tokens: 0, requests: 0 }
+    const day: SourcedSummaryStats = {
+      cost: 0,
+      tokens: 0,
+      requests: 0,
+      sources: {},
+      costs: createCostBreakdown(),
+      cacheSavings: createCacheSavings(),
+    }
     for (const project of Object.values(dailyData[date] ?? {})) {
       for (const model of Object.values(project ?? {})) {
-        dailySummary[date]!.cost += model.cost
-        dailySummary[date]!.tokens += model.totalTokens
-        dailySummary[date]!.requests += model.requests
+        day.cost += model.cost
+        addCostBreakdown(day.costs, model.costs)
+        addCacheSavings(day.cacheSavings, model.cacheSavings)
+        day.tokens += model.totalTokens
+        day.requests += model.requests
+        for (const origin of USAGE_ORIGINS) {
+          const part = model.sources[origin]
+          if (!part) continue
+          day.sources[origin] ??= { cost: 0, tokens: 0, requests: 0 }
+          day.sources[origin]!.cost += part.cost
+          day.sources[origin]!.tokens += part.tokens
+          day.sources[origin]!.requests += part.requests
+        }
       }
     }
+    dailySummary[date] = day
   }
 
   const topModelEntry = Object.entries(modelTotals).sort((a, b) => b[1].cost - a[1].cost)[0]
@@ -226,7 +692,12 @@ function finalizeAnalysis(
       : 0
 
   return {
+    source,
+    timeZone,
+    dateRange,
     defaultModelId,
+    dataRoots,
+    pricing,
     dailyData,
     dailySummary,
     modelTotals,
@@ -234,104 +705,455 @@ function finalizeAnalysis(
     grandTotal,
     topModel: topModelEntry ? { id: topModelEntry[0], ...topModelEntry[1] } : null,
     topProject: topProjectEntry ? { name: topProjectEntry[0], ...topProjectEntry[1] } : null,
+    sessions,
+    hourlyActivity,
+    usageRecords,
     cacheHitRate,
     activeDays: Object.keys(dailyData).length,
+    diagnostics: buildDiagnostics(meta, acc),
     workspaceMappings,
   }
 }
 
+function buildDiagnostics(meta: AnalysisMeta, acc: AnalysisAccumulator): LoadDiagnostics {
+  const diag = acc.diagnostics
+  const includeCode = meta.source !== 'ide'
+  const includeIde = meta.source !== 'code'
+
+  const describeRoots = (dirs: string[], items: Iterable<string>): RootDiagnostics[] =>
+    dirs.map(dir => {
+      let entries = 0
+      for (const item of items) if (isPathInside(item, dir)) entries++
+      return { dir, exists: meta.existingRoots.has(dir), entries }
+    })
+
+  const skippedLines = createSkipCounts()
+  const filesWithErrors: LoadDiagnostics['filesWithErrors'] = []
+  for (const [filePath, skipped] of diag.codeFiles) {
+    addSkipCounts(skippedLines, skipped)
+    if (skipped.badJson > 0 || skipped.badTimestamp > 0) filesWithErrors.push({ path: filePath, ...skipped })
+  }
+  filesWithErrors.sort((a, b) => b.badJson + b.badTimestamp - (a.badJson + a.badTimestamp))
+
+  const unresolvedProjects = Object.keys(acc.projectTotals)
+    .filter(name => resolveProjectName(name, meta.workspaceMappings) === name)
+    .sort()
+
+  return {
+    codeRoots: includeCode ? describeRoots(meta.dataRoots.codeDirs, diag.codeFiles.keys()) : [],
+    ideRoots: includeIde ? describeRoots(meta.dataRoots.ideDirs, diag.ideConversations) : [],
+    workspaceStorageRoots: includeIde ? meta.workspaceStorageRoots : [],
+    codeFilesScanned: diag.codeFiles.size,
+    skippedLines,
+    filesWithErrors,
+    unreadableFiles: [...diag.unreadableFiles].sort(),
+    missingModelId: { ...diag.missingModelId, pricedAs: meta.defaultModelId },
+    unknownModels: { ...diag.unknownModels },
+    normalizedModels: { ...diag.normalizedModels },
+    unresolvedProjects,
+    ideWorkspaces: diag.ideWorkspaces.size,
+    ideConversations: diag.ideConversations.size,
+    missingIndexes: [...diag.missingIndexes].sort(),
+    ideRequestsWithoutUsage: diag.ideRequestsWithoutUsage,
+    ideTimestampFallbacks: diag.ideTimestampFallbacks,
+  }
+}
+
 /**
  * 加载所有用量数据
+ * - code / ide：只加载对应来源
+ * - all：合并两个来源，每条记录保留来源标记，可按 Code / IDE 拆分
  */
 export async function loadUsageData(options: LoadUsageOptions = {}): Promise<AnalysisData> {
+  const loader = await createUsageLoader(options)
+  return loader.data
+}
+
+/**
+ * 可增量更新的用量加载器（watch 模式使用）
+ * data 在 update 时原地更新，调用方持有的引用始终有效
+ */
+export interface UsageLoader {
+  data: AnalysisData
+  /** 需要监听的数据目录（Code projects 目录与 IDE history 目录） */
+  watchDirs(): Promise<string[]>
+  /**
+   * 把变化路径中新增的用量追加到 data；未传 changedPaths 时检查全部文件
+   * 返回是否有数据变化
+   */
+  update(changedPaths?: string[]): Promise<boolean>
+}
+
+interface CodeCollectState {
+  cache: ParseCache
+  /** 文件路径 -> 已计入统计的用量条数 */
+  applied: Map<string, number>
+}
+
+interface IdeCollectState {
+  messageInfoCache: Map<string, IdeMessageInfo>
+  /** 对话 index.json 路径 -> mtime 与已计入统计的各请求指纹（数组长度即已计入的请求数） */
+  conversations: Map<string, { mtimeMs: number; applied: string[] }>
+}
+
+interface CollectContext {
+  acc: AnalysisAccumulator
+  defaultModelId: string
+  pricing: PricingTable
+  /** 原始 model ID -> 价格表 model ID（无法匹配时为 null） */
+  resolveModel: (modelId: string) => string | null
+  timeZone: string
+  range: DateRange
+}
+
+/** 按规范化后的 model ID 计价；无法匹配价格表时按 DEFAULT_MODEL_ID 兜底 */
+function priceUsage(
+  ctx: CollectContext,
+  stats: UsageStats,
+  modelId: string,
+  timestamp: number
+): UsageCost & { stats: UsageStats; pricedModelId: string; pricingFallback: boolean } {
+  const resolved = ctx.resolveModel(modelId)
+  const pricedModelId = resolved ?? DEFAULT_MODEL_ID
+  return { ...computeStatsCost(stats, pricedModelId, ctx.pricing, timestamp), stats, pricedModelId, pricingFallback: resolved === null }
+}
+
+export async function createUsageLoader(options: LoadUsageOptions = {}): Promise<UsageLoader> {
   const source: UsageSource = options.source ?? 'code'
-  if (source === 'ide') {
-    return loadIdeUsageData(options)
+  const includeCode = source === 'code' || source === 'all'
+  const includeIde = source === 'ide' || source === 'all'
+
+  const timeZone = resolveTimeZone(options.timeZone)
+  const defaultModelId = await loadModelFromSettings()
+  const range = resolveDateRange(options, timeZone)
+  const pricing = await loadActivePricing(options.pricingFile)
+  const roots = resolveDataRoots(options)
+  const cache = await loadParseCache(options.cache ?? 'use')
+  const workspaceMappings = includeIde ? await loadWorkspaceMappings(roots) : undefined
+  const meta: AnalysisMeta = {
+    source,
+    timeZone,
+    dateRange: range,
+    defaultModelId,
+    dataRoots: roots,
+    pricing,
+    ...(await inspectDataRoots(roots)),
+    workspaceMappings,
+  }
+
+  let ctx: CollectContext
+  let codeState: CodeCollectState
+  let ideState: IdeCollectState
+
+  async function collectAll(): Promise<void> {
+    ctx = {
+      acc: createAccumulator(),
+      defaultModelId,
+      pricing: pricing.table,
+      resolveModel: createModelResolver(pricing.table, pricing.aliases),
+      timeZone,
+      range,
+    }
+    codeState = { cache, applied: new Map() }
+    ideState = { messageInfoCache: new Map(), conversations: new Map() }
+
+    if (includeCode) {
+      const seen = new Set<string>()
+      for (const root of roots.codeDirs) {
+        for (const filePath of await findJsonlFiles(root)) {
+          // 根目录可能相互嵌套，同一文件只计一次
+          if (seen.has(filePath)) continue
+          seen.add(filePath)
+          await collectCodeFile(ctx, codeState, root, filePath)
+        }
+      }
+      await saveParseCache(cache, roots.codeDirs)
+    }
+    if (includeIde) {
+      for (const historyDir of await findIdeHistoryDirs(roots.ideDirs)) {
+        for (const workspaceDir of await listIdeWorkspaceDirs(historyDir)) {
+          await collectIdeWorkspace(ctx, ideState, workspaceDir)
+        }
+      }
+    }
+  }
+
+  await collectAll()
+  const data = finalizeAnalysis(meta, ctx!.acc)
+
+  return {
+    data,
+
+    async watchDirs() {
+      const dirs: string[] = []
+      if (includeCode) dirs.push(...roots.codeDirs)
+      if (includeIde) dirs.push(...(await findIdeHistoryDirs(roots.ideDirs)))
+      return dirs
+    },
+
+    async update(changedPaths) {
+      let applied = 0
+      let needsRebuild = false
+
+      if (includeCode) {
+        const seen = new Set<string>()
+        for (const root of roots.codeDirs) {
+          const files = changedPaths
+            ? changedPaths.filter(p => p.endsWith('.jsonl') && isPathInside(p, root))
+            : await findJsonlFiles(root)
+          for (const filePath of files) {
+            // 根目录可能相互嵌套，同一文件只计一次
+            if (seen.has(filePath)) continue
+            seen.add(filePath)
+            const count = await collectCodeFile(ctx, codeState, root, filePath)
+            if (count === null) needsRebuild = true
+            else applied += count
+          }
+        }
+        await saveParseCache(cache, roots.codeDirs)
+      }
+
+      if (includeIde) {
+        const historyDirs = await findIdeHistoryDirs(roots.ideDirs)
+        const workspaceDirs = new Set<string>()
+        for (const historyDir of historyDirs) {
+          if (!changedPaths) {
+            for (const dir of await listIdeWorkspaceDirs(historyDir)) workspaceDirs.add(dir)
+            continue
+          }
+          for (const p of changedPaths) {
+            if (!isPathInside(p, historyDir)) continue
+            const workspaceHash = path.relative(historyDir, p).split(path.sep)[0]
+            if (workspaceHash) workspaceDirs.add(path.join(historyDir, workspaceHash))
+          }
+        }
+        for (const workspaceDir of workspaceDirs) {
+          const count = await collectIdeWorkspace(ctx, ideState, workspaceDir)
+          if (count === null) needsRebuild = true
+          else applied += count
+        }
+      }
+
+      // 文件被截断或改写时无法增量扣减，只能整体重算（解析缓存会让这一步很快）
+      if (needsRebuild) {
+        await collectAll()
+      } else if (applied === 0) {
+        return false
+      }
+
+      Object.assign(data, finalizeAnalysis(meta, ctx.acc))
+      return true
+    },
   }
-  return loadCodeUsageData(options)
 }
 
-async function loadCodeUsageData(options: LoadUsageOptions = {}): Promise<AnalysisData> {
-  const defaultModelId = await loadModelFromSettings()
-  const jsonlFiles = await findJsonlFiles(BASE_DIR)
-  const minDate = computeMinDate(options.days)
+/**
+ * 检查各数据目录是否存在，并统计 workspaceStorage 中的工作区数
+ */
+async function inspectDataRoots(
+  roots: DataRoots
+): Promise<Pick<AnalysisMeta, 'existingRoots' | 'workspaceStorageRoots'>> {
+  const existingRoots = new Set<string>()
+  for (const dir of [...roots.codeDirs, ...roots.ideDirs]) {
+    try {
+      if ((await fs.stat(dir)).isDirectory()) existingRoots.add(dir)
+    } catch {
+      // 目录不存在
+    }
+  }
 
-  const dailyData: DailyData = {}
-  const modelTotals: Record<string, SummaryStats> = {}
-  const projectTotals: Record<string, SummaryStats> = {}
-  const grandTotal: GrandTotal = {
-    cost: 0,
-    tokens: 0,
-    requests: 0,
-    cacheHitTokens: 0,
-    cacheMissTokens: 0,
+  const workspaceStorageRoots: RootDiagnostics[] = []
+  for (const dir of roots.workspaceStorageDirs) {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true })
+      workspaceStorageRoots.push({ dir, exists: true, entries: entries.filter(e => e.isDirectory()).length })
+    } catch {
+      workspaceStorageRoots.push({ dir, exists: false, entries: 0 })
+    }
   }
 
-  for (const filePath of jsonlFiles) {
-    const fileStat = await fs.stat(filePath)
-    if (fileStat.size === 0) continue
+  return { existingRoots, workspaceStorageRoots }
+}
 
-    const fileStream = fsSync.createReadStream(filePath)
-    const rl = createInterface({
-      input: fileStream,
-      crlfDelay: Number.POSITIVE_INFINITY,
-    })
+/**
+ * 解析一行 JSONL，返回其中的用量，或被跳过的原因；空行返回 null
+ * JSON 无法解析时抛出异常（调用方需要区分写入中的半行）
+ */
+function parseUsageLine(line: string): CachedUsageEntry | SkipReason | null {
+  if (!line.trim()) return null
+  const record = JSON.parse(line) as JsonlRecord
+  const usage = record?.providerData?.rawUsage
+  const timestamp = record?.timestamp
+
+  if (!usage) return 'noUsage'
+  if (timestamp == null) return 'badTimestamp'
 
-    const projectName = getProjectName(filePath)
+  const t = new Date(timestamp as any).getTime()
+  if (Number.isNaN(t)) return 'badTimestamp'
 
-    for await (const line of rl) {
+  const recordModelId = record?.providerData?.model
+  return { t, m: typeof recordModelId === 'string' && recordModelId ? recordModelId : null, s: extractUsageStats(usage) }
+}
+
+/**
+ * 从字节偏移 start 开始解析 JSONL 文件直到 end，返回用量及解析到的位置
+ * 末尾不完整的行（可能正在写入）不计入 offset，下次从该行重新解析
+ */
+async function parseJsonlUsage(
+  filePath: string,
+  start: number,
+  end: number
+): Promise<{ entries: CachedUsageEntry[]; offset: number; skipped: SkipCounts }> {
+  const entries: CachedUsageEntry[] = []
+  const skipped = createSkipCounts()
+  let offset = start
+  if (end <= start) return { entries, offset, skipped }
+
+  let pending: Buffer = Buffer.alloc(0)
+  const stream = fsSync.createReadStream(filePath, { start, end: end - 1 })
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    const buf = pending.length ? Buffer.concat([pending, chunk]) : chunk
+    let lineStart = 0
+    let newline = buf.indexOf(0x0a, lineStart)
+    while (newline !== -1) {
       try {
-        const record = JSON.parse(line) as JsonlRecord
-        const usage = record?.providerData?.rawUsage
-        const timestamp = record?.timestamp
-
-        if (!usage || timestamp == null) continue
-
-        const dateObj = new Date(timestamp as any)
-        if (Number.isNaN(dateObj.getTime())) continue
-        const date = dateObj.toISOString().split('T')[0]
-        if (!date) continue
-
-        if (minDate && date < minDate) continue
-
-        const recordModelId = record?.providerData?.model
-        const modelFromRecord = typeof recordModelId === 'string' ? recordModelId : null
-        const usedModelId = modelFromRecord || defaultModelId
-
-        const { cost, stats: usageStats } = computeUsageCost(usage, usedModelId)
-
-        const dayStats = ensureDailyModelStats(dailyData, date, projectName, usedModelId)
-        dayStats.cost += cost
-        dayStats.promptTokens += usageStats.promptTokens
-        dayStats.completionTokens += usageStats.completionTokens
-        dayStats.totalTokens += usageStats.totalTokens
-        dayStats.cacheHitTokens += usageStats.cacheHitTokens
-        dayStats.cacheMissTokens += usageStats.cacheMissTokens
-        dayStats.cacheWriteTokens += usageStats.cacheWriteTokens
-        dayStats.requests += 1
-
-        modelTotals[usedModelId] ??= { cost: 0, tokens: 0, requests: 0 }
-        modelTotals[usedModelId]!.cost += cost
-        modelTotals[usedModelId]!.tokens += usageStats.totalTokens
-        modelTotals[usedModelId]!.requests += 1
-
-        projectTotals[projectName] ??= { cost: 0, tokens: 0, requests: 0 }
-        projectTotals[projectName]!.cost += cost
-        projectTotals[projectName]!.tokens += usageStats.totalTokens
-        projectTotals[projectName]!.requests += 1
-
-        grandTotal.cost += cost
-        grandTotal.tokens += usageStats.totalTokens
-        grandTotal.requests += 1
-        grandTotal.cacheHitTokens += usageStats.cacheHitTokens
-        grandTotal.cacheMissTokens += usageStats.cacheMissTokens
+        const entry = parseUsageLine(buf.toString('utf8', lineStart, newline))
+        if (typeof entry === 'string') skipped[entry]++
+        else if (entry) entries.push(entry)
       } catch {
-        // 忽略无法解析的行
+        skipped.badJson++
       }
+      offset += newline + 1 - lineStart
+      lineStart = newline + 1
+      newline = buf.indexOf(0x0a, lineStart)
+    }
+    pending = buf.subarray(lineStart)
+  }
+
+  if (pending.length) {
+    try {
+      const entry = parseUsageLine(pending.toString('utf8'))
+      if (typeof entry === 'string') skipped[entry]++
+      else if (entry) entries.push(entry)
+      offset += pending.length
+    } catch {
+      // 半行：保留 offset，等写入完成后再解析
     }
   }
 
-  return finalizeAnalysis(defaultModelId, dailyData, modelTotals, projectTotals, grandTotal)
+  return { entries, offset, skipped }
+}
+
+/** 续读前校验的字节数：offset 之前的这段内容不变才认为文件只是追加 */
+const OFFSET_CHECK_BYTES = 256
+
+async function hashBytesBefore(filePath: string, offset: number): Promise<string> {
+  const start = Math.max(0, offset - OFFSET_CHECK_BYTES)
+  const buf = Buffer.alloc(offset - start)
+  const fh = await fs.open(filePath, 'r')
+  try {
+    const { bytesRead } = await fh.read(buf, 0, buf.length, start)
+    return createHash('sha1').update(buf.subarray(0, bytesRead)).digest('hex')
+  } finally {
+    await fh.close()
+  }
+}
+
+/**
+ * 读取单个 JSONL 文件的用量，优先使用缓存
+ * - size / mtime 未变：直接返回缓存
+ * - 文件只增长且 offset 之前的内容未变：从上次解析的字节偏移继续
+ * - 其他情况：整文件重新解析
+ */
+async function readCodeUsageEntries(
+  filePath: string,
+  fileStat: fsSync.Stats,
+  cache: ParseCache
+): Promise<{ entries: CachedUsageEntry[]; skipped: SkipCounts }> {
+  cache.seen.add(filePath)
+  const cached = cache.files.get(filePath)
+  if (cached && cached.size === fileStat.size && cached.mtimeMs === fileStat.mtimeMs) {
+    return cached
+  }
+
+  const resume =
+    cached !== undefined &&
+    fileStat.size > cached.size &&
+    cached.offset <= fileStat.size &&
+    cached.offsetHash === (await hashBytesBefore(filePath, cached.offset))
+  const { entries, offset, skipped } = await parseJsonlUsage(filePath, resume ? cached.offset : 0, fileStat.size)
+  const allEntries = resume ? [...cached.entries, ...entries] : entries
+  if (resume) addSkipCounts(skipped, cached.skipped)
+
+  if (cache.mode !== 'off') {
+    const offsetHash = await hashBytesBefore(filePath, offset)
+    cache.files.set(filePath, { size: fileStat.size, mtimeMs: fileStat.mtimeMs, offset, offsetHash, entries: allEntries, skipped })
+    cache.dirty = true
+  }
+  return { entries: allEntries, skipped }
+}
+
+/**
+ * 把单个 JSONL 文件中尚未计入的用量追加到统计
+ * 返回新增条数；文件变短（被截断或改写）时返回 null，需要整体重算
+ */
+async function collectCodeFile(
+  ctx: CollectContext,
+  state: CodeCollectState,
+  root: string,
+  filePath: string
+): Promise<number | null> {
+  let fileStat: fsSync.Stats
+  try {
+    fileStat = await fs.stat(filePath)
+  } catch {
+    return 0
+  }
+  if (fileStat.size === 0) return 0
+
+  const projectName = getProjectName(filePath, root)
+  let entries: CachedUsageEntry[]
+  try {
+    const parsed = await readCodeUsageEntries(filePath, fileStat, state.cache)
+    entries = parsed.entries
+    ctx.acc.diagnostics.codeFiles.set(filePath, parsed.skipped)
+  } catch {
+    ctx.acc.diagnostics.unreadableFiles.add(filePath)
+    return 0
+  }
+  const alreadyApplied = state.applied.get(filePath) ?? 0
+  if (entries.length < alreadyApplied) return null
+
+  for (let i = alreadyApplied; i < entries.length; i++) {
+    const entry = entries[i]!
+    const zoned = getZonedParts(entry.t, ctx.timeZone)
+    const date = zoned.date
+    if (!isDateInRange(date, ctx.range)) continue
+
+    const usedModelId = entry.m || ctx.defaultModelId
+    const { cost, costs, cacheSavings, stats, pricedModelId, pricingFallback } = priceUsage(ctx, entry.s, usedModelId, entry.t)
+
+    addUsageRecord(ctx.acc, {
+      origin: 'code',
+      date,
+      timestamp: entry.t,
+      zoned,
+      project: projectName,
+      session: { id: filePath, path: filePath },
+      modelId: usedModelId,
+      modelInferred: !entry.m,
+      pricedModelId,
+      pricingFallback,
+      cost,
+      costs,
+      cacheSavings,
+      stats,
+    })
+  }
+
+  state.applied.set(filePath, entries.length)
+  return entries.length - alreadyApplied
 }
 
 interface IdeConversationMeta {
@@ -349,46 +1171,56 @@ interface IdeRequestUsage {
 interface IdeRequest {
   messages?: unknown
   usage?: IdeRequestUsage
+  createdAt?: unknown
+  timestamp?: unknown
+  startedAt?: unknown
+}
+
+/** 从消息文件中读到的信息 */
+interface IdeMessageInfo {
+  modelId: string | null
+  timestamp: number | null
 }
 
 interface IdeConversationIndex {
   requests?: unknown
 }
 
-async function findIdeHistoryDirs(): Promise<string[]> {
-  const root = getIdeDataDir()
+async function findIdeHistoryDirs(roots: string[]): Promise<string[]> {
   const out = new Set<string>()
 
-  let level1: fsSync.Dirent[] = []
-  try {
-    level1 = await fs.readdir(root, { withFileTypes: true })
-  } catch {
-    return []
-  }
-
-  for (const dirent of level1) {
-    if (!dirent.isDirectory()) continue
-    const codeBuddyIdeDir = path.join(root, dirent.name, 'CodeBuddyIDE')
-    if (!(await pathExists(codeBuddyIdeDir))) continue
-
-    const directHistory = path.join(codeBuddyIdeDir, 'history')
-    if (await pathExists(directHistory)) {
-      out.add(directHistory)
-      continue
-    }
-
-    let nested: fsSync.Dirent[] = []
+  for (const root of roots) {
+    let level1: fsSync.Dirent[] = []
     try {
-      nested = await fs.readdir(codeBuddyIdeDir, { withFileTypes: true })
+      level1 = await fs.readdir(root, { withFileTypes: true })
     } catch {
       continue
     }
 
-    for (const child of nested) {
-      if (!child.isDirectory()) continue
-      const nestedHistory = path.join(codeBuddyIdeDir, child.name, 'history')
-      if (await pathExists(nestedHistory)) {
-        out.add(nestedHistory)
+    for (const dirent of level1) {
+      if (!dirent.isDirectory()) continue
+      const codeBuddyIdeDir = path.join(root, dirent.name, 'CodeBuddyIDE')
+      if (!(await pathExists(codeBuddyIdeDir))) continue
+
+      const directHistory = path.join(codeBuddyIdeDir, 'history')
+      if (await pathExists(directHistory)) {
+        out.add(directHistory)
+        continue
+      }
+
+      let nested: fsSync.Dirent[] = []
+      try {
+        nested = await fs.readdir(codeBuddyIdeDir, { withFileTypes: true })
+      } catch {
+        continue
+      }
+
+      for (const child of nested) {
+        if (!child.isDirectory()) continue
+        const nestedHistory = path.join(codeBuddyIdeDir, child.name, 'history')
+        if (await pathExists(nestedHistory)) {
+          out.add(nestedHistory)
+        }
       }
     }
   }
@@ -401,181 +1233,219 @@ async function readJsonFile(filePath: string): Promise<unknown> {
   return JSON.parse(raw) as unknown
 }
 
-async function readFileHeadUtf8(filePath: string, bytes = 64 * 1024): Promise<string> {
-  const fh = await fs.open(filePath, 'r')
+/** 消息自身的时间字段，按优先级排列；只读取顶层，content 等嵌套结构中的同名字段不算 */
+const IDE_MESSAGE_TIME_FIELDS = ['createdAt', 'timestamp', 'created_at', 'sendTime', 'time'] as const
+
+function extractModelIdFromMessage(message: Record<string, unknown>): string | null {
+  // extra 是一个 JSON 字符串，形如: "extra": "{\"modelId\":\"gpt-5.1\",...}"
+  if (typeof message.extra !== 'string') return null
   try {
-    const buf = Buffer.alloc(bytes)
-    const { bytesRead } = await fh.read(buf, 0, buf.length, 0)
-    return buf.toString('utf8', 0, bytesRead)
-  } finally {
-    await fh.close()
+    const extra = JSON.parse(message.extra) as { modelId?: unknown; modelName?: unknown } | null
+    if (typeof extra?.modelId === 'string' && extra.modelId) return extra.modelId
+    if (typeof extra?.modelName === 'string' && extra.modelName) return extra.modelName
+    return null
+  } catch {
+    return null
   }
 }
 
-function extractModelIdFromMessageHead(head: string): string | null {
-  // extra 是一个转义的 JSON 字符串，形如: "extra": "{\"modelId\":\"gpt-5.1\",...}"
-  // 正则需要匹配包含转义字符的完整字符串
-  const extraMatch = head.match(/"extra"\s*:\s*"((?:[^"\\]|\\.)*)"/s)
-  if (!extraMatch?.[1]) return null
+function extractTimestampFromMessage(message: Record<string, unknown>): number | null {
+  for (const field of IDE_MESSAGE_TIME_FIELDS) {
+    const timestamp = toTimestamp(message[field])
+    if (timestamp !== null) return timestamp
+  }
+  return null
+}
 
+async function readIdeMessageInfo(
+  conversationDir: string,
+  messageId: string,
+  messageInfoCache: Map<string, IdeMessageInfo>
+): Promise<IdeMessageInfo> {
+  const cached = messageInfoCache.get(messageId)
+  if (cached) return cached
+
+  const info: IdeMessageInfo = { modelId: null, timestamp: null }
+  const msgPath = path.join(conversationDir, 'messages', `${messageId}.json`)
   try {
-    // extraMatch[1] 是转义后的内容，需要先解析为字符串
-    const extraStr = JSON.parse(`"${extraMatch[1]}"`) as string
-    const extra = JSON.parse(extraStr) as { modelId?: unknown; modelName?: unknown }
-    if (typeof extra.modelId === 'string' && extra.modelId) return extra.modelId
-    if (typeof extra.modelName === 'string' && extra.modelName) return extra.modelName
-    return null
+    const message = await readJsonFile(msgPath)
+    if (message && typeof message === 'object' && !Array.isArray(message)) {
+      info.modelId = extractModelIdFromMessage(message as Record<string, unknown>)
+      info.timestamp = extractTimestampFromMessage(message as Record<string, unknown>)
+    }
   } catch {
-    return null
+    // ignore
   }
+  messageInfoCache.set(messageId, info)
+  return info
 }
 
-async function inferIdeModelIdForRequest(
+/**
+ * 推断 IDE 请求的 model ID 与发起时间
+ * - 时间优先取请求自身的元数据，其次取前几条消息文件中的时间
+ * - 都没有时返回 null，由调用方回退到对话时间
+ */
+async function inferIdeRequestInfo(
   conversationDir: string,
   request: IdeRequest,
-  messageModelCache: Map<string, string>
-): Promise<string | null> {
+  messageInfoCache: Map<string, IdeMessageInfo>
+): Promise<IdeMessageInfo> {
+  const result: IdeMessageInfo = {
+    modelId: null,
+    timestamp: toTimestamp(request.createdAt) ?? toTimestamp(request.timestamp) ?? toTimestamp(request.startedAt),
+  }
   const messages = Array.isArray(request.messages) ? (request.messages as unknown[]) : []
 
   for (let i = 0; i < Math.min(messages.length, 3); i++) {
+    if (result.modelId && result.timestamp !== null) break
     const messageId = messages[i]
     if (typeof messageId !== 'string' || !messageId) continue
 
-    const cached = messageModelCache.get(messageId)
-    if (cached) return cached
-
-    const msgPath = path.join(conversationDir, 'messages', `${messageId}.json`)
-    try {
-      const head = await readFileHeadUtf8(msgPath)
-      const modelId = extractModelIdFromMessageHead(head)
-      if (modelId) {
-        messageModelCache.set(messageId, modelId)
-        return modelId
-      }
-    } catch {
-      // ignore
-    }
+    const info = await readIdeMessageInfo(conversationDir, messageId, messageInfoCache)
+    result.modelId ??= info.modelId
+    result.timestamp ??= info.timestamp
   }
 
-  return null
+  return result
 }
 
-async function loadIdeUsageData(options: LoadUsageOptions = {}): Promise<AnalysisData> {
-  const defaultModelId = await loadModelFromSettings()
-  const minDate = computeMinDate(options.days)
-
-  // 加载工作区映射
-  const workspaceMappings = await loadWorkspaceMappings()
-
-  const dailyData: DailyData = {}
-  const modelTotals: Record<string, SummaryStats> = {}
-  const projectTotals: Record<string, SummaryStats> = {}
-  const grandTotal: GrandTotal = {
-    cost: 0,
-    tokens: 0,
-    requests: 0,
-    cacheHitTokens: 0,
-    cacheMissTokens: 0,
+async function listIdeWorkspaceDirs(historyDir: string): Promise<string[]> {
+  try {
+    const workspaces = await fs.readdir(historyDir, { withFileTypes: true })
+    return workspaces.filter(ws => ws.isDirectory()).map(ws => path.join(historyDir, ws.name))
+  } catch {
+    return []
   }
+}
 
-  const historyDirs = await findIdeHistoryDirs()
-  const messageModelCache = new Map<string, string>()
+/** 请求中参与计价的字段；IDE 会先写入请求、稍后才补上 usage，指纹变化说明已计入的请求被改写 */
+function fingerprintIdeRequest(request: IdeRequest): string {
+  return JSON.stringify([request?.usage ?? null, request?.createdAt, request?.timestamp, request?.startedAt])
+}
 
-  for (const historyDir of historyDirs) {
-    let workspaces: fsSync.Dirent[] = []
+/**
+ * 把一个 IDE 工作区（history/<workspaceHash>）中尚未计入的请求追加到统计
+ * 返回新增请求数；对话请求数变少或已计入的请求被改写时返回 null，需要整体重算
+ */
+async function collectIdeWorkspace(
+  ctx: CollectContext,
+  state: IdeCollectState,
+  workspaceDir: string
+): Promise<number | null> {
+  const workspaceHash = path.basename(workspaceDir)
+  const workspaceIndexPath = path.join(workspaceDir, 'index.json')
+
+  let convList: IdeConversationMeta[] = []
+  try {
+    const parsed = (await readJsonFile(workspaceIndexPath)) as unknown
+    if (Array.isArray(parsed)) {
+      convList = parsed as IdeConversationMeta[]
+    } else if (parsed && typeof parsed === 'object') {
+      const maybe = (parsed as any).conversations ?? (parsed as any).items ?? (parsed as any).list
+      if (Array.isArray(maybe)) convList = maybe as IdeConversationMeta[]
+    }
+  } catch {
+    ctx.acc.diagnostics.missingIndexes.add(workspaceIndexPath)
+    return 0
+  }
+  ctx.acc.diagnostics.ideWorkspaces.add(workspaceDir)
+
+  let added = 0
+  for (const conv of convList) {
+    const conversationId = typeof conv.id === 'string' ? conv.id : null
+    if (!conversationId) continue
+
+    // 对话时间：请求自身没有时间信息时的兜底
+    const conversationDate =
+      parseZonedDate(conv.lastMessageAt, ctx.timeZone) ?? parseZonedDate(conv.createdAt, ctx.timeZone)
+    if (!conversationDate) continue
+    const createdAt = toTimestamp(conv.createdAt)
+    const conversationTimestamp = toTimestamp(conv.lastMessageAt) ?? createdAt ?? 0
+
+    // 对话时间跨度与日期范围没有交集时整体跳过
+    const startDate = parseZonedDate(conv.createdAt, ctx.timeZone) ?? conversationDate
+    if (ctx.range.since && conversationDate < ctx.range.since) continue
+    if (ctx.range.until && startDate > ctx.range.until) continue
+
+    const conversationDir = path.join(workspaceDir, conversationId)
+    const convIndexPath = path.join(conversationDir, 'index.json')
+    const session: SessionRef = { id: conversationDir, path: conversationDir, startedAt: createdAt }
+    const known = state.conversations.get(convIndexPath)
+
+    let convIndex: IdeConversationIndex | null = null
+    let mtimeMs = 0
     try {
-      workspaces = await fs.readdir(historyDir, { withFileTypes: true })
+      mtimeMs = (await fs.stat(convIndexPath)).mtimeMs
+      if (known && known.mtimeMs === mtimeMs) continue
+      convIndex = (await readJsonFile(convIndexPath)) as IdeConversationIndex
     } catch {
+      ctx.acc.diagnostics.missingIndexes.add(convIndexPath)
       continue
     }
-
-    for (const ws of workspaces) {
-      if (!ws.isDirectory()) continue
-      const workspaceHash = ws.name
-      const workspaceDir = path.join(historyDir, workspaceHash)
-      const workspaceIndexPath = path.join(workspaceDir, 'index.json')
-
-      let convList: IdeConversationMeta[] = []
-      try {
-        const parsed = (await readJsonFile(workspaceIndexPath)) as unknown
-        if (Array.isArray(parsed)) {
-          convList = parsed as IdeConversationMeta[]
-        } else if (parsed && typeof parsed === 'object') {
-          const maybe = (parsed as any).conversations ?? (parsed as any).items ?? (parsed as any).list
-          if (Array.isArray(maybe)) convList = maybe as IdeConversationMeta[]
-        }
-      } catch {
+    ctx.acc.diagnostics.ideConversations.add(conversationDir)
+
+    const requests = Array.isArray(convIndex?.requests) ? (convIndex!.requests as IdeRequest[]) : []
+    const alreadyApplied = known?.applied.length ?? 0
+    if (requests.length < alreadyApplied) return null
+    if (known?.applied.some((fingerprint, i) => fingerprint !== fingerprintIdeRequest(requests[i]!))) return null
+
+    for (const req of requests.slice(alreadyApplied)) {
+      const usage = req?.usage
+      // 没有 usage 的请求仍按 0 token 计入请求数，只在诊断中提示
+      if (!usage) ctx.acc.diagnostics.ideRequestsWithoutUsage++
+      const inputTokens = typeof usage?.inputTokens === 'number' ? usage.inputTokens : Number(usage?.inputTokens ?? 0)
+      const outputTokens = typeof usage?.outputTokens === 'number' ? usage.outputTokens : Number(usage?.outputTokens ?? 0)
+      const totalTokens =
+        typeof usage?.totalTokens === 'number'
+          ? usage.totalTokens
+          : Number.isFinite(Number(usage?.totalTokens))
+            ? Number(usage?.totalTokens)
+            : inputTokens + outputTokens
+
+      if (!Number.isFinite(inputTokens) || !Number.isFinite(outputTokens) || !Number.isFinite(totalTokens)) {
+        ctx.acc.diagnostics.ideRequestsWithoutUsage++
         continue
       }
 
-      for (const conv of convList) {
-        const conversationId = typeof conv.id === 'string' ? conv.id : null
-        if (!conversationId) continue
+      const requestInfo = await inferIdeRequestInfo(conversationDir, req, state.messageInfoCache)
+      const usedModelId = requestInfo.modelId || ctx.defaultModelId
 
-        const date = toISODateString(conv.lastMessageAt) ?? toISODateString(conv.createdAt)
-        if (!date) continue
-        if (minDate && date < minDate) continue
+      const datedByConversation = requestInfo.timestamp === null
+      const timestamp = requestInfo.timestamp ?? conversationTimestamp
+      const zoned = getZonedParts(timestamp, ctx.timeZone)
+      const date = datedByConversation ? conversationDate : zoned.date
+      if (!isDateInRange(date, ctx.range)) continue
+      if (datedByConversation) ctx.acc.diagnostics.ideTimestampFallbacks++
 
-        const conversationDir = path.join(workspaceDir, conversationId)
-        const convIndexPath = path.join(conversationDir, 'index.json')
-
-        let convIndex: IdeConversationIndex | null = null
-        try {
-          convIndex = (await readJsonFile(convIndexPath)) as IdeConversationIndex
-        } catch {
-          continue
-        }
-
-        const requests = Array.isArray(convIndex?.requests) ? (convIndex!.requests as IdeRequest[]) : []
-        for (const req of requests) {
-          const usage = req?.usage
-          const inputTokens = typeof usage?.inputTokens === 'number' ? usage.inputTokens : Number(usage?.inputTokens ?? 0)
-          const outputTokens = typeof usage?.outputTokens === 'number' ? usage.outputTokens : Number(usage?.outputTokens ?? 0)
-          const totalTokens =
-            typeof usage?.totalTokens === 'number'
-              ? usage.totalTokens
-              : Number.isFinite(Number(usage?.totalTokens))
-                ? Number(usage?.totalTokens)
-                : inputTokens + outputTokens
-
-          if (!Number.isFinite(inputTokens) || !Number.isFinite(outputTokens) || !Number.isFinite(totalTokens)) continue
-
-          const inferredModelId = await inferIdeModelIdForRequest(conversationDir, req, messageModelCache)
-          const usedModelId = inferredModelId || defaultModelId
-
-          const rawUsage: RawUsage = {
-            prompt_tokens: Math.max(0, inputTokens),
-            completion_tokens: Math.max(0, outputTokens),
-            total_tokens: Math.max(0, totalTokens),
-          }
-
-          const { cost, stats } = computeUsageCost(rawUsage, usedModelId)
-
-          const projectName = workspaceHash
-          const dayStats = ensureDailyModelStats(dailyData, date, projectName, usedModelId)
-          dayStats.cost += cost
-          dayStats.promptTokens += stats.promptTokens
-          dayStats.completionTokens += stats.completionTokens
-          dayStats.totalTokens += stats.totalTokens
-          dayStats.requests += 1
-
-          modelTotals[usedModelId] ??= { cost: 0, tokens: 0, requests: 0 }
-          modelTotals[usedModelId]!.cost += cost
-          modelTotals[usedModelId]!.tokens += stats.totalTokens
-          modelTotals[usedModelId]!.requests += 1
-
-          projectTotals[projectName] ??= { cost: 0, tokens: 0, requests: 0 }
-          projectTotals[projectName]!.cost += cost
-          projectTotals[projectName]!.tokens += stats.totalTokens
-          projectTotals[projectName]!.requests += 1
-
-          grandTotal.cost += cost
-          grandTotal.tokens += stats.totalTokens
-          grandTotal.requests += 1
-        }
+      const rawUsage: RawUsage = {
+        prompt_tokens: Math.max(0, inputTokens),
+        completion_tokens: Math.max(0, outputTokens),
+        total_tokens: Math.max(0, totalTokens),
       }
+
+      const { cost, costs, cacheSavings, stats, pricedModelId, pricingFallback } = priceUsage(ctx, extractUsageStats(rawUsage), usedModelId, timestamp)
+
+      addUsageRecord(ctx.acc, {
+        origin: 'ide',
+        date,
+        timestamp,
+        zoned,
+        project: workspaceHash,
+        session,
+        modelId: usedModelId,
+        modelInferred: !requestInfo.modelId,
+        pricedModelId,
+        pricingFallback,
+        cost,
+        costs,
+        cacheSavings,
+        stats,
+      })
     }
+
+    added += requests.length - alreadyApplied
+    state.conversations.set(convIndexPath, { mtimeMs, applied: requests.map(fingerprintIdeRequest) })
   }
 
-  return finalizeAnalysis(defaultModelId, dailyData, modelTotals, projectTotals, grandTotal, workspaceMappings)
+  return added
 }
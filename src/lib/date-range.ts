@@ -0,0 +1,186 @@
+import { addDays, getWeekday, todayInZone } from './timezone.js'
+
+/** 日历预设：本周（ISO 周，周一开始）、本月、上月、今年至今 */
+export type DateRangePreset = 'this-week' | 'this-month' | 'last-month' | 'ytd'
+
+export const DATE_RANGE_PRESETS: readonly DateRangePreset[] = ['this-week', 'this-month', 'last-month', 'ytd']
+
+const PRESET_LABELS: Record<DateRangePreset, string> = {
+  'this-week': 'This week',
+  'this-month': 'This month',
+  'last-month': 'Last month',
+  ytd: 'Year to date',
+}
+
+export interface DateRangeOptions {
+  /** 最近 n 天（含今天） */
+  days?: number | null
+  /** 起始日期（含），YYYY-MM-DD */
+  since?: string | null
+  /** 结束日期（含），YYYY-MM-DD */
+  until?: string | null
+  preset?: DateRangePreset | null
+}
+
+/** 已解析的日期范围，since / until 为 null 表示不限 */
+export interface DateRange {
+  since: string | null
+  until: string | null
+  /** 用于状态栏与报告标题的描述，如 "Last 7 days"、"2026-01-01 → 2026-03-31" */
+  label: string
+}
+
+/**
+ * 校验 YYYY-MM-DD 格式的日期参数
+ */
+export function parseDateArg(value: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (match) {
+    const [, y, m, d] = match
+    const dt = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)))
+    if (dt.toISOString().slice(0, 10) === value) return value
+  }
+  throw new Error(`Invalid date: ${value} (expected YYYY-MM-DD)`)
+}
+
+function formatBounds(since: string | null, until: string | null): string {
+  if (since && until) return since === until ? since : `${since} → ${until}`
+  if (since) return `Since ${since}`
+  if (until) return `Until ${until}`
+  return 'All time'
+}
+
+/**
+ * 把 --days / --since / --until / 预设解析为具体的日期范围（按 timeZone 的日历）
+ */
+export function resolveDateRange(options: DateRangeOptions, timeZone: string): DateRange {
+  const hasBounds = Boolean(options.since || options.until)
+  const kinds = [Boolean(options.days), hasBounds, Boolean(options.preset)].filter(Boolean).length
+  if (kinds > 1) {
+    throw new Error('--days, --since/--until and range presets cannot be combined')
+  }
+
+  const today = todayInZone(timeZone)
+
+  if (options.preset) {
+    let since: string
+    let until = today
+    switch (options.preset) {
+      case 'this-week': {
+        const weekday = getWeekday(today)
+        since = addDays(today, weekday === 0 ? -6 : 1 - weekday)
+        break
+      }
+      case 'this-month':
+        since = `${today.slice(0, 8)}01`
+        break
+      case 'last-month': {
+        until = addDays(`${today.slice(0, 8)}01`, -1)
+        since = `${until.slice(0, 8)}01`
+        break
+      }
+      case 'ytd':
+        since = `${today.slice(0, 4)}-01-01`
+        break
+    }
+    return { since, until, label: `${PRESET_LABELS[options.preset]} (${formatBounds(since, until)})` }
+  }
+
+  if (hasBounds) {
+    const since = options.since ? parseDateArg(options.since) : null
+    const until = options.until ? parseDateArg(options.until) : null
+    if (since && until && since > until) {
+      throw new Error(`--since ${since} is after --until ${until}`)
+    }
+    return { since, until, label: formatBounds(since, until) }
+  }
+
+  if (options.days) {
+    return { since: addDays(today, -options.days + 1), until: null, label: `Last ${options.days} days` }
+  }
+
+  return { since: null, until: null, label: 'All time' }
+}
+
+/**
+ * 日期是否落在范围内（两端均包含）
+ */
+export function isDateInRange(date: string, range: DateRange): boolean {
+  if (range.since && date < range.since) return false
+  if (range.until && date > range.until) return false
+  return true
+}
+
+/** --compare previous：与当前范围紧邻的上一个周期 */
+export const COMPARE_PREVIOUS = 'previous'
+
+/** 范围包含的天数（含两端） */
+function countDays(since: string, until: string): number {
+  return Math.round((Date.parse(until) - Date.parse(since)) / 86_400_000) + 1
+}
+
+/** 按月平移日期；目标月份没有这一天时取月末（如 03-31 往前一个月为 02-28） */
+export function shiftMonths(date: string, months: number): string {
+  const index = Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1 + months
+  const first = `${String(Math.floor(index / 12)).padStart(4, '0')}-${String((index % 12) + 1).padStart(2, '0')}-01`
+  const lastDay = addDays(`${addDays(first, 32).slice(0, 8)}01`, -1)
+  return `${first.slice(0, 8)}${date.slice(8) < lastDay.slice(8) ? date.slice(8) : lastDay.slice(8)}`
+}
+
+/**
+ * 解析 --compare 的对比范围
+ * - previous：日历预设取上一个同类周期的同一段（本周 → 上周同几天、本月 → 上月同几天、上月 → 上上月、今年至今 → 去年同期），
+ *   其余取紧挨在当前范围之前、天数相同的一段；当前范围没有起点（All time）时无法推算
+ * - 日历预设名：如 last-month
+ * - <since>..<until>：两端都包含
+ */
+export function resolveComparisonRange(spec: string, options: DateRangeOptions, timeZone: string): DateRange {
+  const value = spec.trim()
+
+  if (value === COMPARE_PREVIOUS) {
+    const current = resolveDateRange(options, timeZone)
+    if (!current.since) {
+      throw new Error('--compare previous needs a bounded date range (--days, --since or a range preset)')
+    }
+    const currentUntil = current.until ?? todayInZone(timeZone)
+    let since: string
+    let until: string
+    switch (options.preset) {
+      case 'this-week':
+        since = addDays(current.since, -7)
+        until = addDays(currentUntil, -7)
+        break
+      case 'this-month':
+        since = shiftMonths(current.since, -1)
+        until = shiftMonths(currentUntil, -1)
+        break
+      case 'last-month':
+        since = shiftMonths(current.since, -1)
+        until = addDays(current.since, -1)
+        break
+      case 'ytd':
+        since = shiftMonths(current.since, -12)
+        until = shiftMonths(currentUntil, -12)
+        break
+      default:
+        until = addDays(current.since, -1)
+        since = addDays(until, 1 - countDays(current.since, currentUntil))
+    }
+    return { since, until, label: `Previous period (${formatBounds(since, until)})` }
+  }
+
+  if ((DATE_RANGE_PRESETS as string[]).includes(value)) {
+    return resolveDateRange({ preset: value as DateRangePreset }, timeZone)
+  }
+
+  const bounds = value.split('..')
+  if (bounds.length !== 2 || !bounds[0] || !bounds[1]) {
+    throw new Error(
+      `Invalid --compare: ${spec} (expected ${COMPARE_PREVIOUS}, a preset such as last-month, or <since>..<until>)`
+    )
+  }
+  const since = parseDateArg(bounds[0].trim())
+  const until = parseDateArg(bounds[1].trim())
+  if (since > until) throw new Error(`Invalid --compare: ${since} is after ${until}`)
+  return { since, until, label: formatBounds(since, until) }
+}
@@ -0,0 +1,65 @@
+/**
+ * 加载过程中的诊断信息（cbs doctor / TUI 诊断面板使用）
+ */
+
+/** JSONL 行被跳过的原因 */
+export type SkipReason = 'badJson' | 'noUsage' | 'badTimestamp'
+
+export const SKIP_REASONS: SkipReason[] = ['badJson', 'noUsage', 'badTimestamp']
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  badJson: 'Bad JSON',
+  noUsage: 'No rawUsage',
+  badTimestamp: 'Bad timestamp',
+}
+
+export type SkipCounts = Record<SkipReason, number>
+
+export function createSkipCounts(): SkipCounts {
+  return { badJson: 0, noUsage: 0, badTimestamp: 0 }
+}
+
+export function addSkipCounts(target: SkipCounts, source: SkipCounts): void {
+  for (const reason of SKIP_REASONS) target[reason] += source[reason]
+}
+
+/** 单个数据目录的扫描结果 */
+export interface RootDiagnostics {
+  dir: string
+  exists: boolean
+  /** Code: JSONL 文件数；IDE: 对话数；workspaceStorage: 工作区目录数 */
+  entries: number
+}
+
+export interface FallbackPricingStats {
+  requests: number
+  cost: number
+}
+
+export interface LoadDiagnostics {
+  codeRoots: RootDiagnostics[]
+  ideRoots: RootDiagnostics[]
+  workspaceStorageRoots: RootDiagnostics[]
+  codeFilesScanned: number
+  skippedLines: SkipCounts
+  /** 含无法解析或时间戳异常行的文件（不含只有非用量行的文件） */
+  filesWithErrors: Array<{ path: string } & SkipCounts>
+  /** 无法读取的文件 */
+  unreadableFiles: string[]
+  /** 没有请求级 model ID、按默认模型计价的记录 */
+  missingModelId: FallbackPricingStats & { pricedAs: string }
+  /** 价格表中没有的 model ID，按 DEFAULT_MODEL_ID 的价格计价 */
+  unknownModels: Record<string, FallbackPricingStats>
+  /** 经大小写折叠、前缀 / 版本规则或别名匹配到价格表的 model ID -> 价格表 model ID */
+  normalizedModels: Record<string, string>
+  /** 无法还原为可读路径的项目名 */
+  unresolvedProjects: string[]
+  ideWorkspaces: number
+  ideConversations: number
+  /** 缺失或无法解析的 IDE index.json（工作区级或对话级） */
+  missingIndexes: string[]
+  /** usage 字段缺失或不是数字的 IDE 请求数 */
+  ideRequestsWithoutUsage: number
+  /** 没有请求级时间、按对话时间计入的 IDE 请求数 */
+  ideTimestampFallbacks: number
+}
@@ -0,0 +1,156 @@
+/**
+ * 花费预测：根据最近的日花费推算本周、本月的总花费
+ */
+
+import type { AnalysisData } from './data-loader.js'
+import { addDays, getWeekday, todayInZone } from './timezone.js'
+
+/** 用于计算平均值与波动的历史天数（不含今天） */
+export const FORECAST_LOOKBACK_DAYS = 28
+
+/** run-rate 使用的最近天数 */
+export const RUN_RATE_DAYS = 7
+
+/** 置信区间覆盖的概率（正态近似，z ≈ 1.28） */
+export const FORECAST_CONFIDENCE = 0.8
+
+const CONFIDENCE_Z = 1.2816
+
+export type ForecastPeriod = 'week' | 'month'
+
+export interface PeriodForecast {
+  period: ForecastPeriod
+  /** 整个周期（含两端）：本周周一至周日、本月 1 日至月末 */
+  since: string
+  until: string
+  /** 截至今天（含今天已发生部分）的花费 */
+  actual: number
+  /** 今天之后剩余的天数 */
+  remainingDays: number
+  /** 按最近 RUN_RATE_DAYS 天的日均推算的周期总花费 */
+  runRate: number
+  /** 按星期几分别取历史日均推算的周期总花费（主预测值） */
+  projected: number
+  /** 置信区间，下限不低于 actual */
+  low: number
+  high: number
+  /** 加载的日期范围从周期中途开始，actual 缺少之前的花费，预测可能偏低 */
+  partial: boolean
+}
+
+export interface SpendForecast {
+  today: string
+  /** 实际参与计算的历史天数（完整的天，不含今天） */
+  historyDays: number
+  /** 最近 RUN_RATE_DAYS 天（不足时取全部历史）的日均花费 */
+  dailyRunRate: number
+  /** 按星期几的历史日均（0=Mon ... 6=Sun） */
+  weekdayAverages: number[]
+  confidence: number
+  week: PeriodForecast
+  month: PeriodForecast
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function sampleStdDev(values: number[]): number {
+  if (values.length < 2) return 0
+  const avg = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1))
+}
+
+/** 周一开始的星期序号（0=Mon ... 6=Sun） */
+function weekdayIndex(date: string): number {
+  return (getWeekday(date) + 6) % 7
+}
+
+function getPeriodBounds(period: ForecastPeriod, today: string): { since: string; until: string } {
+  if (period === 'week') {
+    const since = addDays(today, -weekdayIndex(today))
+    return { since, until: addDays(since, 6) }
+  }
+  const since = `${today.slice(0, 8)}01`
+  const nextMonth = addDays(since, 32)
+  return { since, until: addDays(`${nextMonth.slice(0, 8)}01`, -1) }
+}
+
+/**
+ * 预测本周与本月的总花费
+ * - 历史：今天之前最多 FORECAST_LOOKBACK_DAYS 个完整的天（不早于第一条数据与加载范围的起点），没有用量的天按 0 计
+ * - 今天剩余部分按今天的预期日花费补足（已超出预期时不再增加）
+ * - 置信区间假设各天花费相互独立：剩余天数 n 的总花费标准差为 日花费标准差 × √n
+ * 加载的日期范围不包含今天，或今天之前没有任何数据时返回 null
+ */
+export function buildForecast(data: AnalysisData, lookbackDays = FORECAST_LOOKBACK_DAYS): SpendForecast | null {
+  const { dailySummary, dateRange } = data
+  const today = todayInZone(data.timeZone)
+  if (dateRange.until && dateRange.until < today) return null
+
+  const dates = Object.keys(dailySummary).filter(date => date < today).sort()
+  if (!dates.length) return null
+
+  let historyStart = addDays(today, -lookbackDays)
+  if (dates[0]! > historyStart) historyStart = dates[0]!
+  if (dateRange.since && dateRange.since > historyStart) historyStart = dateRange.since
+
+  const history: Array<{ date: string; cost: number }> = []
+  for (let date = historyStart; date < today; date = addDays(date, 1)) {
+    history.push({ date, cost: dailySummary[date]?.cost ?? 0 })
+  }
+  if (!history.length) return null
+
+  const costs = history.map(day => day.cost)
+  const overallMean = mean(costs)
+  const dailyRunRate = mean(costs.slice(-RUN_RATE_DAYS))
+  const stdDev = sampleStdDev(costs)
+  const weekdayAverages = Array.from({ length: 7 }, (_, weekday) => {
+    const samples = history.filter(day => weekdayIndex(day.date) === weekday).map(day => day.cost)
+    return samples.length ? mean(samples) : overallMean
+  })
+
+  const forecastPeriod = (period: ForecastPeriod): PeriodForecast => {
+    const { since, until } = getPeriodBounds(period, today)
+    let actual = 0
+    for (let date = since; date <= today; date = addDays(date, 1)) {
+      actual += dailySummary[date]?.cost ?? 0
+    }
+
+    const todayActual = dailySummary[today]?.cost ?? 0
+    let remainingDays = 0
+    let projectedRest = Math.max(0, weekdayAverages[weekdayIndex(today)]! - todayActual)
+    let runRateRest = Math.max(0, dailyRunRate - todayActual)
+    for (let date = addDays(today, 1); date <= until; date = addDays(date, 1)) {
+      remainingDays++
+      projectedRest += weekdayAverages[weekdayIndex(date)]!
+      runRateRest += dailyRunRate
+    }
+
+    const projected = actual + projectedRest
+    // 今天剩余部分按半天计入波动
+    const margin = CONFIDENCE_Z * stdDev * Math.sqrt(remainingDays + 0.5)
+    return {
+      period,
+      since,
+      until,
+      actual,
+      remainingDays,
+      runRate: actual + runRateRest,
+      projected,
+      low: Math.max(actual, projected - margin),
+      high: projected + margin,
+      partial: Boolean(dateRange.since && dateRange.since > since),
+    }
+  }
+
+  return {
+    today,
+    historyDays: history.length,
+    dailyRunRate,
+    weekdayAverages,
+    confidence: FORECAST_CONFIDENCE,
+    week: forecastPeriod('week'),
+    month: forecastPeriod('month'),
+  }
+}
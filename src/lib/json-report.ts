@@ -0,0 +1,322 @@
+/**
+ * --json 输出：供脚本、看板与机器人使用的稳定数据格式
+ *
+ * 约定：
+ * - 金额为 currency.code（--currency 所选币种）；内部按 USD 计算，按 currency.rate 换算
+ *   token / 请求数为整数，比例为 0-1 的小数
+ * - 日期为数据所用时区（timeZone）下的 YYYY-MM-DD
+ * - 只增加字段不改变含义时 schemaVersion 不变；删除或修改已有字段时递增
+ *   （2：currency.display 改为 currency.code，金额改为显示币种）
+ * - 不输出逐请求的 usageRecords（数据量与请求数成正比，按日明细见 --json-daily）
+ *   和价格表本身（见 cbs pricing）
+ */
+
+import { BASE_CURRENCY, type DisplayCurrency } from './currency.js'
+import type {
+  AnalysisData,
+  CacheSavings,
+  CostBreakdown,
+  DailyData,
+  ModelTotalStats,
+  SourceBreakdown,
+  HourlyActivity,
+  SessionStats,
+  SourcedSummaryStats,
+  SummaryStats,
+  UsageSource,
+} from './data-loader.js'
+import type { LoadDiagnostics } from './diagnostics.js'
+import type { DateRange } from './date-range.js'
+import type { BudgetLevel, BudgetStatus } from './budget.js'
+import type { PeriodForecast, SpendForecast } from './forecast.js'
+import type { AnomalyDriver, AnomalyPoint, AnomalyReport } from './anomaly.js'
+import type { ComparisonRow, PeriodComparison, PeriodStats } from './compare.js'
+import type { Granularity, PeriodRollup } from './rollup.js'
+import type { SimulatedStats, SimulationResult } from './simulator.js'
+import { resolveProjectName, type WorkspaceMapping } from './workspace-resolver.js'
+
+export const JSON_SCHEMA_VERSION = 2
+
+export interface JsonTotals extends SourcedSummaryStats {
+  activeDays: number
+  cacheHitTokens: number
+  cacheMissTokens: number
+  cacheHitRate: number
+}
+
+export interface JsonModelTotals extends ModelTotalStats {
+  /** 日志中的原始 model ID（与 modelTotals 的 key 相同） */
+  id: string
+}
+
+export interface JsonProjectTotals extends SourcedSummaryStats {
+  /** 原始项目标识（与 projectTotals 的 key 相同） */
+  id: string
+  /** 还原后的可读路径（IDE 工作区 hash 按 workspaceMappings 还原） */
+  name: string
+}
+
+export interface JsonSession extends SessionStats {
+  /** 还原后的可读项目路径 */
+  projectName: string
+}
+
+export interface JsonComparison extends Omit<PeriodComparison, 'byProject'> {
+  byProject: Record<string, ComparisonRow & { name: string }>
+}
+
+export interface JsonReport {
+  schemaVersion: typeof JSON_SCHEMA_VERSION
+  generatedAt: string
+  tool: { name: string; version: string }
+  source: UsageSource
+  timeZone: string
+  dateRange: DateRange
+  currency: {
+    /** 所有金额的币种（--currency，默认 USD） */
+    code: string
+    /** 内部计价币种，固定为 USD */
+    base: string
+    /** 1 base = rate code */
+    rate: number
+  }
+  totals: JsonTotals
+  topModel: { id: string; cost: number } | null
+  topProject: { id: string; name: string; cost: number } | null
+  /** 日期 -> 当天汇总 */
+  dailySummary: Record<string, SourcedSummaryStats>
+  /** model ID -> 汇总 */
+  modelTotals: Record<string, JsonModelTotals>
+  /** 项目标识 -> 汇总 */
+  projectTotals: Record<string, JsonProjectTotals>
+  /** 会话 ID -> 汇总（Code 为 JSONL 文件，IDE 为对话） */
+  sessions: Record<string, JsonSession>
+  /** [weekday][hour]，weekday 0=Mon ... 6=Sun，按 timeZone 计算 */
+  hourlyActivity: HourlyActivity
+  /** 工作区 hash -> 路径（仅 IDE / All 数据源，其余为空对象） */
+  workspaceMappings: Record<string, WorkspaceMapping>
+  /** 扫描的目录、跳过的行、按默认价格计价的 model 等（同 cbs doctor） */
+  diagnostics: LoadDiagnostics
+  budgets: BudgetStatus[]
+  /** 加载范围不包含今天时为 null */
+  forecast: SpendForecast | null
+  anomalies: AnomalyReport
+  /** 仅指定 --compare 时输出 */
+  comparison: JsonComparison | null
+  /** 仅指定 --granularity 时输出 */
+  rollups: { granularity: Granularity; periods: PeriodRollup[] } | null
+  /** 仅指定 --simulate-model 时输出 */
+  simulation: SimulationResult | null
+  /** 日期 -> 项目 -> model -> 用量，仅指定 --json-daily 时输出 */
+  dailyData?: DailyData
+}
+
+/** 两种 JSON 输出共有的字段 */
+export type JsonReportHeader = Pick<
+  JsonReport,
+  'schemaVersion' | 'generatedAt' | 'tool' | 'source' | 'timeZone' | 'dateRange' | 'currency'
+>
+
+/** --check-budget --json 的输出 */
+export interface JsonBudgetReport extends JsonReportHeader {
+  budgets: BudgetStatus[]
+  /** 各状态的预算数；exceeded 大于 0 时退出码为 3 */
+  summary: Record<BudgetLevel, number>
+}
+
+export interface JsonReportExtras {
+  tool: { name: string; version: string }
+  currency: DisplayCurrency
+  budgets: BudgetStatus[]
+  forecast: SpendForecast | null
+  anomalies: AnomalyReport
+  comparison: PeriodComparison | null
+  rollups: { granularity: Granularity; periods: PeriodRollup[] } | null
+  simulation: SimulationResult | null
+  includeDailyData: boolean
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  const out: Record<string, U> = {}
+  for (const [key, value] of Object.entries(record)) out[key] = fn(value)
+  return out
+}
+
+/**
+ * 把各结构中的金额（USD）换算为显示币种；比例、token 与请求数不变
+ */
+function createConverter(rate: number) {
+  const amount = (usd: number): number => usd * rate
+  const summary = <T extends { cost: number }>(stats: T): T => ({ ...stats, cost: amount(stats.cost) })
+  const costed = <T extends { cost: number; costs: CostBreakdown; cacheSavings: CacheSavings; sources: SourceBreakdown }>(
+    stats: T
+  ): T => ({
+    ...stats,
+    cost: amount(stats.cost),
+    costs: mapValues(stats.costs, amount) as CostBreakdown,
+    cacheSavings: {
+      noCacheCost: amount(stats.cacheSavings.noCacheCost),
+      readSavings: amount(stats.cacheSavings.readSavings),
+      writePremium: amount(stats.cacheSavings.writePremium),
+    },
+    sources: mapValues(stats.sources as Record<string, SummaryStats>, summary),
+  })
+  const session = (value: SessionStats): SessionStats => ({
+    ...summary(value),
+    models: mapValues(value.models, summary),
+  })
+  const diagnostics = (value: LoadDiagnostics): LoadDiagnostics => ({
+    ...value,
+    missingModelId: summary(value.missingModelId),
+    unknownModels: mapValues(value.unknownModels, summary),
+  })
+  const top = <T extends { cost: number }>(value: T | null): T | null => value && { ...value, cost: amount(value.cost) }
+
+  const budget = (status: BudgetStatus): BudgetStatus => ({
+    ...status,
+    budget: { ...status.budget, amount: amount(status.budget.amount) },
+    spent: amount(status.spent),
+  })
+  const periodForecast = (forecast: PeriodForecast): PeriodForecast => ({
+    ...forecast,
+    actual: amount(forecast.actual),
+    runRate: amount(forecast.runRate),
+    projected: amount(forecast.projected),
+    low: amount(forecast.low),
+    high: amount(forecast.high),
+  })
+  const forecast = (value: SpendForecast): SpendForecast => ({
+    ...value,
+    dailyRunRate: amount(value.dailyRunRate),
+    weekdayAverages: value.weekdayAverages.map(amount),
+    week: periodForecast(value.week),
+    month: periodForecast(value.month),
+  })
+  const point = <T extends AnomalyPoint>(value: T): T => ({ ...value, cost: amount(value.cost), baseline: amount(value.baseline) })
+  const driver = (value: AnomalyDriver): AnomalyDriver => ({
+    ...value,
+    cost: amount(value.cost),
+    baseline: amount(value.baseline),
+    excess: amount(value.excess),
+  })
+  const anomalies = (report: AnomalyReport): AnomalyReport => ({
+    ...report,
+    days: report.days.map(day => ({ ...point(day), projects: day.projects.map(driver), models: day.models.map(driver) })),
+    series: report.series.map(point),
+  })
+  const periodStats = (stats: PeriodStats): PeriodStats => ({ ...stats, cost: amount(stats.cost) })
+  const comparisonRow = (row: ComparisonRow): ComparisonRow => ({
+    current: periodStats(row.current),
+    previous: periodStats(row.previous),
+    change: { ...row.change, cost: { ...row.change.cost, delta: amount(row.change.cost.delta) } },
+  })
+  const rollup = (value: PeriodRollup): PeriodRollup => ({
+    ...costed(value),
+    topModel: top(value.topModel),
+    topProject: top(value.topProject),
+  })
+  const simulated = <T extends SimulatedStats>(stats: T): T => ({
+    ...stats,
+    actual: amount(stats.actual),
+    simulated: amount(stats.simulated),
+  })
+  const simulation = (result: SimulationResult): SimulationResult => ({
+    ...result,
+    total: simulated(result.total),
+    byModel: mapValues(result.byModel, simulated),
+    byProject: mapValues(result.byProject, simulated),
+  })
+
+  return { amount, summary, costed, session, diagnostics, top, budget, forecast, anomalies, comparisonRow, rollup, simulation }
+}
+
+function buildReportHeader(data: AnalysisData, extras: Pick<JsonReportExtras, 'tool' | 'currency'>): JsonReportHeader {
+  return {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    tool: extras.tool,
+    source: data.source,
+    timeZone: data.timeZone,
+    dateRange: data.dateRange,
+    currency: { code: extras.currency.code, base: BASE_CURRENCY, rate: extras.currency.rate },
+  }
+}
+
+/**
+ * 把分析结果转换为 JsonReport（Map 转为普通对象，项目名按工作区映射还原，金额换算为显示币种）
+ */
+export function buildJsonReport(data: AnalysisData, extras: JsonReportExtras): JsonReport {
+  const { grandTotal, workspaceMappings } = data
+  const projectName = (project: string): string => resolveProjectName(project, workspaceMappings)
+  const convert = createConverter(extras.currency.rate)
+
+  const modelTotals: Record<string, JsonModelTotals> = {}
+  for (const [modelId, stats] of Object.entries(data.modelTotals)) {
+    modelTotals[modelId] = { id: modelId, ...convert.costed(stats) }
+  }
+
+  const projectTotals: Record<string, JsonProjectTotals> = {}
+  for (const [project, stats] of Object.entries(data.projectTotals)) {
+    projectTotals[project] = { id: project, name: projectName(project), ...convert.costed(stats) }
+  }
+
+  const sessions: Record<string, JsonSession> = {}
+  for (const [id, stats] of Object.entries(data.sessions)) {
+    sessions[id] = { ...convert.session(stats), projectName: projectName(stats.project) }
+  }
+
+  let comparison: JsonComparison | null = null
+  if (extras.comparison) {
+    const byProject: JsonComparison['byProject'] = {}
+    for (const [project, row] of Object.entries(extras.comparison.byProject)) {
+      byProject[project] = { name: projectName(project), ...convert.comparisonRow(row) }
+    }
+    comparison = {
+      ...extras.comparison,
+      total: convert.comparisonRow(extras.comparison.total),
+      byModel: mapValues(extras.comparison.byModel, convert.comparisonRow),
+      byProject,
+    }
+  }
+
+  const report: JsonReport = {
+    ...buildReportHeader(data, extras),
+    totals: { ...convert.costed(grandTotal), activeDays: data.activeDays, cacheHitRate: data.cacheHitRate },
+    topModel: data.topModel && { id: data.topModel.id, cost: convert.amount(data.topModel.cost) },
+    topProject: data.topProject && {
+      id: data.topProject.name,
+      name: projectName(data.topProject.name),
+      cost: convert.amount(data.topProject.cost),
+    },
+    dailySummary: mapValues(data.dailySummary, convert.costed),
+    modelTotals,
+    projectTotals,
+    sessions,
+    hourlyActivity: data.hourlyActivity.map(hours => hours.map(convert.summary)),
+    workspaceMappings: Object.fromEntries(workspaceMappings ?? []),
+    diagnostics: convert.diagnostics(data.diagnostics),
+    budgets: extras.budgets.map(convert.budget),
+    forecast: extras.forecast && convert.forecast(extras.forecast),
+    anomalies: convert.anomalies(extras.anomalies),
+    comparison,
+    rollups: extras.rollups && { ...extras.rollups, periods: extras.rollups.periods.map(convert.rollup) },
+    simulation: extras.simulation && convert.simulation(extras.simulation),
+  }
+  if (extras.includeDailyData) {
+    report.dailyData = mapValues(data.dailyData, projects => mapValues(projects, models => mapValues(models, convert.costed)))
+  }
+  return report
+}
+
+/**
+ * --check-budget --json：只输出预算状态（金额换算为显示币种）
+ */
+export function buildBudgetJsonReport(
+  data: AnalysisData,
+  extras: Pick<JsonReportExtras, 'tool' | 'currency' | 'budgets'>
+): JsonBudgetReport {
+  const convert = createConverter(extras.currency.rate)
+  const summary: JsonBudgetReport['summary'] = { ok: 0, warning: 0, exceeded: 0 }
+  for (const status of extras.budgets) summary[status.level]++
+  return { ...buildReportHeader(data, extras), budgets: extras.budgets.map(convert.budget), summary }
+}
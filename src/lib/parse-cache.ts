@@ -0,0 +1,117 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { getParseCachePath, isPathInside } from './paths.js'
+import type { UsageStats } from './data-loader.js'
+import type { SkipCounts } from './diagnostics.js'
+
+/** 缓存格式版本，结构变化时递增，旧缓存会被整体丢弃 */
+const CACHE_VERSION = 3
+
+/**
+ * 缓存模式
+ * - use: 读取并更新缓存（默认）
+ * - off: 不读也不写缓存（--no-cache）
+ * - rebuild: 忽略已有缓存，全部重新解析后写入（--rebuild-cache）
+ */
+export type CacheMode = 'use' | 'off' | 'rebuild'
+
+/** 从 JSONL 行中提取出的一条用量（只保留计价需要的字段） */
+export interface CachedUsageEntry {
+  /** 时间戳（epoch ms） */
+  t: number
+  /** 请求级别的 model ID，旧版本数据没有 */
+  m: string | null
+  /** 由 rawUsage 统一后的 token 数 */
+  s: UsageStats
+}
+
+export interface CachedFile {
+  size: number
+  mtimeMs: number
+  /** 已解析到的字节偏移（总是落在完整行之后） */
+  offset: number
+  /** offset 之前最后几个字节的 hash，续读前用于确认文件只是追加而不是被改写 */
+  offsetHash: string
+  entries: CachedUsageEntry[]
+  /** 已解析部分中被跳过的行数 */
+  skipped: SkipCounts
+}
+
+interface ParseCacheFile {
+  version: number
+  files: Record<string, CachedFile>
+}
+
+export interface ParseCache {
+  mode: CacheMode
+  files: Map<string, CachedFile>
+  /** 本次扫描到（或已确认仍存在）的文件，保存时用于清理已删除文件的条目 */
+  seen: Set<string>
+  dirty: boolean
+}
+
+/**
+ * 加载解析缓存；缓存不存在、损坏或版本不匹配时返回空缓存
+ */
+export async function loadParseCache(mode: CacheMode): Promise<ParseCache> {
+  const cache: ParseCache = { mode, files: new Map(), seen: new Set(), dirty: mode === 'rebuild' }
+  if (mode !== 'use') return cache
+
+  try {
+    const raw = await fs.readFile(getParseCachePath(), 'utf8')
+    const parsed = JSON.parse(raw) as ParseCacheFile
+    if (parsed?.version !== CACHE_VERSION || !parsed.files || typeof parsed.files !== 'object') {
+      cache.dirty = true
+      return cache
+    }
+    for (const [filePath, entry] of Object.entries(parsed.files)) {
+      cache.files.set(filePath, entry)
+    }
+  } catch {
+    // 缓存不存在或无法解析：视为空缓存
+  }
+
+  return cache
+}
+
+async function pathExists(p: string): Promise<boolean> {
+  try {
+    await fs.access(p)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 写回解析缓存（先写临时文件再 rename，避免中途退出留下半个文件）
+ * - scannedRoots 之下本次没有扫描到的文件视为已删除，清理其条目
+ * - 其他目录（如之前用 --code-dir 指定的目录）的条目保留，除非文件已不存在
+ */
+export async function saveParseCache(cache: ParseCache, scannedRoots: string[]): Promise<void> {
+  if (cache.mode === 'off') return
+
+  for (const filePath of cache.files.keys()) {
+    if (cache.seen.has(filePath)) continue
+    if (!scannedRoots.some(root => isPathInside(filePath, root)) && (await pathExists(filePath))) {
+      cache.seen.add(filePath)
+      continue
+    }
+    cache.files.delete(filePath)
+    cache.dirty = true
+  }
+  if (!cache.dirty) return
+
+  const cachePath = getParseCachePath()
+  const payload: ParseCacheFile = { version: CACHE_VERSION, files: Object.fromEntries(cache.files) }
+  try {
+    await fs.mkdir(path.dirname(cachePath), { recursive: true })
+    const tmpPath = `${cachePath}.${process.pid}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(payload))
+    await fs.rename(tmpPath, cachePath)
+    cache.dirty = false
+  } catch {
+    // 缓存只是加速手段，写入失败不影响统计结果
+  }
+}
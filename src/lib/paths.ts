@@ -55,6 +55,61 @@ export function getWorkspaceStorageDir(): string {
   return path.join(configHome, 'CodeBuddy CN', 'User', 'workspaceStorage')
 }
 
+/**
+ * 获取 codebuddy-stats 自身的缓存目录
+ * - macOS: ~/Library/Caches/codebuddy-stats
+ * - Windows: %LOCALAPPDATA%/codebuddy-stats/Cache
+ * - Linux: $XDG_CACHE_HOME/codebuddy-stats 或 ~/.cache/codebuddy-stats
+ */
+export function getCacheDir(): string {
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library', 'Caches', 'codebuddy-stats')
+  }
+  if (process.platform === 'win32') {
+    const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local')
+    return path.join(localAppData, 'codebuddy-stats', 'Cache')
+  }
+  const xdgCacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache')
+  return path.join(xdgCacheHome, 'codebuddy-stats')
+}
+
+/**
+ * 获取 codebuddy-stats 自身的配置目录
+ * - Windows: %APPDATA%/codebuddy-stats
+ * - macOS / Linux: $XDG_CONFIG_HOME/codebuddy-stats 或 ~/.config/codebuddy-stats
+ */
+export function getStatsConfigDir(): string {
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming')
+    return path.join(appData, 'codebuddy-stats')
+  }
+  const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config')
+  return path.join(xdgConfigHome, 'codebuddy-stats')
+}
+
+/**
+ * 默认的用户价格表候选路径（按顺序取第一个存在的）
+ */
+export function getPricingConfigPaths(): string[] {
+  const dir = getStatsConfigDir()
+  return ['pricing.json', 'pricing.yaml', 'pricing.yml'].map(name => path.join(dir, name))
+}
+
+/**
+ * 默认的预算配置候选路径（按顺序取第一个存在的）
+ */
+export function getBudgetConfigPaths(): string[] {
+  const dir = getStatsConfigDir()
+  return ['budgets.json', 'budgets.yaml', 'budgets.yml'].map(name => path.join(dir, name))
+}
+
+/**
+ * 获取 JSONL 解析缓存文件路径
+ */
+export function getParseCachePath(): string {
+  return path.join(getCacheDir(), 'code-usage-cache.json')
+}
+
 /**
  * 获取项目数据目录
  */
@@ -68,3 +123,74 @@ export function getProjectsDir(): string {
 export function getSettingsPath(): string {
   return path.join(getConfigDir(), 'settings.json')
 }
+
+/**
+ * 数据源根目录，每种都可以有多个（例如本机数据 + 从构建机拷贝回来的副本）
+ * - codeDirs: CodeBuddy Code 的 projects 目录
+ * - ideDirs: CodeBuddyExtension 的 Data 目录
+ * - workspaceStorageDirs: IDE 的 workspaceStorage 目录（用于把工作区 hash 还原为路径）
+ */
+export interface DataRoots {
+  codeDirs: string[]
+  ideDirs: string[]
+  workspaceStorageDirs: string[]
+}
+
+/** 各类根目录对应的环境变量，多个目录用系统路径分隔符（: 或 ;）分隔 */
+export const DATA_ROOT_ENV: Record<keyof DataRoots, string> = {
+  codeDirs: 'CODEBUDDY_STATS_CODE_DIR',
+  ideDirs: 'CODEBUDDY_STATS_IDE_DIR',
+  workspaceStorageDirs: 'CODEBUDDY_STATS_WORKSPACE_STORAGE_DIR',
+}
+
+/**
+ * 展开开头的 ~ 并转为绝对路径
+ */
+export function expandHomePath(p: string): string {
+  if (p === '~') return os.homedir()
+  if (p.startsWith('~/') || p.startsWith('~\\')) return path.join(os.homedir(), p.slice(2))
+  return path.resolve(p)
+}
+
+/**
+ * p 是否位于 dir 之下（不含 dir 本身）
+ */
+export function isPathInside(p: string, dir: string): boolean {
+  const rel = path.relative(dir, p)
+  return rel !== '' && !rel.startsWith('..') && !path.isAbsolute(rel)
+}
+
+/**
+ * 拆分以系统路径分隔符分隔的目录列表，忽略空项
+ */
+export function splitPathList(value: string | undefined): string[] {
+  if (!value) return []
+  return value
+    .split(path.delimiter)
+    .map(p => p.trim())
+    .filter(Boolean)
+}
+
+/**
+ * 解析数据源根目录：显式传入 > 环境变量 > 平台默认目录
+ */
+export function resolveDataRoots(overrides: Partial<DataRoots> = {}): DataRoots {
+  const defaults: DataRoots = {
+    codeDirs: [getProjectsDir()],
+    ideDirs: [getIdeDataDir()],
+    workspaceStorageDirs: [getWorkspaceStorageDir()],
+  }
+
+  const resolve = (key: keyof DataRoots): string[] => {
+    const explicit = overrides[key]
+    const dirs = explicit?.length ? explicit : splitPathList(process.env[DATA_ROOT_ENV[key]])
+    if (!dirs.length) return defaults[key]
+    return [...new Set(dirs.map(expandHomePath))]
+  }
+
+  return {
+    codeDirs: resolve('codeDirs'),
+    ideDirs: resolve('ideDirs'),
+    workspaceStorageDirs: resolve('workspaceStorageDirs'),
+  }
+}
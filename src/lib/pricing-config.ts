@@ -0,0 +1,331 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import YAML from 'yaml'
+
+import { DEFAULT_EXCHANGE_RATES, normalizeCurrencyCode } from './currency.js'
+import { expandHomePath, getPricingConfigPaths } from './paths.js'
+import {
+  convertPricingToUsd,
+  getPeriodBounds,
+  MODEL_ALIASES,
+  MODEL_PRICING,
+  PRICING_COMPONENTS,
+  TIER_BASES,
+  type PricingPeriod,
+  type PricingTable,
+  type PricingTier,
+  type TierBasis,
+} from './pricing.js'
+
+/** 指定用户价格文件的环境变量 */
+export const PRICING_FILE_ENV = 'CODEBUDDY_STATS_PRICING'
+
+/**
+ * 实际生效的价格表：内置价格 + 用户价格文件
+ */
+export interface ActivePricing {
+  /** 已统一换算为 USD 的价格 */
+  table: PricingTable
+  /** 用户价格文件路径；没有找到时为 null */
+  file: string | null
+  /** 用户文件新增的 model ID */
+  added: string[]
+  /** 用户文件覆盖了内置价格的 model ID */
+  overridden: string[]
+  /** 生效的别名（内置 + 用户文件），key 为小写的 model ID，value 为价格表中的 model ID */
+  aliases: Record<string, string>
+  /** 用户文件中定义的别名（小写 key） */
+  userAliases: string[]
+  /** 价格文件指定的默认显示币种；未指定时为 null */
+  currency: string | null
+  /** 生效的汇率（内置 + 用户文件）：1 USD 可兑换的该币种数量 */
+  exchangeRates: Record<string, number>
+}
+
+/** 用户价格文件的内容 */
+export interface PricingConfig {
+  models: PricingTable
+  aliases: Record<string, string>
+  currency: string | null
+  exchangeRates: Record<string, number>
+}
+
+function invalid(file: string, where: string, message: string): never {
+  throw new Error(`Invalid pricing file ${file}: ${where} ${message}`)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseTiers(value: unknown, file: string, where: string): PricingTier[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    invalid(file, where, 'must be a non-empty array of { limit, pricePerMTok } tiers')
+  }
+
+  const tiers: PricingTier[] = []
+  for (let i = 0; i < value.length; i++) {
+    const tier = value[i] as unknown
+    const tierWhere = `${where}[${i}]`
+    if (!isPlainObject(tier)) invalid(file, tierWhere, 'must be an object with limit and pricePerMTok')
+
+    for (const key of Object.keys(tier)) {
+      if (key !== 'limit' && key !== 'pricePerMTok') invalid(file, `${tierWhere}.${key}`, 'is not a known tier field')
+    }
+
+    const price = tier.pricePerMTok
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+      invalid(file, `${tierWhere}.pricePerMTok`, 'must be a non-negative number (USD per 1M tokens)')
+    }
+
+    const isLast = i === value.length - 1
+    let limit: number
+    if (tier.limit === undefined || tier.limit === null || tier.limit === 'Infinity') {
+      if (!isLast) invalid(file, `${tierWhere}.limit`, 'may only be omitted on the last tier')
+      limit = Number.POSITIVE_INFINITY
+    } else if (typeof tier.limit === 'number' && tier.limit > 0) {
+      limit = tier.limit
+    } else {
+      invalid(file, `${tierWhere}.limit`, 'must be a positive token count')
+    }
+
+    const previous = tiers[tiers.length - 1]
+    if (previous && limit <= previous.limit) {
+      invalid(file, `${tierWhere}.limit`, `must be greater than the previous tier's limit (${previous.limit})`)
+    }
+
+    tiers.push({ limit, pricePerMTok: price })
+  }
+
+  return tiers
+}
+
+const PERIOD_FIELDS = ['effectiveFrom', 'effectiveTo', 'tierBy', 'currency'] as const
+
+const TOP_LEVEL_FIELDS = ['models', 'aliases', 'currency', 'exchangeRates']
+
+function parseCurrency(value: unknown, file: string, where: string): string {
+  const code = typeof value === 'string' ? normalizeCurrencyCode(value) : null
+  if (!code) invalid(file, where, 'must be a 3-letter currency code such as USD or CNY')
+  return code
+}
+
+function parseEffectiveDate(value: unknown, file: string, where: string): string | undefined {
+  if (value === undefined || value === null) return undefined
+  // YAML 可能把不带引号的日期解析为 Date
+  const text = value instanceof Date ? value.toISOString() : value
+  if (typeof text !== 'string' || Number.isNaN(Date.parse(text))) {
+    invalid(file, where, 'must be a date (YYYY-MM-DD) or ISO timestamp')
+  }
+  return text
+}
+
+function parsePeriod(value: unknown, file: string, where: string): PricingPeriod {
+  if (!isPlainObject(value)) invalid(file, where, 'must be an object with prompt / completion / cacheRead / cacheWrite')
+
+  for (const key of Object.keys(value)) {
+    if (!(PRICING_COMPONENTS as readonly string[]).includes(key) && !(PERIOD_FIELDS as readonly string[]).includes(key)) {
+      invalid(file, `${where}.${key}`, `is not a known field (expected ${[...PRICING_COMPONENTS, ...PERIOD_FIELDS].join(', ')})`)
+    }
+  }
+  if (value.prompt === undefined) invalid(file, `${where}.prompt`, 'is required')
+  if (value.completion === undefined) invalid(file, `${where}.completion`, 'is required')
+
+  const prompt = parseTiers(value.prompt, file, `${where}.prompt`)
+  const period: PricingPeriod = {
+    prompt,
+    completion: parseTiers(value.completion, file, `${where}.completion`),
+    cacheRead: value.cacheRead === undefined ? prompt : parseTiers(value.cacheRead, file, `${where}.cacheRead`),
+    cacheWrite: value.cacheWrite === undefined ? prompt : parseTiers(value.cacheWrite, file, `${where}.cacheWrite`),
+  }
+  const effectiveFrom = parseEffectiveDate(value.effectiveFrom, file, `${where}.effectiveFrom`)
+  const effectiveTo = parseEffectiveDate(value.effectiveTo, file, `${where}.effectiveTo`)
+  if (effectiveFrom) period.effectiveFrom = effectiveFrom
+  if (effectiveTo) period.effectiveTo = effectiveTo
+  if (value.tierBy !== undefined) {
+    if (!TIER_BASES.includes(value.tierBy as TierBasis)) {
+      invalid(file, `${where}.tierBy`, `must be one of ${TIER_BASES.join(', ')}`)
+    }
+    period.tierBy = value.tierBy as TierBasis
+  }
+  if (value.currency !== undefined) period.currency = parseCurrency(value.currency, file, `${where}.currency`)
+
+  const { from, to } = getPeriodBounds(period)
+  if (from >= to) invalid(file, `${where}.effectiveTo`, 'must be later than effectiveFrom')
+  return period
+}
+
+/** 单个价格或价格历史数组；按 effectiveFrom 排序并检查时间段不重叠 */
+function parsePeriods(value: unknown, file: string, where: string): PricingPeriod[] {
+  if (!Array.isArray(value)) return [parsePeriod(value, file, where)]
+  if (value.length === 0) invalid(file, where, 'must not be an empty price history')
+
+  const periods = value
+    .map((item: unknown, i) => ({ where: `${where}[${i}]`, period: parsePeriod(item, file, `${where}[${i}]`) }))
+    .sort((a, b) => getPeriodBounds(a.period).from - getPeriodBounds(b.period).from)
+
+  for (let i = 1; i < periods.length; i++) {
+    const previous = periods[i - 1]!
+    const current = periods[i]!
+    if (getPeriodBounds(current.period).from < getPeriodBounds(previous.period).to) {
+      invalid(file, current.where, `overlaps ${previous.where}; set effectiveTo / effectiveFrom so periods do not overlap`)
+    }
+  }
+  return periods.map(item => item.period)
+}
+
+/**
+ * 校验价格文件内容，返回 model ID -> 价格；不合法时抛出带字段路径的错误
+ *
+ * 用户价格文件格式（JSON 或 YAML）：
+ *
+ *   models:
+ *     my-model:
+ *       prompt:     [{ limit: 200000, pricePerMTok: 3 }, { pricePerMTok: 6 }]
+ *       completion: [{ pricePerMTok: 15 }]
+ *       cacheRead:  [{ pricePerMTok: 0.3 }]     # 可省略，默认同 prompt
+ *       cacheWrite: [{ pricePerMTok: 3.75 }]    # 可省略，默认同 prompt
+ *       tierBy: totalPrompt                     # 可省略；按请求输入上下文（totalPrompt）或按分项（component）选档
+ *       currency: USD                           # 可省略；价格所用币种，非 USD 时按 exchangeRates 换算
+ *     old-model:                                # 价格历史：数组中每项带 effectiveFrom / effectiveTo
+ *       - { effectiveTo: 2025-06-01, prompt: [...], completion: [...] }
+ *       - { effectiveFrom: 2025-06-01, prompt: [...], completion: [...] }
+ *   aliases:                                    # 可省略；日志中的 model ID -> 价格表中的 model ID
+ *     my-model-latest: my-model
+ *   currency: CNY                               # 可省略；默认显示币种（--currency 优先）
+ *   exchangeRates:                              # 可省略；1 USD 可兑换的数量，与内置汇率合并
+ *     CNY: 7.2
+ *
+ * 最后一档的 limit 可省略（或写 null / Infinity / .inf），表示不设上限
+ * 别名忽略大小写，目标必须是内置或本文件中定义的 model ID
+ */
+export function validatePricingConfig(raw: unknown, file: string): PricingConfig {
+  if (!isPlainObject(raw)) invalid(file, 'root', 'must be an object with a "models" or "aliases" field')
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_FIELDS.includes(key)) {
+      invalid(file, key, `is not a known top-level field (expected ${TOP_LEVEL_FIELDS.map(field => `"${field}"`).join(', ')})`)
+    }
+  }
+  const rawModels = raw.models ?? {}
+  if (!isPlainObject(rawModels)) invalid(file, 'models', 'must be an object keyed by model ID')
+
+  const models: PricingTable = {}
+  for (const [modelId, value] of Object.entries(rawModels)) {
+    const where = `models["${modelId}"]`
+    if (!modelId.trim()) invalid(file, where, 'model ID must not be empty')
+    models[modelId] = parsePeriods(value, file, where)
+  }
+
+  const rawAliases = raw.aliases ?? {}
+  if (!isPlainObject(rawAliases)) invalid(file, 'aliases', 'must be an object mapping model ID to a priced model ID')
+
+  const aliases: Record<string, string> = {}
+  for (const [alias, target] of Object.entries(rawAliases)) {
+    const where = `aliases["${alias}"]`
+    if (!alias.trim()) invalid(file, where, 'alias must not be empty')
+    if (typeof target !== 'string') invalid(file, where, 'must be a model ID string')
+    if (!models[target] && !MODEL_PRICING[target]) {
+      invalid(file, where, `points to "${target}", which is not a built-in model or defined under "models"`)
+    }
+    aliases[alias.trim().toLowerCase()] = target
+  }
+
+  const rawRates = raw.exchangeRates ?? {}
+  if (!isPlainObject(rawRates)) invalid(file, 'exchangeRates', 'must be an object mapping currency code to units per 1 USD')
+
+  const exchangeRates: Record<string, number> = {}
+  for (const [key, rate] of Object.entries(rawRates)) {
+    const where = `exchangeRates["${key}"]`
+    const code = parseCurrency(key, file, where)
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      invalid(file, where, 'must be a positive number (units of this currency per 1 USD)')
+    }
+    if (code === 'USD' && rate !== 1) invalid(file, where, 'must be 1 (all rates are relative to USD)')
+    exchangeRates[code] = rate
+  }
+
+  const rates = { ...DEFAULT_EXCHANGE_RATES, ...exchangeRates }
+  for (const [modelId, periods] of Object.entries(models)) {
+    periods.forEach((period, i) => {
+      if (period.currency && rates[period.currency] === undefined) {
+        const where = periods.length > 1 ? `models["${modelId}"][${i}].currency` : `models["${modelId}"].currency`
+        invalid(file, where, `is ${period.currency}, which has no exchange rate; add it under "exchangeRates"`)
+      }
+    })
+  }
+
+  const currency = raw.currency === undefined ? null : parseCurrency(raw.currency, file, 'currency')
+  if (currency && rates[currency] === undefined) {
+    invalid(file, 'currency', `is ${currency}, which has no exchange rate; add it under "exchangeRates"`)
+  }
+
+  return { models, aliases, currency, exchangeRates }
+}
+
+async function readPricingFile(file: string): Promise<PricingConfig> {
+  const raw = await fs.readFile(file, 'utf8')
+  let parsed: unknown
+  try {
+    const ext = path.extname(file).toLowerCase()
+    parsed = ext === '.yaml' || ext === '.yml' ? YAML.parse(raw) : JSON.parse(raw)
+  } catch (err) {
+    throw new Error(`Invalid pricing file ${file}: ${(err as Error).message}`)
+  }
+  return validatePricingConfig(parsed, file)
+}
+
+/**
+ * 加载生效的价格表
+ * 价格文件：显式传入 > 环境变量 > 配置目录下的 pricing.json / pricing.yaml / pricing.yml
+ * 显式指定的文件不存在时报错；默认位置没有文件时只使用内置价格
+ */
+export async function loadActivePricing(filePath?: string | null): Promise<ActivePricing> {
+  const explicit = filePath || process.env[PRICING_FILE_ENV]
+  let file: string | null = null
+
+  if (explicit) {
+    file = expandHomePath(explicit)
+    try {
+      await fs.access(file)
+    } catch {
+      throw new Error(`Pricing file not found: ${file}`)
+    }
+  } else {
+    for (const candidate of getPricingConfigPaths()) {
+      try {
+        await fs.access(candidate)
+        file = candidate
+        break
+      } catch {
+        // 尝试下一个候选路径
+      }
+    }
+  }
+
+  if (!file) {
+    return {
+      table: convertPricingToUsd(MODEL_PRICING, DEFAULT_EXCHANGE_RATES),
+      file: null,
+      added: [],
+      overridden: [],
+      aliases: MODEL_ALIASES,
+      userAliases: [],
+      currency: null,
+      exchangeRates: DEFAULT_EXCHANGE_RATES,
+    }
+  }
+
+  const config = await readPricingFile(file)
+  const modelIds = Object.keys(config.models)
+  const exchangeRates = { ...DEFAULT_EXCHANGE_RATES, ...config.exchangeRates }
+  return {
+    table: convertPricingToUsd({ ...MODEL_PRICING, ...config.models }, exchangeRates),
+    file,
+    added: modelIds.filter(id => !MODEL_PRICING[id]),
+    overridden: modelIds.filter(id => MODEL_PRICING[id]),
+    aliases: { ...MODEL_ALIASES, ...config.aliases },
+    userAliases: Object.keys(config.aliases),
+    currency: config.currency,
+    exchangeRates,
+  }
+}
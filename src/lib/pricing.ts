@@ -3,21 +3,56 @@ export interface PricingTier {
   pricePerMTok: number;
 }
 
+/**
+ * 分档依据
+ * - totalPrompt：按整个请求的输入上下文（缓存命中 + 未命中 + 写入）选档，各分项同档（Claude 4.5 / Gemini / GLM 的计费方式）
+ * - component：每个分项按自身 token 数选档
+ */
+export type TierBasis = "totalPrompt" | "component";
+
+export const TIER_BASES: readonly TierBasis[] = ["totalPrompt", "component"];
+
+export const DEFAULT_TIER_BASIS: TierBasis = "totalPrompt";
+
 export interface ModelPricing {
   prompt: PricingTier[];
   completion: PricingTier[];
   cacheRead: PricingTier[];
   cacheWrite: PricingTier[];
+  /** 省略时为 DEFAULT_TIER_BASIS */
+  tierBy?: TierBasis;
+  /** 价格所用币种，省略时为 USD；加载时由 convertPricingToUsd 统一换算为 USD，之后仅用于标注原币种 */
+  currency?: string;
 }
 
+/**
+ * 某段时间内生效的价格
+ * effectiveFrom 含、effectiveTo 不含；只写日期时按 UTC 0 点，也可写完整的 ISO 时间
+ * 省略表示不限
+ */
+export interface PricingPeriod extends ModelPricing {
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+/** model ID -> 价格历史（按 effectiveFrom 升序，时间段互不重叠） */
+export type PricingTable = Record<string, PricingPeriod[]>;
+
+export const PRICING_COMPONENTS = [
+  "prompt",
+  "completion",
+  "cacheRead",
+  "cacheWrite",
+] as const satisfies readonly (keyof ModelPricing)[];
+
 // 模型价格 (USD / 1M tokens)
 function createPricing(
   inputPrice: number,
   cachedInputPrice: number,
   outputPrice: number,
   cacheWritePrice?: number
-): ModelPricing {
-  return {
+): PricingPeriod[] {
+  return [{
     prompt: [{ limit: Number.POSITIVE_INFINITY, pricePerMTok: inputPrice }],
     completion: [
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: outputPrice },
@@ -31,10 +66,10 @@ function createPricing(
         pricePerMTok: cacheWritePrice ?? inputPrice,
       },
     ],
-  };
+  }];
 }
 
-export const MODEL_PRICING: Record<string, ModelPricing> = {
+export const MODEL_PRICING: PricingTable = {
   // GPT 系列
   "gpt-5.2": createPricing(1.75, 0.175, 14.0),
   "gpt-5.1": createPricing(1.25, 0.125, 10.0),
@@ -51,7 +86,7 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
   // Claude 系列
   "claude-opus-4.5": createPricing(5.0, 0.5, 25.0, 10.0),
   "claude-haiku-4.5": createPricing(1.0, 0.1, 5.0, 1.25),
-  "claude-4.5": {
+  "claude-4.5": [{
     prompt: [
       { limit: 200_000, pricePerMTok: 3.0 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 6.0 },
@@ -68,10 +103,10 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
       { limit: 200_000, pricePerMTok: 6.0 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 12.0 },
     ],
-  },
+  }],
 
   // Gemini 系列
-  "gemini-3.0-pro": {
+  "gemini-3.0-pro": [{
     prompt: [
       { limit: 200_000, pricePerMTok: 2.0 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 4.0 },
@@ -88,9 +123,9 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
       { limit: 200_000, pricePerMTok: 0.2 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.4 },
     ],
-  },
+  }],
   "gemini-3.0-flash": createPricing(0.5, 0.05, 3.0),
-  "gemini-2.5-pro": {
+  "gemini-2.5-pro": [{
     prompt: [
       { limit: 200_000, pricePerMTok: 1.25 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 2.5 },
@@ -107,47 +142,49 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
       { limit: 200_000, pricePerMTok: 0.125 },
       { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.25 },
     ],
-  },
+  }],
 
-  // GLM 系列 (价格从人民币转换: 1 USD = 7 CNY)
+  // GLM 系列 (人民币定价，元 / 1M tokens，按汇率表换算为 USD)
   // 按上下文长度分段定价：[0,32K), [32K,200K)
-  "glm-4.7": {
+  "glm-4.7": [{
+    currency: "CNY",
     prompt: [
-      { limit: 32_000, pricePerMTok: 0.286 }, // 2元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.571 }, // 4元/M tokens
+      { limit: 32_000, pricePerMTok: 2 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 4 },
     ],
     completion: [
-      { limit: 32_000, pricePerMTok: 1.143 }, // 8元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 2.286 }, // 16元/M tokens
+      { limit: 32_000, pricePerMTok: 8 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 16 },
     ],
     cacheRead: [
-      { limit: 32_000, pricePerMTok: 0.057 }, // 0.4元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.114 }, // 0.8元/M tokens
+      { limit: 32_000, pricePerMTok: 0.4 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.8 },
     ],
     cacheWrite: [
-      { limit: 32_000, pricePerMTok: 0.286 }, // 2元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.571 }, // 4元/M tokens
+      { limit: 32_000, pricePerMTok: 2 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 4 },
     ],
-  },
+  }],
 
-  "glm-4.6": {
+  "glm-4.6": [{
+    currency: "CNY",
     prompt: [
-      { limit: 32_000, pricePerMTok: 0.286 }, // 2元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.571 }, // 4元/M tokens
+      { limit: 32_000, pricePerMTok: 2 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 4 },
     ],
     completion: [
-      { limit: 32_000, pricePerMTok: 1.143 }, // 8元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 2.286 }, // 16元/M tokens
+      { limit: 32_000, pricePerMTok: 8 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 16 },
     ],
     cacheRead: [
-      { limit: 32_000, pricePerMTok: 0.057 }, // 0.4元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.114 }, // 0.8元/M tokens
+      { limit: 32_000, pricePerMTok: 0.4 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.8 },
     ],
     cacheWrite: [
-      { limit: 32_000, pricePerMTok: 0.286 }, // 2元/M tokens
-      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 0.571 }, // 4元/M tokens
+      { limit: 32_000, pricePerMTok: 2 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 4 },
     ],
-  },
+  }],
 
   // DeepSeek 系列
   "deepseek-v3.1": createPricing(0.56, 0.056, 1.68),
@@ -155,6 +192,80 @@ export const MODEL_PRICING: Record<string, ModelPricing> = {
 
 export const DEFAULT_MODEL_ID = "gpt-5.1" as const;
 
+// 内置别名：规范化之后仍无法直接匹配价格表的常见写法（key 为小写）
+export const MODEL_ALIASES: Record<string, string> = {
+  "claude-sonnet-4.5": "claude-4.5",
+  "gemini-3-pro": "gemini-3.0-pro",
+  "gemini-3-flash": "gemini-3.0-flash",
+  "deepseek-v3.1-terminus": "deepseek-v3.1",
+};
+
+/**
+ * 由原始 model ID 依次生成候选写法，越靠前越接近原始值
+ * - 大小写折叠、下划线转连字符
+ * - 去掉厂商前缀（anthropic/、openai/、us.anthropic. 等）
+ * - 去掉日期 / 版本后缀（-20250929、@20250929、-2025-09-29、-v1:0、-preview、-latest）
+ * - 版本号连字符转点号（claude-sonnet-4-5 -> claude-sonnet-4.5）
+ * - Claude 型号词序（claude-4.5-sonnet -> claude-sonnet-4.5）
+ */
+function getModelIdCandidates(modelId: string): string[] {
+  const candidates: string[] = [];
+  const push = (id: string): void => {
+    if (id && !candidates.includes(id)) candidates.push(id);
+  };
+
+  let id = modelId.trim().toLowerCase().replace(/_/g, "-");
+  push(id);
+
+  id = id.slice(id.lastIndexOf("/") + 1);
+  id = id.replace(/^(?:(?:us|eu|apac|global)\.)?(?:anthropic|openai|google|zhipu|deepseek)\./, "");
+  push(id);
+
+  const suffixes = [/@.*$/, /-v\d+(?::\d+)?$/, /-\d{8}$/, /-\d{4}-\d{2}-\d{2}$/, /-preview(?:-\d{2}-\d{2})?$/, /-latest$/];
+  for (const suffix of suffixes) {
+    id = id.replace(suffix, "");
+    push(id);
+  }
+
+  id = id.replace(/-(\d+)-(\d+)(?=-|$)/g, "-$1.$2");
+  push(id);
+
+  id = id.replace(/^claude-(\d+(?:\.\d+)?)-(opus|sonnet|haiku)$/, "claude-$2-$1");
+  push(id);
+
+  return candidates;
+}
+
+/**
+ * 创建 model ID 解析器：返回价格表中对应的 key，无法匹配时返回 null（调用方按 DEFAULT_MODEL_ID 计价）
+ * 每个候选写法先查价格表（忽略大小写），再查别名
+ */
+export function createModelResolver(
+  table: PricingTable = MODEL_PRICING,
+  aliases: Record<string, string> = MODEL_ALIASES
+): (modelId: string) => string | null {
+  const tableKeys = new Map(Object.keys(table).map((key) => [key.toLowerCase(), key]));
+  const aliasKeys = new Map(Object.entries(aliases).map(([key, target]) => [key.toLowerCase(), target]));
+  const cache = new Map<string, string | null>();
+
+  return (modelId) => {
+    if (table[modelId]) return modelId;
+    const cached = cache.get(modelId);
+    if (cached !== undefined) return cached;
+
+    let resolved: string | null = null;
+    for (const candidate of getModelIdCandidates(modelId)) {
+      const target = tableKeys.get(candidate) ?? aliasKeys.get(candidate);
+      if (target && table[target]) {
+        resolved = target;
+        break;
+      }
+    }
+    cache.set(modelId, resolved);
+    return resolved;
+  };
+}
+
 export function selectTierPrice(tokens: number, tiers: PricingTier[]): number {
   if (tokens <= 0) return tiers[0]?.pricePerMTok ?? 0;
   for (const tier of tiers) {
@@ -165,21 +276,83 @@ export function selectTierPrice(tokens: number, tiers: PricingTier[]): number {
   return tiers[tiers.length - 1]?.pricePerMTok ?? 0;
 }
 
-export function tokensToCost(tokens: number, tiers: PricingTier[]): number {
+/**
+ * tierTokens 为选档所依据的 token 数，默认为 tokens 本身（按分项选档）
+ */
+export function tokensToCost(tokens: number, tiers: PricingTier[], tierTokens: number = tokens): number {
   if (!tokens) return 0;
-  const price = selectTierPrice(tokens, tiers);
+  const price = selectTierPrice(tierTokens, tiers);
   return (tokens / 1_000_000) * price;
 }
 
+export function hasPricingForModel(
+  modelId: string | null | undefined,
+  table: PricingTable = MODEL_PRICING
+): boolean {
+  return Boolean(modelId && table[modelId]);
+}
+
+/** 价格生效时间的解析结果（epoch ms），省略时为 ±Infinity */
+export function getPeriodBounds(period: PricingPeriod): { from: number; to: number } {
+  return {
+    from: period.effectiveFrom ? Date.parse(period.effectiveFrom) : Number.NEGATIVE_INFINITY,
+    to: period.effectiveTo ? Date.parse(period.effectiveTo) : Number.POSITIVE_INFINITY,
+  };
+}
+
+/**
+ * 选出 timestamp 时刻生效的价格
+ * 落在所有时间段之前时取最早的价格，落在时间段之间或之后时取在此之前最近的价格
+ */
+export function selectPricingPeriod(periods: PricingPeriod[], timestamp: number): PricingPeriod | undefined {
+  let selected = periods[0];
+  for (const period of periods) {
+    const { from, to } = getPeriodBounds(period);
+    if (timestamp >= from && timestamp < to) return period;
+    if (timestamp >= from) selected = period;
+  }
+  return selected;
+}
+
+/**
+ * 把以其他币种定价的价格换算为 USD；rates 为 1 USD 可兑换的该币种数量
+ * 换算后保留 currency 以标注原币种；没有汇率时抛出错误
+ */
+export function convertPricingToUsd(table: PricingTable, rates: Record<string, number>): PricingTable {
+  const converted: PricingTable = {};
+  for (const [modelId, periods] of Object.entries(table)) {
+    converted[modelId] = periods.map((period) => {
+      if (!period.currency || period.currency === "USD") return period;
+      const rate = rates[period.currency];
+      if (!rate) {
+        throw new Error(`No exchange rate for ${period.currency} (used by ${modelId}); add it under "exchangeRates" in the pricing file`);
+      }
+      const convertTiers = (tiers: PricingTier[]): PricingTier[] =>
+        tiers.map((tier) => ({ limit: tier.limit, pricePerMTok: tier.pricePerMTok / rate }));
+      return {
+        ...period,
+        prompt: convertTiers(period.prompt),
+        completion: convertTiers(period.completion),
+        cacheRead: convertTiers(period.cacheRead),
+        cacheWrite: convertTiers(period.cacheWrite),
+      };
+    });
+  }
+  return converted;
+}
+
+/**
+ * 获取 model 在 timestamp 时刻（默认当前）生效的价格；价格表中没有该 model 时按 DEFAULT_MODEL_ID 计价
+ */
 export function getPricingForModel(
-  modelId: string | null | undefined
+  modelId: string | null | undefined,
+  table: PricingTable = MODEL_PRICING,
+  timestamp: number = Date.now()
 ): ModelPricing {
-  if (modelId && MODEL_PRICING[modelId]) {
-    return MODEL_PRICING[modelId];
-  }
-  const fallback = MODEL_PRICING[DEFAULT_MODEL_ID];
-  if (!fallback) {
+  const periods = (modelId && table[modelId]) || table[DEFAULT_MODEL_ID];
+  const pricing = periods && selectPricingPeriod(periods, timestamp);
+  if (!pricing) {
     throw new Error(`Missing pricing for default model: ${DEFAULT_MODEL_ID}`);
   }
-  return fallback;
+  return pricing;
 }
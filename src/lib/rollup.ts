@@ -0,0 +1,155 @@
+/**
+ * 按天 / 周（ISO 周，周一开始）/ 月汇总每日数据
+ */
+
+import {
+  addCacheSavings,
+  addCostBreakdown,
+  createCacheSavings,
+  createCostBreakdown,
+  USAGE_ORIGINS,
+  type AnalysisData,
+  type SourcedSummaryStats,
+  type SummaryStats,
+} from './data-loader.js'
+import { addDays, getWeekday } from './timezone.js'
+
+export type Granularity = 'day' | 'week' | 'month'
+
+export const GRANULARITIES: readonly Granularity[] = ['day', 'week', 'month']
+
+export interface PeriodRollup extends SourcedSummaryStats {
+  /** 周期标识：2026-10-19（天）、2026-W42（ISO 周）、2026-10（月） */
+  key: string
+  /** 完整的日历周期（含两端），可能超出加载的日期范围 */
+  since: string
+  until: string
+  /** 周期内有用量的日期，按日期倒序 */
+  dates: string[]
+  cacheHitTokens: number
+  cacheMissTokens: number
+  /** 命中 / (命中 + 未命中)；没有缓存明细时为 0 */
+  cacheHitRate: number
+  topModel: (SummaryStats & { id: string }) | null
+  topProject: (SummaryStats & { name: string }) | null
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * ISO 周：周一开始，周四所在的年份为周年份（1 月初的几天可能属于上一年的最后一周）
+ */
+function getIsoWeek(date: string): { key: string; since: string; until: string } {
+  const since = addDays(date, -((getWeekday(date) + 6) % 7))
+  const thursday = addDays(since, 3)
+  const year = thursday.slice(0, 4)
+  const dayOfYear = Math.round((Date.parse(thursday) - Date.parse(`${year}-01-01`)) / 86_400_000)
+  return { key: `${year}-W${pad2(Math.floor(dayOfYear / 7) + 1)}`, since, until: addDays(since, 6) }
+}
+
+/** 日期所在周期的标识与起止日期 */
+export function getPeriodBounds(date: string, granularity: Granularity): { key: string; since: string; until: string } {
+  switch (granularity) {
+    case 'day':
+      return { key: date, since: date, until: date }
+    case 'week':
+      return getIsoWeek(date)
+    case 'month': {
+      const since = `${date.slice(0, 8)}01`
+      return { key: date.slice(0, 7), since, until: addDays(`${addDays(since, 32).slice(0, 8)}01`, -1) }
+    }
+  }
+}
+
+function createRollup(key: string, since: string, until: string): PeriodRollup {
+  return {
+    key,
+    since,
+    until,
+    dates: [],
+    cost: 0,
+    tokens: 0,
+    requests: 0,
+    sources: {},
+    costs: createCostBreakdown(),
+    cacheSavings: createCacheSavings(),
+    cacheHitTokens: 0,
+    cacheMissTokens: 0,
+    cacheHitRate: 0,
+    topModel: null,
+    topProject: null,
+  }
+}
+
+function pickTop(totals: Record<string, SummaryStats>): [string, SummaryStats] | undefined {
+  return Object.entries(totals).sort((a, b) => b[1].cost - a[1].cost)[0]
+}
+
+/**
+ * 按周期汇总，周期按时间倒序排列（与 Daily 列表一致）
+ */
+export function buildRollups(data: AnalysisData, granularity: Granularity): PeriodRollup[] {
+  const rollups: Record<string, PeriodRollup> = {}
+  const modelTotals: Record<string, Record<string, SummaryStats>> = {}
+  const projectTotals: Record<string, Record<string, SummaryStats>> = {}
+  const addTo = (
+    totals: Partial<Record<string, SummaryStats>>,
+    key: string,
+    cost: number,
+    tokens: number,
+    requests: number
+  ): void => {
+    totals[key] ??= { cost: 0, tokens: 0, requests: 0 }
+    totals[key]!.cost += cost
+    totals[key]!.tokens += tokens
+    totals[key]!.requests += requests
+  }
+
+  for (const date of Object.keys(data.dailyData).sort().reverse()) {
+    const { key, since, until } = getPeriodBounds(date, granularity)
+    rollups[key] ??= createRollup(key, since, until)
+    modelTotals[key] ??= {}
+    projectTotals[key] ??= {}
+    const rollup = rollups[key]!
+    rollup.dates.push(date)
+
+    for (const [project, models] of Object.entries(data.dailyData[date] ?? {})) {
+      for (const [modelId, stats] of Object.entries(models)) {
+        rollup.cost += stats.cost
+        rollup.tokens += stats.totalTokens
+        rollup.requests += stats.requests
+        rollup.cacheHitTokens += stats.cacheHitTokens
+        rollup.cacheMissTokens += stats.cacheMissTokens
+        addCostBreakdown(rollup.costs, stats.costs)
+        addCacheSavings(rollup.cacheSavings, stats.cacheSavings)
+        for (const origin of USAGE_ORIGINS) {
+          const part = stats.sources[origin]
+          if (!part) continue
+          addTo(rollup.sources, origin, part.cost, part.tokens, part.requests)
+        }
+        addTo(modelTotals[key]!, modelId, stats.cost, stats.totalTokens, stats.requests)
+        addTo(projectTotals[key]!, project, stats.cost, stats.totalTokens, stats.requests)
+      }
+    }
+  }
+
+  return Object.values(rollups)
+    .sort((a, b) => b.since.localeCompare(a.since))
+    .map(rollup => {
+      const cacheTokens = rollup.cacheHitTokens + rollup.cacheMissTokens
+      rollup.cacheHitRate = cacheTokens > 0 ? rollup.cacheHitTokens / cacheTokens : 0
+      const topModel = pickTop(modelTotals[rollup.key]!)
+      const topProject = pickTop(projectTotals[rollup.key]!)
+      rollup.topModel = topModel ? { id: topModel[0], ...topModel[1] } : null
+      rollup.topProject = topProject ? { name: topProject[0], ...topProject[1] } : null
+      return rollup
+    })
+}
+
+/** 周期的显示名称，如 "2026-W42 (10-13 → 10-19)"、"2026-10" */
+export function formatPeriodLabel(rollup: Pick<PeriodRollup, 'key' | 'since' | 'until'>, granularity: Granularity): string {
+  if (granularity !== 'week') return rollup.key
+  return `${rollup.key} (${rollup.since.slice(5)} → ${rollup.until.slice(5)})`
+}
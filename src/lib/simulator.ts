@@ -0,0 +1,138 @@
+/**
+ * what-if 模拟：把同样的 token 用量换成另一个模型的价格重新计价
+ */
+
+import { computeStatsCost, type AnalysisData, type UsageRecord } from './data-loader.js'
+import { createModelResolver, type PricingTable } from './pricing.js'
+
+/** 一条换模型规则：匹配 pattern 的 model 按 target 的价格计价 */
+export interface SimulationRule {
+  /** 规则左侧的原始写法；整体替换时为 '*' */
+  pattern: string
+  /** 价格表中的 model ID */
+  target: string
+}
+
+export interface SimulatedStats {
+  actual: number
+  simulated: number
+  requests: number
+}
+
+export interface ModelSimulation extends SimulatedStats {
+  /** 模拟时使用的价格表 model ID；没有规则命中时为 null（费用不变） */
+  target: string | null
+}
+
+export interface SimulationResult {
+  rules: SimulationRule[]
+  total: SimulatedStats
+  byModel: Record<string, ModelSimulation>
+  byProject: Record<string, SimulatedStats>
+}
+
+const ARROW = /\s*(?:→|->|=>|=)\s*/
+
+/**
+ * 目标模型：先按价格表的规范化规则匹配，再按子串在 model ID 与别名中查找（如 sonnet -> claude-4.5）
+ */
+function resolveTargetModel(target: string, table: PricingTable, aliases: Record<string, string>): string {
+  const resolved = createModelResolver(table, aliases)(target)
+  if (resolved) return resolved
+
+  const needle = target.toLowerCase()
+  const matches = new Set<string>()
+  for (const modelId of Object.keys(table)) {
+    if (modelId.toLowerCase().includes(needle)) matches.add(modelId)
+  }
+  for (const [alias, modelId] of Object.entries(aliases)) {
+    if (alias.toLowerCase().includes(needle) && table[modelId]) matches.add(modelId)
+  }
+
+  if (matches.size === 1) return [...matches][0]!
+  if (matches.size > 1) {
+    throw new Error(`Invalid --simulate-model: "${target}" is ambiguous (${[...matches].sort().join(', ')})`)
+  }
+  throw new Error(`Invalid --simulate-model: "${target}" is not a known model (see \`cbs pricing\`)`)
+}
+
+/**
+ * 解析 --simulate-model
+ * - 单个 model ID：所有用量都按该模型计价
+ * - 映射列表：from→to,from→to（也可写 -> 或 =），from 按 model ID 全等或子串匹配
+ */
+export function parseSimulationSpec(
+  spec: string,
+  table: PricingTable,
+  aliases: Record<string, string>
+): SimulationRule[] {
+  const items = spec
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+  if (!items.length) throw new Error('Invalid --simulate-model: expected a model ID or from→to mappings')
+
+  if (items.length === 1 && !ARROW.test(items[0]!)) {
+    return [{ pattern: '*', target: resolveTargetModel(items[0]!, table, aliases) }]
+  }
+
+  return items.map(item => {
+    const [from, to, ...rest] = item.split(ARROW)
+    if (!from || !to || rest.length) {
+      throw new Error(`Invalid --simulate-model: "${item}" should look like from→to (e.g. opus→sonnet)`)
+    }
+    return { pattern: from.toLowerCase(), target: resolveTargetModel(to, table, aliases) }
+  })
+}
+
+/**
+ * 找出 model 适用的规则：全等（原始 ID 或计价 ID）优先于子串匹配，同类按规则顺序
+ */
+function findRule(rules: SimulationRule[], record: UsageRecord): SimulationRule | null {
+  const ids = [record.modelId.toLowerCase(), record.pricedModelId.toLowerCase()]
+  return (
+    rules.find(rule => rule.pattern === '*' || ids.includes(rule.pattern)) ??
+    rules.find(rule => ids.some(id => id.includes(rule.pattern))) ??
+    null
+  )
+}
+
+function addSimulated(stats: SimulatedStats, actual: number, simulated: number): void {
+  stats.actual += actual
+  stats.simulated += simulated
+  stats.requests += 1
+}
+
+/**
+ * 按规则逐条请求重新计价（分档、价格历史与实际计价一致），汇总到 model / project
+ */
+export function simulateRepricing(data: AnalysisData, rules: SimulationRule[]): SimulationResult {
+  const result: SimulationResult = {
+    rules,
+    total: { actual: 0, simulated: 0, requests: 0 },
+    byModel: {},
+    byProject: {},
+  }
+  const ruleCache = new Map<string, SimulationRule | null>()
+
+  for (const record of data.usageRecords) {
+    const cacheKey = `${record.modelId}\u0000${record.pricedModelId}`
+    let rule = ruleCache.get(cacheKey)
+    if (rule === undefined) {
+      rule = findRule(rules, record)
+      ruleCache.set(cacheKey, rule)
+    }
+
+    const simulated = rule
+      ? computeStatsCost(record.stats, rule.target, data.pricing.table, record.timestamp).cost
+      : record.cost
+
+    addSimulated(result.total, record.cost, simulated)
+    result.byModel[record.modelId] ??= { actual: 0, simulated: 0, requests: 0, target: rule?.target ?? null }
+    addSimulated(result.byModel[record.modelId]!, record.cost, simulated)
+    result.byProject[record.project] ??= { actual: 0, simulated: 0, requests: 0 }
+    addSimulated(result.byProject[record.project]!, record.cost, simulated)
+  }
+
+  return result
+}
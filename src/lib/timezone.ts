@@ -0,0 +1,179 @@
+/**
+ * 时区相关工具：所有“日期”均以 YYYY-MM-DD 字符串表示，按指定 IANA 时区的日历划分
+ */
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+/** 时区 -> UTC 小时 -> 该小时内的偏移（ms）；小时内发生偏移变化时为 null */
+const offsetCache = new Map<string, Map<number, number | null>>()
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+/** 每个时区最多缓存的小时数（约一年），超出后丢弃最早写入的 */
+const MAX_CACHED_HOURS = 24 * 366
+
+/** 时间戳在某个时区下的日历信息 */
+export interface ZonedParts {
+  /** YYYY-MM-DD */
+  date: string
+  /** 0-23 */
+  hour: number
+  /** 0=Sun, 1=Mon, ..., 6=Sat */
+  weekday: number
+}
+
+/**
+ * 获取系统本地时区
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/**
+ * 校验并规范化时区名称；未指定时使用本地时区
+ */
+export function resolveTimeZone(timeZone?: string | null): string {
+  if (!timeZone) return getLocalTimeZone()
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone
+  } catch {
+    throw new Error(`Invalid time zone: ${timeZone} (expected an IANA name such as Asia/Shanghai)`)
+  }
+}
+
+function getOffsetFormatter(timeZone: string): Intl.DateTimeFormat {
+  const key = `${timeZone}|offset`
+  let formatter = formatterCache.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatterCache.set(key, formatter)
+  }
+  return formatter
+}
+
+/**
+ * 时区在时间戳 t 时相对 UTC 的偏移（ms）
+ */
+function getTimeZoneOffset(t: number, timeZone: string): number {
+  const parts = getOffsetFormatter(timeZone).formatToParts(t)
+  const get = (type: Intl.DateTimeFormatPartTypes): number => Number(parts.find(p => p.type === type)?.value ?? 0)
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'))
+  return wallClock - Math.floor(t / 1000) * 1000
+}
+
+/**
+ * 获取时间戳在指定时区下的日期、小时与星期
+ * 偏移按 UTC 小时缓存：一小时内最多发生一次偏移变化，两端偏移相同则整小时可以直接换算，
+ * 不同（夏令时切换所在的小时）时逐个时间戳计算
+ */
+export function getZonedParts(time: number | Date, timeZone: string): ZonedParts {
+  const t = typeof time === 'number' ? time : time.getTime()
+  const hour = Math.floor(t / HOUR_MS)
+
+  let offsets = offsetCache.get(timeZone)
+  if (!offsets) {
+    offsets = new Map()
+    offsetCache.set(timeZone, offsets)
+  }
+  let offset = offsets.get(hour)
+  if (offset === undefined) {
+    const start = getTimeZoneOffset(hour * HOUR_MS, timeZone)
+    const end = getTimeZoneOffset((hour + 1) * HOUR_MS - 1, timeZone)
+    offset = start === end ? start : null
+    if (offsets.size >= MAX_CACHED_HOURS) offsets.delete(offsets.keys().next().value!)
+    offsets.set(hour, offset)
+  }
+
+  const local = t + (offset ?? getTimeZoneOffset(t, timeZone))
+  const day = Math.floor(local / DAY_MS)
+  return {
+    date: formatEpochDay(day),
+    hour: Math.floor((local - day * DAY_MS) / HOUR_MS),
+    // 1970-01-01 是周四
+    weekday: (((day + 4) % 7) + 7) % 7,
+  }
+}
+
+// 相邻记录通常在同一天，只记住最近一次的结果
+let lastEpochDay = NaN
+let lastEpochDate = ''
+
+function formatEpochDay(day: number): string {
+  if (day !== lastEpochDay) {
+    lastEpochDay = day
+    lastEpochDate = new Date(day * DAY_MS).toISOString().slice(0, 10)
+  }
+  return lastEpochDate
+}
+
+/**
+ * 将时间戳转换为指定时区的日期字符串（YYYY-MM-DD）
+ */
+export function toZonedDate(time: number | Date, timeZone: string): string {
+  return getZonedParts(time, timeZone).date
+}
+
+/**
+ * 将时间戳格式化为指定时区的日期时间（YYYY-MM-DD HH:mm）
+ */
+export function formatZonedDateTime(time: number, timeZone: string): string {
+  const key = `${timeZone}|datetime`
+  let formatter = formatterCache.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+    formatterCache.set(key, formatter)
+  }
+  const parts = formatter.formatToParts(time)
+  const get = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)?.value ?? ''
+  return `${get('year')}-${get('month')}-${get('day')} ${get('hour')}:${get('minute')}`
+}
+
+/**
+ * 将任意时间值（字符串 / 数字）转换为指定时区的日期字符串，无法解析时返回 null
+ */
+export function parseZonedDate(value: unknown, timeZone: string): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const t = new Date(value).getTime()
+  if (Number.isNaN(t)) return null
+  return toZonedDate(t, timeZone)
+}
+
+/**
+ * 指定时区的“今天”
+ */
+export function todayInZone(timeZone: string): string {
+  return toZonedDate(Date.now(), timeZone)
+}
+
+/**
+ * 日期字符串加减天数（纯日历运算，与时区无关）
+ */
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number)
+  const dt = new Date(Date.UTC(y!, m! - 1, d! + days))
+  return dt.toISOString().slice(0, 10)
+}
+
+/**
+ * 日期字符串对应的星期（0=Sun, 1=Mon, ..., 6=Sat）
+ */
+export function getWeekday(date: string): number {
+  const [y, m, d] = date.split('-').map(Number)
+  return new Date(Date.UTC(y!, m! - 1, d!)).getUTCDay()
+}
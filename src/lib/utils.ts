@@ -1,3 +1,5 @@
+import { USD_CURRENCY, type DisplayCurrency } from './currency.js'
+
 /**
  * 格式化数字，添加千分位分隔符
  */
@@ -7,12 +9,32 @@ export function formatNumber(num: number | string | null | undefined): string {
   return n.toLocaleString('en-US')
 }
 
+let costCurrency: DisplayCurrency = USD_CURRENCY
+
+/**
+ * 设置金额显示所用的币种（启动时由 --currency / 价格文件决定）
+ */
+export function setCostCurrency(currency: DisplayCurrency): void {
+  costCurrency = currency
+}
+
+export function getCostCurrency(): DisplayCurrency {
+  return costCurrency
+}
+
 /**
- * 格式化金额
+ * 把 USD 金额换算为显示币种
+ */
+export function convertCost(cost: number): number {
+  return cost * costCurrency.rate
+}
+
+/**
+ * 格式化金额（传入 USD，按显示币种换算并加符号）
  */
 export function formatCost(cost: number): string {
-  const n = Number.isFinite(cost) ? cost : 0
-  return `$${n.toFixed(2)}`
+  const n = Number.isFinite(cost) ? convertCost(cost) : 0
+  return `${costCurrency.symbol}${n.toFixed(2)}`
 }
 
 /**
@@ -59,3 +81,15 @@ export function padLeft(str: string, len: number): string {
 export function padRight(str: string, len: number): string {
   return str.padEnd(len)
 }
+
+/**
+ * 格式化时长 (如 2h 05m、12m、45s)
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${totalSeconds}s`
+}
@@ -0,0 +1,89 @@
+import fsSync from 'node:fs'
+import path from 'node:path'
+
+/** 无法递归监听时的轮询间隔 */
+export const WATCH_POLL_INTERVAL_MS = 5000
+
+export interface WatchOptions {
+  /** 变化事件合并的等待时间 */
+  debounceMs?: number
+  pollIntervalMs?: number
+  /** 回退到轮询时的提示，默认输出一行到 stderr */
+  onWarning?: (message: string) => void
+}
+
+/**
+ * 递归监听多个目录，变化事件按 debounceMs 合并后一次性回调
+ * - 不存在的目录会被跳过
+ * - 平台不支持递归监听（如 Node < 20 的 Linux）或监听出错时提示一次，并改为定时轮询；
+ *   轮询无法得知具体文件，回调参数为 null，表示需要检查全部文件
+ * 返回关闭所有监听的函数
+ */
+export function watchDirectories(
+  dirs: string[],
+  onChange: (changedPaths: string[] | null) => void,
+  options: WatchOptions = {}
+): () => void {
+  const { debounceMs = 500, pollIntervalMs = WATCH_POLL_INTERVAL_MS } = options
+  const onWarning = options.onWarning ?? ((message: string) => process.stderr.write(`${message}\n`))
+  const watchers: fsSync.FSWatcher[] = []
+  const pending = new Set<string>()
+  let pendingAll = false
+  let timer: NodeJS.Timeout | null = null
+  let poller: NodeJS.Timeout | null = null
+  const polledDirs = new Set<string>()
+
+  const flush = (): void => {
+    timer = null
+    if (pendingAll) {
+      pendingAll = false
+      pending.clear()
+      onChange(null)
+      return
+    }
+    if (pending.size === 0) return
+    const changed = [...pending]
+    pending.clear()
+    onChange(changed)
+  }
+
+  const schedule = (): void => {
+    if (timer) clearTimeout(timer)
+    timer = setTimeout(flush, debounceMs)
+  }
+
+  // 所有回退的目录共用一个定时器
+  const startPolling = (dir: string, err: unknown): void => {
+    if (polledDirs.has(dir)) return
+    polledDirs.add(dir)
+    const reason = (err as NodeJS.ErrnoException)?.code ?? String(err)
+    onWarning(`Warning: cannot watch ${dir} (${reason}), polling every ${pollIntervalMs / 1000}s instead`)
+    poller ??= setInterval(() => {
+      pendingAll = true
+      schedule()
+    }, pollIntervalMs)
+  }
+
+  for (const dir of new Set(dirs)) {
+    if (!fsSync.existsSync(dir)) continue
+    try {
+      const watcher = fsSync.watch(dir, { recursive: true }, (_event, filename) => {
+        pending.add(filename ? path.join(dir, filename.toString()) : dir)
+        schedule()
+      })
+      watcher.on('error', err => {
+        watcher.close()
+        startPolling(dir, err)
+      })
+      watchers.push(watcher)
+    } catch (err) {
+      startPolling(dir, err)
+    }
+  }
+
+  return () => {
+    if (timer) clearTimeout(timer)
+    if (poller) clearInterval(poller)
+    for (const watcher of watchers) watcher.close()
+  }
+}
@@ -4,7 +4,7 @@ import path from 'node:path'
 import os from 'node:os'
 import crypto from 'node:crypto'
 
-import { getIdeDataDir, getWorkspaceStorageDir } from './paths.js'
+import { resolveDataRoots, type DataRoots } from './paths.js'
 
 export interface WorkspaceMapping {
   hash: string
@@ -106,9 +106,8 @@ function computePathHash(p: string): string {
  * 背景：Remote SSH 场景下，server 侧 `workspaceStorage/<hash>/workspace.json` 可能不存在，
  * 但 CodeBuddyExtension 会把对话关联的文件路径写入 `file-tree.json`，可据此还原工作区根目录。
  */
-async function loadWorkspaceMappingsFromIdeFileTree(): Promise<Map<string, WorkspaceMapping>> {
+async function loadWorkspaceMappingsFromIdeFileTree(root: string): Promise<Map<string, WorkspaceMapping>> {
   const out = new Map<string, WorkspaceMapping>()
-  const root = getIdeDataDir()
 
   async function pathExists(p: string): Promise<boolean> {
     try {
@@ -258,9 +257,8 @@ async function loadWorkspaceMappingsFromIdeFileTree(): Promise<Map<string, Works
  *
  * 场景：有些对话没有触发 file-tree 落盘，但 messages 里常包含 tool-result 的绝对路径。
  */
-async function loadWorkspaceMappingsFromIdeHistory(): Promise<Map<string, WorkspaceMapping>> {
+async function loadWorkspaceMappingsFromIdeHistory(root: string): Promise<Map<string, WorkspaceMapping>> {
   const out = new Map<string, WorkspaceMapping>()
-  const root = getIdeDataDir()
 
   async function pathExists(p: string): Promise<boolean> {
     try {
@@ -423,56 +421,56 @@ async function loadWorkspaceMappingsFromIdeHistory(): Promise<Map<string, Worksp
 
 /**
  * 加载所有工作区映射
+ * roots 中的每个 workspaceStorage / IDE Data 目录都会被扫描，先找到的映射优先
  */
-export async function loadWorkspaceMappings(): Promise<Map<string, WorkspaceMapping>> {
+export async function loadWorkspaceMappings(
+  roots: Pick<DataRoots, 'ideDirs' | 'workspaceStorageDirs'> = resolveDataRoots()
+): Promise<Map<string, WorkspaceMapping>> {
   const mappings = new Map<string, WorkspaceMapping>()
 
   // 1) 尝试从客户端 workspaceStorage/workspace.json 解析
-  const storageDir = getWorkspaceStorageDir()
-  try {
-    const entries = await fs.readdir(storageDir, { withFileTypes: true })
-    for (const entry of entries) {
-      if (!entry.isDirectory()) continue
-
-      const workspaceJsonPath = path.join(storageDir, entry.name, 'workspace.json')
-      try {
-        const content = await fs.readFile(workspaceJsonPath, 'utf8')
-        const data = JSON.parse(content) as { folder?: string }
-        const folderUri = data.folder
-        if (!folderUri) continue
-
-        const extractedPath = extractPathFromUri(folderUri)
-        if (!extractedPath) continue
+  for (const storageDir of roots.workspaceStorageDirs) {
+    try {
+      const entries = await fs.readdir(storageDir, { withFileTypes: true })
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue
 
-        const hash = computePathHash(extractedPath)
-        const displayPath = getDisplayPath(folderUri)
-        mappings.set(hash, { hash, folderUri, displayPath })
-      } catch {
-        // ignore
+        const workspaceJsonPath = path.join(storageDir, entry.name, 'workspace.json')
+        try {
+          const content = await fs.readFile(workspaceJsonPath, 'utf8')
+          const data = JSON.parse(content) as { folder?: string }
+          const folderUri = data.folder
+          if (!folderUri) continue
+
+          const extractedPath = extractPathFromUri(folderUri)
+          if (!extractedPath) continue
+
+          const hash = computePathHash(extractedPath)
+          if (mappings.has(hash)) continue
+          const displayPath = getDisplayPath(folderUri)
+          mappings.set(hash, { hash, folderUri, displayPath })
+        } catch {
+          // ignore
+        }
       }
+    } catch {
+      // ignore
     }
-  } catch {
-    // ignore
   }
 
   // 2) Remote SSH 等场景的兜底：从 CodeBuddyIDE file-tree 反推
-  try {
-    const ideMappings = await loadWorkspaceMappingsFromIdeFileTree()
-    for (const [hash, mapping] of ideMappings) {
-      if (!mappings.has(hash)) mappings.set(hash, mapping)
-    }
-  } catch {
-    // ignore
-  }
-
   // 3) 进一步兜底：从 CodeBuddyIDE history/messages 反推（tool-result 常带绝对路径）
-  try {
-    const ideMappings = await loadWorkspaceMappingsFromIdeHistory()
-    for (const [hash, mapping] of ideMappings) {
-      if (!mappings.has(hash)) mappings.set(hash, mapping)
+  for (const loader of [loadWorkspaceMappingsFromIdeFileTree, loadWorkspaceMappingsFromIdeHistory]) {
+    for (const root of roots.ideDirs) {
+      try {
+        const ideMappings = await loader(root)
+        for (const [hash, mapping] of ideMappings) {
+          if (!mappings.has(hash)) mappings.set(hash, mapping)
+        }
+      } catch {
+        // ignore
+      }
     }
-  } catch {
-    // ignore
   }
 
   return mappings
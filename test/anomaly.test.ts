@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { ANOMALY_MIN_HISTORY, detectAnomalies } from '../src/lib/anomaly.js'
+import type { AnalysisData } from '../src/lib/data-loader.js'
+import { addDays } from '../src/lib/timezone.js'
+
+interface Spend {
+  date: string
+  project: string
+  model: string
+  cost: number
+}
+
+/** detectAnomalies 只用到 dailySummary 与 dailyData 的 cost */
+function buildData(spends: Spend[]): AnalysisData {
+  const dailySummary: Record<string, { cost: number }> = {}
+  const dailyData: Record<string, Record<string, Record<string, { cost: number }>>> = {}
+  for (const { date, project, model, cost } of spends) {
+    dailySummary[date] ??= { cost: 0 }
+    dailySummary[date]!.cost += cost
+    dailyData[date] ??= {}
+    dailyData[date]![project] ??= {}
+    dailyData[date]![project]![model] ??= { cost: 0 }
+    dailyData[date]![project]![model]!.cost += cost
+  }
+  return { dailySummary, dailyData } as unknown as AnalysisData
+}
+
+/** 从 2026-10-01 开始逐日的花费，都记在同一个项目与模型上 */
+function series(costs: number[], project = 'steady', model = 'gpt-5.1'): Spend[] {
+  return costs.map((cost, i) => ({ date: addDays('2026-10-01', i), project, model, cost }))
+}
+
+const STEADY = [1, 1.2, 0.8, 1, 1.1, 0.9, 1, 1.2, 0.8, 1, 1.1, 0.9, 1, 1]
+
+describe('detectAnomalies', () => {
+  test('相对前 14 天中位数的 robust z-score 超过阈值时标记，并列出推高花费的项目与模型', () => {
+    const spikeDate = addDays('2026-10-01', STEADY.length)
+    const report = detectAnomalies(
+      buildData([...series(STEADY), { date: spikeDate, project: 'burst', model: 'claude-4.5', cost: 20 }])
+    )
+    assert.equal(report.days.length, 1)
+    const [day] = report.days
+    assert.equal(day!.date, spikeDate)
+    assert.equal(day!.cost, 20)
+    assert.equal(day!.baseline, 1)
+    // MAD = 0.1 → 尺度 0.1 / 0.6745
+    assert.ok(Math.abs(day!.score - (19 * 0.6745) / 0.1) < 1e-9)
+    assert.deepEqual(
+      day!.projects.map(driver => [driver.key, driver.excess]),
+      [['burst', 20]]
+    )
+    assert.equal(day!.models[0]!.key, 'claude-4.5')
+  })
+
+  test('历史不足 ANOMALY_MIN_HISTORY 天时不判断', () => {
+    const report = detectAnomalies(buildData(series([...STEADY.slice(0, ANOMALY_MIN_HISTORY - 1), 50])))
+    assert.deepEqual(report.days, [])
+  })
+
+  test('多数天为 0（MAD 为 0）时改用平均绝对偏差', () => {
+    const costs = [0, 0, 2, 0, 0, 0, 2, 0, 0, 0, 30]
+    const report = detectAnomalies(buildData(series(costs)))
+    assert.deepEqual(
+      report.days.map(day => day.date),
+      [addDays('2026-10-01', 10)]
+    )
+    // 平均绝对偏差 = 4 / 10 → 尺度 0.4 / 0.7979
+    assert.ok(Math.abs(report.days[0]!.score - 30 / (0.4 / 0.7979)) < 1e-9)
+  })
+
+  test('超出基线不足 ANOMALY_MIN_EXCESS 的小额波动不算异常', () => {
+    const report = detectAnomalies(buildData(series([0.01, 0.01, 0.01, 0.01, 0.01, 0.01, 0.01, 0.5])))
+    assert.deepEqual(report.days, [])
+  })
+
+  test('sensitivity 越高越不敏感', () => {
+    const data = buildData(series([1, 1.2, 0.8, 1, 1.1, 0.9, 1, 3]))
+    const score = detectAnomalies(data, 0).days[0]!.score
+    assert.equal(detectAnomalies(data, score).days.length, 1)
+    assert.equal(detectAnomalies(data, score + 0.1).days.length, 0)
+  })
+
+  test('项目序列从首次出现开始计算，单独标记项目上的异常', () => {
+    const spends = [
+      ...series([...STEADY, 1]),
+      ...series([0, 0, 0, 0.5, 0.4, 0.6, 0.5, 0.5, 0.4, 0.6, 0.5, 0.5, 0.4, 0.6, 6], 'side'),
+    ]
+    const report = detectAnomalies(buildData(spends))
+    assert.deepEqual(
+      report.series.filter(point => point.series === 'project').map(point => [point.key, point.date]),
+      [['side', addDays('2026-10-01', 14)]]
+    )
+  })
+})
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict'
+import { execFile } from 'node:child_process'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import { promisify } from 'node:util'
+
+import { evaluateBudgets, getBudgetWindow, type Budget } from '../src/lib/budget.js'
+import { parseBudgetSpec } from '../src/lib/budget-config.js'
+import { resolveDisplayCurrency, USD_CURRENCY } from '../src/lib/currency.js'
+import { loadUsageData, type AnalysisData } from '../src/lib/data-loader.js'
+import type { JsonBudgetReport } from '../src/lib/json-report.js'
+import { codeRecord, useTempHome, writeJsonl } from './helpers.js'
+
+const execFileAsync = promisify(execFile)
+const ENTRY = fileURLToPath(new URL('../src/index.ts', import.meta.url))
+
+let root: string
+
+before(async () => {
+  root = await useTempHome()
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+describe('getBudgetWindow', () => {
+  test('当天、本周（周一开始）、本月', () => {
+    assert.deepEqual(getBudgetWindow('daily', '2026-10-21'), { since: '2026-10-21', until: '2026-10-21' })
+    assert.deepEqual(getBudgetWindow('weekly', '2026-10-21'), { since: '2026-10-19', until: '2026-10-21' })
+    assert.deepEqual(getBudgetWindow('weekly', '2026-10-25'), { since: '2026-10-19', until: '2026-10-25' })
+    assert.deepEqual(getBudgetWindow('monthly', '2026-10-21'), { since: '2026-10-01', until: '2026-10-21' })
+  })
+})
+
+describe('parseBudgetSpec', () => {
+  test('总预算与按项目 / 模型的预算', () => {
+    assert.deepEqual(parseBudgetSpec('monthly=200', USD_CURRENCY), { period: 'monthly', amount: 200, scope: 'total', pattern: null })
+    assert.deepEqual(parseBudgetSpec('project:api:weekly=50', USD_CURRENCY), {
+      period: 'weekly',
+      amount: 50,
+      scope: 'project',
+      pattern: 'api',
+    })
+    // pattern 中可以有冒号
+    assert.equal(parseBudgetSpec('model:vendor:opus:Daily=10', USD_CURRENCY).pattern, 'vendor:opus')
+  })
+
+  test('金额按显示币种换算为 USD', () => {
+    assert.equal(parseBudgetSpec('monthly=700', resolveDisplayCurrency('CNY', { USD: 1, CNY: 7 })).amount, 100)
+  })
+
+  test('格式错误', () => {
+    for (const spec of ['monthly', 'monthly=0', 'yearly=10', 'team:x:monthly=10', 'project::monthly=10']) {
+      assert.throws(() => parseBudgetSpec(spec, USD_CURRENCY), /Invalid --budget/)
+    }
+  })
+})
+
+describe('evaluateBudgets', () => {
+  let data: AnalysisData
+
+  before(async () => {
+    const codeDir = path.join(root, 'budget-projects')
+    await writeJsonl(path.join(codeDir, 'home-user-api', 'session-1.jsonl'), [
+      codeRecord('2026-10-20T10:00:00.000Z', 1_000_000, 10_000),
+      // 上个月的花费不计入本月预算
+      codeRecord('2026-09-30T10:00:00.000Z', 1_000_000, 10_000),
+    ])
+    await writeJsonl(path.join(codeDir, 'home-user-api-gateway', 'session-1.jsonl'), [
+      codeRecord('2026-10-21T10:00:00.000Z', 2_000_000, 20_000, 'claude-4.5'),
+    ])
+    await writeJsonl(path.join(codeDir, 'home-user-web', 'session-1.jsonl'), [
+      codeRecord('2026-10-21T11:00:00.000Z', 500_000, 5000),
+    ])
+    data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC', cache: 'off' })
+  })
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-10-21T12:00:00Z') })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  const budget = (scope: Budget['scope'], pattern: string | null, amount = 1000): Budget => ({ period: 'monthly', amount, scope, pattern })
+  const projectCost = (project: string): number => data.projectTotals[project]!.cost
+  const close = (actual: number, expected: number): void => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+
+  test('有全等匹配时只取全等的项目', () => {
+    const [status] = evaluateBudgets(data, [budget('project', 'HOME-USER-API')])
+    assert.deepEqual(status!.matches, ['home-user-api'])
+    close(status!.spent, data.dailySummary['2026-10-20']!.cost)
+  })
+
+  test('没有全等匹配时合计所有子串匹配', () => {
+    const [status] = evaluateBudgets(data, [budget('project', 'api')])
+    assert.deepEqual(status!.matches.sort(), ['home-user-api', 'home-user-api-gateway'])
+    close(status!.spent, data.dailySummary['2026-10-20']!.cost + projectCost('home-user-api-gateway'))
+  })
+
+  test('按模型匹配，没有匹配项时花费为 0', () => {
+    const [claude, missing] = evaluateBudgets(data, [budget('model', 'Claude'), budget('model', 'gemini')])
+    assert.deepEqual(claude!.matches, ['claude-4.5'])
+    close(claude!.spent, projectCost('home-user-api-gateway'))
+    assert.deepEqual(missing!.matches, [])
+    assert.equal(missing!.spent, 0)
+  })
+
+  test('按 warnAt 与上限判断状态', () => {
+    const total = data.dailySummary['2026-10-20']!.cost + data.dailySummary['2026-10-21']!.cost
+    const budgets = [budget('total', null, total * 2), budget('total', null, total / 0.9), budget('total', null, total)]
+    assert.deepEqual(
+      evaluateBudgets(data, budgets, 0.8).map(status => status.level),
+      ['ok', 'warning', 'exceeded']
+    )
+  })
+})
+
+describe('--check-budget', () => {
+  let codeDir: string
+
+  before(async () => {
+    codeDir = path.join(root, 'check-budget-projects')
+    await writeJsonl(path.join(codeDir, 'home-user-api', 'session-1.jsonl'), [
+      codeRecord(new Date().toISOString(), 1_000_000, 10_000),
+    ])
+  })
+
+  const checkBudget = async (...args: string[]): Promise<{ code: number; stdout: string }> => {
+    try {
+      const { stdout } = await execFileAsync(
+        process.execPath,
+        ['--import', 'tsx', ENTRY, '--check-budget', '--code-dir', codeDir, '--tz', 'UTC', '--no-cache', ...args],
+        { env: { ...process.env, NO_COLOR: '1' } }
+      )
+      return { code: 0, stdout }
+    } catch (err) {
+      const { code, stdout } = err as { code: number; stdout: string }
+      return { code, stdout }
+    }
+  }
+
+  test('预算超出时退出码为 3，--json 输出预算状态', async () => {
+    const { code, stdout } = await checkBudget('--json', '--budget', 'daily=0.01', '--budget', 'project:api:monthly=1000')
+    assert.equal(code, 3)
+    const report = JSON.parse(stdout) as JsonBudgetReport
+    assert.equal(report.schemaVersion, 2)
+    assert.deepEqual(report.summary, { ok: 1, warning: 0, exceeded: 1 })
+    assert.deepEqual(report.budgets[1]!.matches, ['home-user-api'])
+  })
+
+  test('没有超出时退出码为 0', async () => {
+    const { code, stdout } = await checkBudget('--budget', 'monthly=1000')
+    assert.equal(code, 0)
+    assert.match(stdout, /0 exceeded, 0 warning, 1 ok/)
+  })
+})
@@ -0,0 +1,532 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import {
+  createUsageLoader,
+  extractUsageStats,
+  loadUsageData,
+  type AnalysisData,
+  type LoadUsageOptions,
+  type RawUsage,
+} from '../src/lib/data-loader.js'
+import { appendJsonl, codeRecord, touchLater, useTempHome, writeJson, writeJsonl } from './helpers.js'
+
+let root: string
+
+before(async () => {
+  root = await useTempHome()
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+describe('extractUsageStats', () => {
+  test('OpenAI 风格：cached_tokens 包含在 prompt_tokens 中，reasoning_tokens 包含在 completion_tokens 中', () => {
+    const stats = extractUsageStats({
+      prompt_tokens: 1000,
+      completion_tokens: 300,
+      total_tokens: 1300,
+      prompt_tokens_details: { cached_tokens: 800 },
+      completion_tokens_details: { reasoning_tokens: 120 },
+    })
+    assert.deepEqual(stats, {
+      promptTokens: 1000,
+      completionTokens: 300,
+      totalTokens: 1300,
+      cacheHitTokens: 800,
+      cacheMissTokens: 200,
+      cacheWriteTokens: 0,
+      reasoningTokens: 120,
+    })
+  })
+
+  test('Anthropic 风格：input_tokens 不含缓存读写', () => {
+    const stats = extractUsageStats({
+      input_tokens: 50,
+      output_tokens: 400,
+      cache_read_input_tokens: 9000,
+      cache_creation_input_tokens: 1000,
+    })
+    assert.deepEqual(stats, {
+      promptTokens: 10_050,
+      completionTokens: 400,
+      totalTokens: 10_450,
+      cacheHitTokens: 9000,
+      cacheMissTokens: 50,
+      cacheWriteTokens: 1000,
+      reasoningTokens: 0,
+    })
+  })
+
+  test('prompt_tokens 包含缓存写入时不重复计入未命中', () => {
+    const stats = extractUsageStats({
+      prompt_tokens: 10_050,
+      completion_tokens: 400,
+      cache_read_input_tokens: 9000,
+      cache_creation_input_tokens: 1000,
+    })
+    assert.equal(stats.cacheMissTokens, 50)
+    assert.equal(stats.cacheHitTokens + stats.cacheMissTokens + stats.cacheWriteTokens, stats.promptTokens)
+
+    // prompt_tokens 放不下缓存写入时视为不包含
+    assert.equal(extractUsageStats({ prompt_tokens: 9050, cache_read_input_tokens: 9000, cache_creation_input_tokens: 1000 }).cacheMissTokens, 50)
+    // 只有缓存写入
+    assert.equal(extractUsageStats({ prompt_tokens: 1200, cache_creation_input_tokens: 1000 }).cacheMissTokens, 200)
+  })
+
+  test('DeepSeek 风格：直接读取命中 / 未命中', () => {
+    const stats = extractUsageStats({
+      prompt_tokens: 1000,
+      completion_tokens: 100,
+      prompt_cache_hit_tokens: 600,
+      prompt_cache_miss_tokens: 400,
+    })
+    assert.equal(stats.cacheHitTokens, 600)
+    assert.equal(stats.cacheMissTokens, 400)
+    assert.equal(stats.totalTokens, 1100)
+  })
+
+  test('没有缓存明细时未命中为 0，异常值视为缺失', () => {
+    assert.deepEqual(extractUsageStats({ prompt_tokens: 1000, completion_tokens: 100 }), {
+      promptTokens: 1000,
+      completionTokens: 100,
+      totalTokens: 1100,
+      cacheHitTokens: 0,
+      cacheMissTokens: 0,
+      cacheWriteTokens: 0,
+      reasoningTokens: 0,
+    })
+    const stats = extractUsageStats({ prompt_tokens: 1000, completion_tokens: 100, cache_read_input_tokens: -5 })
+    assert.equal(stats.cacheHitTokens, 0)
+  })
+})
+
+describe('Code 数据增量更新', () => {
+  let options: LoadUsageOptions
+  let sessionPath: string
+
+  before(async () => {
+    const codeDir = path.join(root, 'code-projects')
+    sessionPath = path.join(codeDir, 'home-user-alpha', 'session-1.jsonl')
+    options = { source: 'code', codeDirs: [codeDir], timeZone: 'UTC' }
+    await writeJsonl(sessionPath, [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100),
+      codeRecord('2026-10-19T10:00:00.000Z', 2000, 200),
+    ])
+  })
+
+  test('追加的行计入统计，结果与重新加载一致', async () => {
+    const loader = await createUsageLoader(options)
+    assert.equal(loader.data.grandTotal.requests, 2)
+
+    await appendJsonl(sessionPath, [codeRecord('2026-10-19T11:00:00.000Z', 3000, 300)])
+    assert.equal(await loader.update([sessionPath]), true)
+    assert.equal(loader.data.grandTotal.requests, 3)
+    assert.equal(loader.data.grandTotal.tokens, 6600)
+    assert.deepEqual(loader.data.grandTotal, (await loadUsageData(options)).grandTotal)
+  })
+
+  test('文件没有变化时 update 返回 false', async () => {
+    const loader = await createUsageLoader(options)
+    assert.equal(await loader.update([sessionPath]), false)
+    assert.equal(await loader.update(), false)
+  })
+
+  test('文件被截断时整体重算', async () => {
+    const loader = await createUsageLoader(options)
+    await writeJsonl(sessionPath, [codeRecord('2026-10-18T10:00:00.000Z', 1000, 100)])
+    assert.equal(await loader.update([sessionPath]), true)
+    assert.equal(loader.data.grandTotal.requests, 1)
+    assert.equal(loader.data.grandTotal.tokens, 1100)
+  })
+})
+
+describe('IDE 数据增量更新', () => {
+  let options: LoadUsageOptions
+  let workspaceDir: string
+  let convIndexPath: string
+
+  const ideRequest = (createdAt: string, inputTokens?: number, outputTokens?: number): unknown => ({
+    messages: [],
+    createdAt,
+    ...(inputTokens === undefined ? {} : { usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens! } }),
+  })
+
+  before(async () => {
+    const ideDir = path.join(root, 'ide-data')
+    workspaceDir = path.join(ideDir, 'u1', 'CodeBuddyIDE', 'history', 'f0edafc05a1a70944d350e9d0317fd7a')
+    convIndexPath = path.join(workspaceDir, 'conv-1', 'index.json')
+    options = { source: 'ide', ideDirs: [ideDir], workspaceStorageDirs: [path.join(root, 'no-storage')], timeZone: 'UTC' }
+    await writeJson(path.join(workspaceDir, 'index.json'), [
+      { id: 'conv-1', createdAt: '2026-10-18T09:00:00.000Z', lastMessageAt: '2026-10-19T12:00:00.000Z' },
+    ])
+  })
+
+  test('新增的请求计入统计', async () => {
+    await writeJson(convIndexPath, { requests: [ideRequest('2026-10-18T10:00:00.000Z', 1000, 100)] })
+    const loader = await createUsageLoader(options)
+    assert.equal(loader.data.grandTotal.tokens, 1100)
+
+    await writeJson(convIndexPath, {
+      requests: [ideRequest('2026-10-18T10:00:00.000Z', 1000, 100), ideRequest('2026-10-19T10:00:00.000Z', 2000, 200)],
+    })
+    await touchLater(convIndexPath)
+    assert.equal(await loader.update([convIndexPath]), true)
+    assert.equal(loader.data.grandTotal.requests, 2)
+    assert.deepEqual(loader.data.grandTotal, (await loadUsageData(options)).grandTotal)
+  })
+
+  test('已计入的请求稍后才写入 usage 时重新计算', async () => {
+    await writeJson(convIndexPath, {
+      requests: [ideRequest('2026-10-18T10:00:00.000Z', 1000, 100), ideRequest('2026-10-19T10:00:00.000Z')],
+    })
+    const loader = await createUsageLoader(options)
+    assert.equal(loader.data.grandTotal.requests, 2)
+    assert.equal(loader.data.grandTotal.tokens, 1100)
+
+    await writeJson(convIndexPath, {
+      requests: [ideRequest('2026-10-18T10:00:00.000Z', 1000, 100), ideRequest('2026-10-19T10:00:00.000Z', 5000, 500)],
+    })
+    await touchLater(convIndexPath)
+    assert.equal(await loader.update([convIndexPath]), true)
+    assert.equal(loader.data.grandTotal.requests, 2)
+    assert.equal(loader.data.grandTotal.tokens, 6600)
+    assert.deepEqual(loader.data.grandTotal, (await loadUsageData(options)).grandTotal)
+  })
+})
+
+describe('IDE 请求的日期', () => {
+  test('跨多天的对话按每个请求自身的时间计入，没有时间的请求按对话时间计入', async () => {
+    const ideDir = path.join(root, 'ide-dated')
+    const workspaceDir = path.join(ideDir, 'u1', 'CodeBuddyIDE', 'history', 'a1b2c3d4e5f60718293a4b5c6d7e8f90')
+    const conversationDir = path.join(workspaceDir, 'conv-1')
+    await writeJson(path.join(workspaceDir, 'index.json'), [
+      { id: 'conv-1', createdAt: '2026-10-15T09:00:00.000Z', lastMessageAt: '2026-10-18T12:00:00.000Z' },
+    ])
+    const usage = { inputTokens: 1000, outputTokens: 100, totalTokens: 1100 }
+    await writeJson(path.join(conversationDir, 'index.json'), {
+      requests: [
+        { messages: ['m1'], createdAt: '2026-10-15T10:00:00.000Z', usage },
+        { messages: ['m2'], usage },
+        { messages: ['m3'], usage },
+      ],
+    })
+    await writeJson(path.join(conversationDir, 'messages', 'm1.json'), { id: 'm1', extra: JSON.stringify({ modelId: 'claude-4.5' }) })
+    // content 中嵌套的时间字段排在消息自身的 createdAt 之前，不能被当成消息时间
+    await writeJson(path.join(conversationDir, 'messages', 'm2.json'), {
+      id: 'm2',
+      content: [{ type: 'tool-result', timestamp: '2026-10-02T08:00:00.000Z' }],
+      createdAt: '2026-10-16T10:00:00.000Z',
+    })
+    await writeJson(path.join(conversationDir, 'messages', 'm3.json'), {
+      id: 'm3',
+      content: [{ type: 'text', createdAt: '2026-10-03T08:00:00.000Z' }],
+    })
+
+    const data = await loadUsageData({
+      source: 'ide',
+      ideDirs: [ideDir],
+      workspaceStorageDirs: [path.join(root, 'no-storage')],
+      timeZone: 'UTC',
+    })
+    assert.deepEqual(
+      Object.fromEntries(Object.entries(data.dailySummary).map(([date, stats]) => [date, stats.requests])),
+      { '2026-10-15': 1, '2026-10-16': 1, '2026-10-18': 1 }
+    )
+    assert.equal(data.diagnostics.ideTimestampFallbacks, 1)
+    assert.equal(data.modelTotals['claude-4.5']?.requests, 1)
+  })
+})
+
+describe('合并数据源（all）', () => {
+  test('All 为 Code 与 IDE 之和，并按来源拆分', async () => {
+    const codeDir = path.join(root, 'combined-code')
+    const ideDir = path.join(root, 'combined-ide')
+    const workspaceHash = '0123456789abcdef0123456789abcdef'
+    const workspaceDir = path.join(ideDir, 'u1', 'CodeBuddyIDE', 'history', workspaceHash)
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100),
+      codeRecord('2026-10-19T10:00:00.000Z', 2000, 200, 'claude-4.5'),
+    ])
+    await writeJson(path.join(workspaceDir, 'index.json'), [
+      { id: 'conv-1', createdAt: '2026-10-19T09:00:00.000Z', lastMessageAt: '2026-10-19T12:00:00.000Z' },
+    ])
+    await writeJson(path.join(workspaceDir, 'conv-1', 'index.json'), {
+      requests: [
+        { messages: [], createdAt: '2026-10-19T11:00:00.000Z', usage: { inputTokens: 5000, outputTokens: 500, totalTokens: 5500 } },
+      ],
+    })
+
+    const options = {
+      codeDirs: [codeDir],
+      ideDirs: [ideDir],
+      workspaceStorageDirs: [path.join(root, 'no-storage')],
+      timeZone: 'UTC',
+    }
+    const code = await loadUsageData({ ...options, source: 'code' })
+    const ide = await loadUsageData({ ...options, source: 'ide' })
+    const all = await loadUsageData({ ...options, source: 'all' })
+
+    assert.equal(all.source, 'all')
+    assert.equal(all.grandTotal.requests, 3)
+    assert.equal(all.grandTotal.tokens, code.grandTotal.tokens + ide.grandTotal.tokens)
+    assert.ok(Math.abs(all.grandTotal.cost - (code.grandTotal.cost + ide.grandTotal.cost)) < 1e-12)
+    assert.deepEqual(all.grandTotal.sources, {
+      code: { cost: code.grandTotal.cost, tokens: 3300, requests: 2 },
+      ide: { cost: ide.grandTotal.cost, tokens: 5500, requests: 1 },
+    })
+    assert.deepEqual(Object.keys(all.projectTotals).sort(), [workspaceHash, 'home-user-alpha'].sort())
+    assert.deepEqual(Object.keys(all.dailySummary['2026-10-19']!.sources).sort(), ['code', 'ide'])
+    // IDE 请求没有 model ID，按默认模型计入
+    assert.equal(all.modelTotals['gpt-5.1']!.sources.ide?.requests, 1)
+    assert.equal(all.modelTotals['gpt-5.1']!.sources.code?.requests, 1)
+  })
+})
+
+describe('会话汇总', () => {
+  test('Code 每个 JSONL 文件、IDE 每个对话是一个会话', async () => {
+    const codeDir = path.join(root, 'sessions-code')
+    const ideDir = path.join(root, 'sessions-ide')
+    const firstPath = path.join(codeDir, 'home-user-alpha', 'session-1.jsonl')
+    const secondPath = path.join(codeDir, 'home-user-alpha', 'session-2.jsonl')
+    await writeJsonl(firstPath, [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100),
+      codeRecord('2026-10-18T10:30:00.000Z', 2000, 200, 'claude-4.5'),
+      codeRecord('2026-10-18T11:15:00.000Z', 3000, 300),
+    ])
+    await writeJsonl(secondPath, [codeRecord('2026-10-19T09:00:00.000Z', 1000, 100)])
+    const workspaceDir = path.join(ideDir, 'u1', 'CodeBuddyIDE', 'history', 'fedcba9876543210fedcba9876543210')
+    await writeJson(path.join(workspaceDir, 'index.json'), [
+      { id: 'conv-1', createdAt: '2026-10-19T08:00:00.000Z', lastMessageAt: '2026-10-19T09:00:00.000Z' },
+    ])
+    await writeJson(path.join(workspaceDir, 'conv-1', 'index.json'), {
+      requests: [
+        { messages: [], createdAt: '2026-10-19T08:20:00.000Z', usage: { inputTokens: 10, outputTokens: 5, totalTokens: 15 } },
+      ],
+    })
+
+    const data = await loadUsageData({
+      source: 'all',
+      codeDirs: [codeDir],
+      ideDirs: [ideDir],
+      workspaceStorageDirs: [path.join(root, 'no-storage')],
+      timeZone: 'UTC',
+    })
+    assert.equal(Object.keys(data.sessions).length, 3)
+
+    const first = data.sessions[firstPath]!
+    assert.equal(first.origin, 'code')
+    assert.equal(first.project, 'home-user-alpha')
+    assert.equal(first.requests, 3)
+    assert.equal(first.tokens, 6600)
+    assert.equal(first.firstTimestamp, Date.parse('2026-10-18T10:00:00.000Z'))
+    assert.equal(first.durationMs, 75 * 60 * 1000)
+    assert.deepEqual(Object.keys(first.models).sort(), ['claude-4.5', 'gpt-5.1'])
+    assert.equal(first.models['gpt-5.1']!.requests, 2)
+    assert.ok(Math.abs(first.models['gpt-5.1']!.cost + first.models['claude-4.5']!.cost - first.cost) < 1e-12)
+    assert.equal(data.sessions[secondPath]!.durationMs, 0)
+
+    // IDE 对话的时长从对话创建时间算起
+    const conversation = data.sessions[path.join(workspaceDir, 'conv-1')]!
+    assert.equal(conversation.origin, 'ide')
+    assert.equal(conversation.firstTimestamp, Date.parse('2026-10-19T08:00:00.000Z'))
+    assert.equal(conversation.durationMs, 20 * 60 * 1000)
+  })
+
+  test('日期范围之外的记录不计入会话', async () => {
+    const codeDir = path.join(root, 'sessions-code')
+    const data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC', since: '2026-10-19' })
+    assert.deepEqual(Object.keys(data.sessions), [path.join(codeDir, 'home-user-alpha', 'session-2.jsonl')])
+  })
+})
+
+describe('按小时活跃度', () => {
+  test('7×24 格，周一为第 0 行，按数据时区计算', async () => {
+    const codeDir = path.join(root, 'hourly-code')
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      // UTC 周一 10 点
+      codeRecord('2026-10-19T10:15:00.000Z', 1000, 100),
+      codeRecord('2026-10-19T10:45:00.000Z', 2000, 200),
+      // UTC 周日 23 点，上海已是周一 07 点
+      codeRecord('2026-10-25T23:30:00.000Z', 3000, 300),
+    ])
+    const load = (timeZone: string) => loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone })
+
+    const utc = await load('UTC')
+    assert.equal(utc.hourlyActivity.length, 7)
+    assert.ok(utc.hourlyActivity.every(hours => hours.length === 24))
+    assert.equal(utc.hourlyActivity[0]![10]!.requests, 2)
+    assert.equal(utc.hourlyActivity[0]![10]!.tokens, 3300)
+    assert.equal(utc.hourlyActivity[6]![23]!.requests, 1)
+
+    const total = utc.hourlyActivity.flat().reduce((sum, cell) => sum + cell.cost, 0)
+    assert.ok(Math.abs(total - utc.grandTotal.cost) < 1e-12)
+
+    const shanghai = await load('Asia/Shanghai')
+    assert.equal(shanghai.hourlyActivity[0]![18]!.requests, 2)
+    assert.equal(shanghai.hourlyActivity[0]![7]!.requests, 1)
+    assert.equal(shanghai.hourlyActivity[6]![23]!.requests, 0)
+  })
+})
+
+describe('加载诊断', () => {
+  test('统计扫描的目录、跳过的行和按默认价格计价的记录', async () => {
+    const codeDir = path.join(root, 'doctor-code')
+    const missingDir = path.join(root, 'doctor-missing')
+    const ideDir = path.join(root, 'doctor-ide')
+    const brokenPath = path.join(codeDir, 'home-user-alpha', 'broken.jsonl')
+    const chatPath = path.join(codeDir, 'home-user-alpha', 'chat.jsonl')
+    await writeJsonl(brokenPath, [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100, 'mystery-model'),
+      { timestamp: 'not a date', providerData: { rawUsage: { prompt_tokens: 1, completion_tokens: 1 } } },
+      { timestamp: '2026-10-18T11:00:00.000Z', providerData: { rawUsage: { prompt_tokens: 2000, completion_tokens: 200 } } },
+    ])
+    await fs.appendFile(brokenPath, '{"timestamp": \n')
+    // 只有普通消息的文件不算出错
+    await writeJsonl(chatPath, [{ timestamp: '2026-10-18T10:00:00.000Z', role: 'user' }])
+
+    const workspaceDir = path.join(ideDir, 'u1', 'CodeBuddyIDE', 'history', '00112233445566778899aabbccddeeff')
+    await writeJson(path.join(workspaceDir, 'index.json'), [
+      { id: 'conv-1', createdAt: '2026-10-18T09:00:00.000Z', lastMessageAt: '2026-10-18T12:00:00.000Z' },
+      { id: 'conv-missing', createdAt: '2026-10-18T09:00:00.000Z', lastMessageAt: '2026-10-18T12:00:00.000Z' },
+    ])
+    await writeJson(path.join(workspaceDir, 'conv-1', 'index.json'), {
+      requests: [{ messages: [], createdAt: '2026-10-18T10:00:00.000Z' }],
+    })
+
+    const data = await loadUsageData({
+      source: 'all',
+      codeDirs: [codeDir, missingDir],
+      ideDirs: [ideDir],
+      workspaceStorageDirs: [path.join(root, 'no-storage')],
+      timeZone: 'UTC',
+    })
+    const diag = data.diagnostics
+
+    assert.deepEqual(diag.codeRoots, [
+      { dir: codeDir, exists: true, entries: 2 },
+      { dir: missingDir, exists: false, entries: 0 },
+    ])
+    assert.equal(diag.codeFilesScanned, 2)
+    assert.deepEqual(diag.skippedLines, { badJson: 1, noUsage: 1, badTimestamp: 1 })
+    assert.deepEqual(diag.filesWithErrors, [{ path: brokenPath, badJson: 1, noUsage: 0, badTimestamp: 1 }])
+
+    // 没有 model 的 Code 记录与 IDE 请求按默认模型计价
+    assert.equal(diag.missingModelId.requests, 2)
+    assert.equal(diag.missingModelId.pricedAs, 'gpt-5.1')
+    assert.equal(diag.unknownModels['mystery-model']!.requests, 1)
+    assert.ok(Math.abs(diag.unknownModels['mystery-model']!.cost - data.modelTotals['mystery-model']!.cost) < 1e-12)
+    assert.equal(data.modelTotals['mystery-model']!.estimated, true)
+
+    assert.equal(diag.ideWorkspaces, 1)
+    assert.equal(diag.ideConversations, 1)
+    assert.deepEqual(diag.missingIndexes, [path.join(workspaceDir, 'conv-missing', 'index.json')])
+    assert.equal(diag.ideRequestsWithoutUsage, 1)
+    // 没有 workspaceStorage 时工作区 hash 无法还原
+    assert.ok(diag.unresolvedProjects.includes('00112233445566778899aabbccddeeff'))
+  })
+})
+
+describe('model ID 规范化', () => {
+  test('按原始 model ID 汇总，按规范化后的价格计价并记录在诊断中', async () => {
+    const codeDir = path.join(root, 'normalized-code')
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100, 'anthropic/claude-sonnet-4-5-20250929'),
+      codeRecord('2026-10-18T11:00:00.000Z', 1000, 100, 'claude-4.5'),
+    ])
+    const data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC' })
+
+    const normalized = data.modelTotals['anthropic/claude-sonnet-4-5-20250929']!
+    assert.equal(normalized.pricedAs, 'claude-4.5')
+    assert.equal(normalized.estimated, false)
+    assert.equal(normalized.cost, data.modelTotals['claude-4.5']!.cost)
+    assert.deepEqual(data.diagnostics.normalizedModels, { 'anthropic/claude-sonnet-4-5-20250929': 'claude-4.5' })
+    assert.deepEqual(data.diagnostics.unknownModels, {})
+  })
+})
+
+describe('价格历史', () => {
+  test('每条记录按其时间戳选用当时生效的价格', async () => {
+    const codeDir = path.join(root, 'dated-code')
+    const pricingFile = path.join(root, 'dated-pricing.json')
+    await writeJson(pricingFile, {
+      models: {
+        'gpt-5.1': [
+          { effectiveTo: '2025-11-13', prompt: [{ pricePerMTok: 1.5 }], completion: [{ pricePerMTok: 12 }] },
+          { effectiveFrom: '2025-11-13', prompt: [{ pricePerMTok: 1.25 }], completion: [{ pricePerMTok: 10 }] },
+        ],
+      },
+    })
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      codeRecord('2025-11-12T23:59:59.000Z', 1_000_000, 1_000_000),
+      codeRecord('2025-11-13T00:00:00.000Z', 1_000_000, 1_000_000),
+    ])
+    const data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC', pricingFile })
+
+    assert.ok(Math.abs(data.dailySummary['2025-11-12']!.cost - 13.5) < 1e-9)
+    assert.ok(Math.abs(data.dailySummary['2025-11-13']!.cost - 11.25) < 1e-9)
+  })
+})
+
+describe('分项费用与缓存节省', () => {
+  let data: AnalysisData
+
+  before(async () => {
+    const codeDir = path.join(root, 'breakdown-code')
+    const pricingFile = path.join(root, 'breakdown-pricing.json')
+    await writeJson(pricingFile, {
+      models: {
+        flat: {
+          prompt: [{ pricePerMTok: 1 }],
+          completion: [{ pricePerMTok: 10 }],
+          cacheRead: [{ pricePerMTok: 0.1 }],
+          cacheWrite: [{ pricePerMTok: 2 }],
+        },
+      },
+    })
+    const record = (timestamp: string, rawUsage: RawUsage): unknown => ({ timestamp, providerData: { model: 'flat', rawUsage } })
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      // 命中 800k、写入 100k、未命中 100k
+      record('2026-10-18T10:00:00.000Z', {
+        prompt_tokens: 1_000_000,
+        completion_tokens: 50_000,
+        cache_read_input_tokens: 800_000,
+        cache_creation_input_tokens: 100_000,
+      }),
+      // 没有缓存明细
+      record('2026-10-19T10:00:00.000Z', { prompt_tokens: 1_000_000, completion_tokens: 100_000 }),
+    ])
+    data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC', pricingFile })
+  })
+
+  const close = (actual: number, expected: number): void => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+
+  test('分项费用按记录累加到每日、模型、项目与总计', () => {
+    const { costs } = data.grandTotal
+    close(costs.input, 0.1 + 1)
+    close(costs.output, 0.5 + 1)
+    close(costs.cacheRead, 0.08)
+    close(costs.cacheWrite, 0.2)
+    close(data.grandTotal.cost, costs.input + costs.output + costs.cacheRead + costs.cacheWrite)
+    assert.deepEqual(data.modelTotals.flat!.costs, costs)
+    assert.deepEqual(data.projectTotals['home-user-alpha']!.costs, costs)
+    close(data.dailySummary['2026-10-18']!.costs.cacheWrite, 0.2)
+    close(data.dailySummary['2026-10-19']!.costs.input, 1)
+  })
+
+  test('缓存节省：读取省下的费用扣除写入溢价，没有缓存明细的记录不计节省', () => {
+    const { cacheSavings } = data.grandTotal
+    // 800k × (1 - 0.1)
+    close(cacheSavings.readSavings, 0.72)
+    // 100k × (2 - 1)
+    close(cacheSavings.writePremium, 0.1)
+    // 所有输入按 prompt 价：2M × 1 + 输出 1.5
+    close(cacheSavings.noCacheCost, 3.5)
+    close(cacheSavings.noCacheCost - data.grandTotal.cost, 0.62)
+    close(data.dailySummary['2026-10-19']!.cacheSavings.noCacheCost, data.dailySummary['2026-10-19']!.cost)
+    assert.deepEqual(data.modelTotals.flat!.cacheSavings, cacheSavings)
+  })
+})
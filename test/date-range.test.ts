@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, mock, test } from 'node:test'
+
+import { isDateInRange, parseDateArg, resolveComparisonRange, resolveDateRange, shiftMonths } from '../src/lib/date-range.js'
+
+// 2026-10-21 是周三；UTC 23:30 时上海已经是 10-22
+const NOW = Date.parse('2026-10-21T23:30:00Z')
+
+beforeEach(() => {
+  mock.timers.enable({ apis: ['Date'], now: NOW })
+})
+
+afterEach(() => {
+  mock.timers.reset()
+})
+
+describe('parseDateArg', () => {
+  test('接受合法的 YYYY-MM-DD', () => {
+    assert.equal(parseDateArg('2024-02-29'), '2024-02-29')
+  })
+
+  test('拒绝格式错误或不存在的日期', () => {
+    for (const value of ['2026-1-5', '2026/01/05', '2026-02-29', '2026-13-01', 'yesterday']) {
+      assert.throws(() => parseDateArg(value), /Invalid date/)
+    }
+  })
+})
+
+describe('resolveDateRange', () => {
+  test('没有任何选项时不限范围', () => {
+    assert.deepEqual(resolveDateRange({}, 'UTC'), { since: null, until: null, label: 'All time' })
+  })
+
+  test('--days 包含今天，today 按时区计算', () => {
+    assert.deepEqual(resolveDateRange({ days: 7 }, 'UTC'), { since: '2026-10-15', until: null, label: 'Last 7 days' })
+    assert.equal(resolveDateRange({ days: 1 }, 'Asia/Shanghai').since, '2026-10-22')
+  })
+
+  test('--since / --until', () => {
+    assert.deepEqual(resolveDateRange({ since: '2026-10-01', until: '2026-10-10' }, 'UTC'), {
+      since: '2026-10-01',
+      until: '2026-10-10',
+      label: '2026-10-01 → 2026-10-10',
+    })
+    assert.equal(resolveDateRange({ since: '2026-10-01' }, 'UTC').label, 'Since 2026-10-01')
+    assert.equal(resolveDateRange({ until: '2026-10-01' }, 'UTC').label, 'Until 2026-10-01')
+    assert.throws(() => resolveDateRange({ since: '2026-10-10', until: '2026-10-01' }, 'UTC'), /is after/)
+  })
+
+  test('日历预设', () => {
+    const range = (preset: 'this-week' | 'this-month' | 'last-month' | 'ytd', timeZone = 'UTC') => {
+      const { since, until } = resolveDateRange({ preset }, timeZone)
+      return [since, until]
+    }
+    assert.deepEqual(range('this-week'), ['2026-10-19', '2026-10-21'])
+    assert.deepEqual(range('this-month'), ['2026-10-01', '2026-10-21'])
+    assert.deepEqual(range('last-month'), ['2026-09-01', '2026-09-30'])
+    assert.deepEqual(range('ytd'), ['2026-01-01', '2026-10-21'])
+    assert.deepEqual(range('this-week', 'Asia/Shanghai'), ['2026-10-19', '2026-10-22'])
+  })
+
+  test('今天是周日时本周从周一开始', () => {
+    mock.timers.setTime(Date.parse('2026-10-25T12:00:00Z'))
+    assert.equal(resolveDateRange({ preset: 'this-week' }, 'UTC').since, '2026-10-19')
+  })
+
+  test('不同类型的选项不能同时使用', () => {
+    assert.throws(() => resolveDateRange({ days: 7, since: '2026-10-01' }, 'UTC'), /cannot be combined/)
+    assert.throws(() => resolveDateRange({ days: 7, preset: 'ytd' }, 'UTC'), /cannot be combined/)
+  })
+})
+
+describe('isDateInRange', () => {
+  test('两端都包含', () => {
+    const range = { since: '2026-10-01', until: '2026-10-31', label: '' }
+    assert.equal(isDateInRange('2026-10-01', range), true)
+    assert.equal(isDateInRange('2026-10-31', range), true)
+    assert.equal(isDateInRange('2026-09-30', range), false)
+    assert.equal(isDateInRange('2026-11-01', range), false)
+    assert.equal(isDateInRange('1999-01-01', { since: null, until: null, label: '' }), true)
+  })
+})
+
+describe('shiftMonths', () => {
+  test('按月平移，跨年', () => {
+    assert.equal(shiftMonths('2026-10-15', -1), '2026-09-15')
+    assert.equal(shiftMonths('2026-01-15', -1), '2025-12-15')
+    assert.equal(shiftMonths('2026-11-15', 2), '2027-01-15')
+    assert.equal(shiftMonths('2026-10-15', -12), '2025-10-15')
+  })
+
+  test('目标月份没有这一天时取月末', () => {
+    assert.equal(shiftMonths('2026-03-31', -1), '2026-02-28')
+    assert.equal(shiftMonths('2024-03-30', -1), '2024-02-29')
+    assert.equal(shiftMonths('2026-10-31', -1), '2026-09-30')
+    assert.equal(shiftMonths('2024-02-29', -12), '2023-02-28')
+  })
+})
+
+describe('resolveComparisonRange', () => {
+  const previous = (options: Parameters<typeof resolveComparisonRange>[1], timeZone = 'UTC') => {
+    const { since, until } = resolveComparisonRange('previous', options, timeZone)
+    return [since, until]
+  }
+
+  test('previous：--days 与 --since/--until 取紧挨着的等长一段', () => {
+    assert.deepEqual(previous({ days: 7 }), ['2026-10-08', '2026-10-14'])
+    assert.deepEqual(previous({ since: '2026-10-11', until: '2026-10-20' }), ['2026-10-01', '2026-10-10'])
+    // 没有 --until 时到今天为止
+    assert.deepEqual(previous({ since: '2026-10-20' }), ['2026-10-18', '2026-10-19'])
+  })
+
+  test('previous：日历预设取上一个同类周期的同一段', () => {
+    assert.deepEqual(previous({ preset: 'this-week' }), ['2026-10-12', '2026-10-14'])
+    assert.deepEqual(previous({ preset: 'this-month' }), ['2026-09-01', '2026-09-21'])
+    assert.deepEqual(previous({ preset: 'last-month' }), ['2026-08-01', '2026-08-31'])
+    assert.deepEqual(previous({ preset: 'ytd' }), ['2025-01-01', '2025-10-21'])
+  })
+
+  test('previous：本月为 31 日时上月取到月末', () => {
+    mock.timers.setTime(Date.parse('2026-10-31T12:00:00Z'))
+    assert.deepEqual(previous({ preset: 'this-month' }), ['2026-09-01', '2026-09-30'])
+  })
+
+  test('previous：当前范围没有起点时报错', () => {
+    assert.throws(() => resolveComparisonRange('previous', {}, 'UTC'), /needs a bounded date range/)
+    assert.throws(() => resolveComparisonRange('previous', { until: '2026-10-01' }, 'UTC'), /needs a bounded date range/)
+  })
+
+  test('预设名与 <since>..<until>', () => {
+    const lastMonth = resolveComparisonRange('last-month', { days: 7 }, 'UTC')
+    assert.deepEqual([lastMonth.since, lastMonth.until], ['2026-09-01', '2026-09-30'])
+    assert.deepEqual(resolveComparisonRange(' 2026-01-01..2026-01-31 ', {}, 'UTC'), {
+      since: '2026-01-01',
+      until: '2026-01-31',
+      label: '2026-01-01 → 2026-01-31',
+    })
+  })
+
+  test('无法解析的对比范围', () => {
+    for (const spec of ['last-year', '2026-01-01', '2026-01-01..', '2026-01-31..2026-01-01', '2026-02-30..2026-03-01']) {
+      assert.throws(() => resolveComparisonRange(spec, { days: 7 }, 'UTC'), /Invalid/)
+    }
+  })
+})
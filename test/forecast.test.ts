@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict'
+import { afterEach, beforeEach, describe, mock, test } from 'node:test'
+
+import type { AnalysisData } from '../src/lib/data-loader.js'
+import type { DateRange } from '../src/lib/date-range.js'
+import { buildForecast } from '../src/lib/forecast.js'
+import { addDays } from '../src/lib/timezone.js'
+
+// 2026-10-21 是周三
+const TODAY = '2026-10-21'
+
+/** buildForecast 只用到 dailySummary、dateRange 与 timeZone */
+function dailyCosts(since: string, until: string, cost: number, dateRange: DateRange): AnalysisData {
+  const dailySummary: Record<string, { cost: number }> = {}
+  for (let date = since; date <= until; date = addDays(date, 1)) {
+    if (!dateRange.since || date >= dateRange.since) dailySummary[date] = { cost }
+  }
+  return { dailySummary, dateRange, timeZone: 'UTC' } as unknown as AnalysisData
+}
+
+describe('buildForecast', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse(`${TODAY}T12:00:00Z`) })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  test('加载范围覆盖整个周期时按实际花费加历史日均推算', () => {
+    const forecast = buildForecast(dailyCosts('2026-09-01', TODAY, 2, { since: null, until: null, label: 'All time' }))!
+    assert.equal(forecast.today, TODAY)
+    assert.equal(forecast.historyDays, 28)
+    assert.equal(forecast.month.actual, 42)
+    assert.equal(forecast.month.remainingDays, 10)
+    assert.equal(forecast.month.projected, 62)
+    assert.equal(forecast.month.partial, false)
+    assert.equal(forecast.week.actual, 6)
+    assert.equal(forecast.week.partial, false)
+  })
+
+  test('加载范围从周期中途开始时标记为 partial', () => {
+    const forecast = buildForecast(dailyCosts('2026-09-01', TODAY, 2, { since: '2026-10-19', until: null, label: 'Last 3 days' }))!
+    assert.equal(forecast.week.partial, false)
+    assert.equal(forecast.month.partial, true)
+    assert.equal(forecast.month.actual, 6)
+  })
+
+  test('加载范围不包含今天时不预测', () => {
+    const range = { since: '2026-10-01', until: '2026-10-20', label: '2026-10-01 → 2026-10-20' }
+    assert.equal(buildForecast(dailyCosts('2026-10-01', '2026-10-20', 2, range)), null)
+  })
+})
@@ -0,0 +1,52 @@
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+/**
+ * 为当前测试进程创建独立的 HOME / XDG 目录，避免读写真实的配置、缓存与数据
+ * 返回临时根目录，调用方负责在 after() 中删除
+ */
+export async function useTempHome(): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'codebuddy-stats-test-'))
+  process.env.HOME = root
+  process.env.XDG_CONFIG_HOME = path.join(root, 'config')
+  process.env.XDG_DATA_HOME = path.join(root, 'data')
+  process.env.XDG_CACHE_HOME = path.join(root, 'cache')
+  return root
+}
+
+export async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, JSON.stringify(value))
+}
+
+/** 写入 Code 会话 JSONL：每条用量一行 */
+export async function writeJsonl(filePath: string, records: unknown[]): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(filePath, records.map(record => JSON.stringify(record) + '\n').join(''))
+}
+
+export async function appendJsonl(filePath: string, records: unknown[]): Promise<void> {
+  await fs.appendFile(filePath, records.map(record => JSON.stringify(record) + '\n').join(''))
+}
+
+/** 把文件 mtime 往后推，确保同一毫秒内的改写也能被识别为变化 */
+export async function touchLater(filePath: string, seconds = 10): Promise<void> {
+  const { mtimeMs } = await fs.stat(filePath)
+  const next = new Date(mtimeMs + seconds * 1000)
+  await fs.utimes(filePath, next, next)
+}
+
+export function codeRecord(timestamp: string, promptTokens: number, completionTokens: number, model = 'gpt-5.1'): unknown {
+  return {
+    timestamp,
+    providerData: {
+      model,
+      rawUsage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    },
+  }
+}
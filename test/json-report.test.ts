@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { detectAnomalies } from '../src/lib/anomaly.js'
+import { evaluateBudgets } from '../src/lib/budget.js'
+import { resolveDisplayCurrency, USD_CURRENCY, type DisplayCurrency } from '../src/lib/currency.js'
+import { loadUsageData, type AnalysisData } from '../src/lib/data-loader.js'
+import { buildJsonReport, type JsonReport } from '../src/lib/json-report.js'
+import { buildRollups } from '../src/lib/rollup.js'
+import { codeRecord, useTempHome, writeJsonl } from './helpers.js'
+
+let root: string
+let data: AnalysisData
+
+before(async () => {
+  root = await useTempHome()
+  const codeDir = path.join(root, 'code-projects')
+  await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+    codeRecord('2026-10-05T10:00:00.000Z', 100_000, 2000),
+    codeRecord('2026-10-06T10:00:00.000Z', 200_000, 4000, 'claude-4.5'),
+    codeRecord('2026-10-06T11:00:00.000Z', 1000, 100, 'mystery-model'),
+  ])
+  data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC' })
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+function buildReport(currency: DisplayCurrency): JsonReport {
+  return buildJsonReport(data, {
+    tool: { name: 'codebuddy-stats', version: '0.0.0' },
+    currency,
+    budgets: evaluateBudgets(data, [{ period: 'monthly', amount: 10, scope: 'total', pattern: null }]),
+    forecast: null,
+    anomalies: detectAnomalies(data),
+    comparison: null,
+    rollups: { granularity: 'week', periods: buildRollups(data, 'week') },
+    simulation: null,
+    includeDailyData: true,
+  })
+}
+
+describe('buildJsonReport', () => {
+  test('金额按显示币种换算，token 与比例不变', () => {
+    const usd = buildReport(USD_CURRENCY)
+    const cny = buildReport(resolveDisplayCurrency('CNY', { USD: 1, CNY: 7 }))
+    const close = (actual: number, expected: number): void => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+
+    assert.deepEqual(cny.currency, { code: 'CNY', base: 'USD', rate: 7 })
+    assert.ok(usd.totals.cost > 0)
+    close(cny.totals.cost, usd.totals.cost * 7)
+    close(cny.totals.costs.output, usd.totals.costs.output * 7)
+    close(cny.totals.cacheSavings.noCacheCost, usd.totals.cacheSavings.noCacheCost * 7)
+    close(cny.totals.sources.code!.cost, usd.totals.sources.code!.cost * 7)
+    close(cny.dailySummary['2026-10-05']!.cost, usd.dailySummary['2026-10-05']!.cost * 7)
+    close(cny.modelTotals['claude-4.5']!.cost, usd.modelTotals['claude-4.5']!.cost * 7)
+    close(cny.projectTotals['home-user-alpha']!.cost, usd.projectTotals['home-user-alpha']!.cost * 7)
+    close(cny.budgets[0]!.budget.amount, 70)
+    close(cny.budgets[0]!.spent, usd.budgets[0]!.spent * 7)
+    close(cny.rollups!.periods[0]!.topModel!.cost, usd.rollups!.periods[0]!.topModel!.cost * 7)
+    close(cny.dailyData!['2026-10-06']!['home-user-alpha']!['claude-4.5']!.cost, usd.dailyData!['2026-10-06']!['home-user-alpha']!['claude-4.5']!.cost * 7)
+
+    assert.equal(cny.totals.tokens, usd.totals.tokens)
+    assert.equal(cny.totals.cacheHitRate, usd.totals.cacheHitRate)
+    assert.equal(cny.budgets[0]!.ratio, usd.budgets[0]!.ratio)
+  })
+
+  test('输出会话、按小时活跃度与诊断信息，金额同样换算', () => {
+    const usd = buildReport(USD_CURRENCY)
+    const cny = buildReport(resolveDisplayCurrency('CNY', { USD: 1, CNY: 7 }))
+    const close = (actual: number, expected: number): void => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+
+    assert.equal(usd.schemaVersion, 2)
+    const [sessionId] = Object.keys(usd.sessions)
+    const session = usd.sessions[sessionId!]!
+    assert.equal(session.projectName, 'home-user-alpha')
+    assert.equal(session.requests, 3)
+    close(cny.sessions[sessionId!]!.cost, session.cost * 7)
+    close(cny.sessions[sessionId!]!.models['claude-4.5']!.cost, session.models['claude-4.5']!.cost * 7)
+
+    // 2026-10-06 是周二，UTC 10 点
+    assert.equal(usd.hourlyActivity.length, 7)
+    assert.equal(usd.hourlyActivity[1]![10]!.requests, 1)
+    close(cny.hourlyActivity[1]![10]!.cost, usd.hourlyActivity[1]![10]!.cost * 7)
+
+    assert.equal(usd.diagnostics.codeFilesScanned, 1)
+    assert.equal(usd.diagnostics.unknownModels['mystery-model']!.requests, 1)
+    close(cny.diagnostics.unknownModels['mystery-model']!.cost, usd.diagnostics.unknownModels['mystery-model']!.cost * 7)
+  })
+
+  test('不修改原始的分析数据', () => {
+    const before = data.grandTotal.cost
+    buildReport(resolveDisplayCurrency('CNY', { USD: 1, CNY: 7 }))
+    assert.equal(data.grandTotal.cost, before)
+  })
+})
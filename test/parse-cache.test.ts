@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { loadUsageData, type LoadUsageOptions } from '../src/lib/data-loader.js'
+import { createSkipCounts } from '../src/lib/diagnostics.js'
+import { loadParseCache, saveParseCache, type CachedFile } from '../src/lib/parse-cache.js'
+import { appendJsonl, codeRecord, touchLater, useTempHome, writeJsonl } from './helpers.js'
+
+let root: string
+
+before(async () => {
+  root = await useTempHome()
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+function cachedFile(): CachedFile {
+  return { size: 1, mtimeMs: 1, offset: 1, offsetHash: '', entries: [], skipped: createSkipCounts() }
+}
+
+describe('saveParseCache 清理条目', () => {
+  test('只清理本次扫描的根目录下的条目，其他根目录中仍存在的文件保留', async () => {
+    const defaultRoot = path.join(root, 'default-projects')
+    const backupRoot = path.join(root, 'backup-projects')
+    const kept = path.join(defaultRoot, 'p1', 'kept.jsonl')
+    const removed = path.join(defaultRoot, 'p1', 'removed.jsonl')
+    const backup = path.join(backupRoot, 'p2', 'backup.jsonl')
+    await fs.mkdir(path.dirname(kept), { recursive: true })
+    await fs.writeFile(kept, '')
+    await fs.writeFile(removed, '')
+
+    // 默认目录的一次运行
+    const first = await loadParseCache('use')
+    for (const filePath of [kept, removed]) {
+      first.files.set(filePath, cachedFile())
+      first.seen.add(filePath)
+    }
+    first.dirty = true
+    await saveParseCache(first, [defaultRoot])
+
+    // 另一次运行只扫描 --code-dir 指定的备份目录
+    const second = await loadParseCache('use')
+    second.files.set(backup, cachedFile())
+    second.seen.add(backup)
+    second.dirty = true
+    await saveParseCache(second, [backupRoot])
+    assert.deepEqual([...(await loadParseCache('use')).files.keys()].sort(), [backup, kept, removed].sort())
+
+    // 回到默认目录：removed.jsonl 已被删除；备份目录的文件也已不存在
+    await fs.rm(removed)
+    const third = await loadParseCache('use')
+    third.seen.add(kept)
+    await saveParseCache(third, [defaultRoot])
+    assert.deepEqual([...(await loadParseCache('use')).files.keys()], [kept])
+  })
+
+  test('off 模式不写缓存', async () => {
+    const cache = await loadParseCache('off')
+    assert.equal(cache.files.size, 0)
+    cache.files.set(path.join(root, 'x.jsonl'), cachedFile())
+    cache.dirty = true
+    await saveParseCache(cache, [root])
+    assert.equal((await loadParseCache('use')).files.has(path.join(root, 'x.jsonl')), false)
+  })
+})
+
+describe('Code 文件的解析缓存', () => {
+  let options: LoadUsageOptions
+  let sessionPath: string
+
+  before(async () => {
+    const codeDir = path.join(root, 'cached-projects')
+    sessionPath = path.join(codeDir, 'home-user-alpha', 'session-1.jsonl')
+    options = { source: 'code', codeDirs: [codeDir], timeZone: 'UTC' }
+    await writeJsonl(sessionPath, [
+      codeRecord('2026-10-18T10:00:00.000Z', 1000, 100),
+      codeRecord('2026-10-19T10:00:00.000Z', 2000, 200),
+    ])
+  })
+
+  test('只缓存统一后的 token 数，不保留原始 rawUsage', async () => {
+    await loadUsageData(options)
+    const cached = (await loadParseCache('use')).files.get(sessionPath)
+    assert.equal(cached?.entries.length, 2)
+    assert.deepEqual(Object.keys(cached!.entries[0]!).sort(), ['m', 's', 't'])
+    assert.equal(cached!.entries[1]!.s.promptTokens, 2000)
+  })
+
+  test('文件增长但已解析部分被改写时整文件重新解析', async () => {
+    await loadUsageData(options)
+    // 同长度改写已解析的最后一行，再追加一行：只检查文件变大会沿用旧的解析结果
+    const content = await fs.readFile(sessionPath, 'utf8')
+    await fs.writeFile(sessionPath, content.replace(/2000/g, '2999'))
+    await appendJsonl(sessionPath, [codeRecord('2026-10-19T11:00:00.000Z', 3000, 300)])
+    await touchLater(sessionPath)
+
+    const cachedData = await loadUsageData(options)
+    assert.equal((await loadParseCache('use')).files.get(sessionPath)?.entries[1]?.s.promptTokens, 2999)
+    assert.deepEqual(cachedData.grandTotal, (await loadUsageData({ ...options, cache: 'off' })).grandTotal)
+  })
+
+  test('只追加时从上次的位置继续解析', async () => {
+    await loadUsageData(options)
+    await appendJsonl(sessionPath, [codeRecord('2026-10-19T12:00:00.000Z', 4000, 400)])
+    await touchLater(sessionPath)
+
+    const cachedData = await loadUsageData(options)
+    assert.equal(cachedData.grandTotal.requests, 4)
+    assert.deepEqual(cachedData.grandTotal, (await loadUsageData({ ...options, cache: 'off' })).grandTotal)
+  })
+})
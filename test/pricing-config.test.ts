@@ -0,0 +1,136 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { loadActivePricing, validatePricingConfig } from '../src/lib/pricing-config.js'
+import { useTempHome } from './helpers.js'
+
+const FILE = 'pricing.json'
+
+function validate(raw: unknown) {
+  return validatePricingConfig(raw, FILE)
+}
+
+describe('validatePricingConfig', () => {
+  test('单一价格：最后一档 limit 可省略，cacheRead / cacheWrite 默认同 prompt', () => {
+    const config = validate({
+      models: {
+        'my-model': {
+          prompt: [{ limit: 200000, pricePerMTok: 3 }, { pricePerMTok: 6 }],
+          completion: [{ pricePerMTok: 15 }],
+        },
+      },
+    })
+    const [period] = config.models['my-model']!
+    assert.deepEqual(period!.prompt, [
+      { limit: 200000, pricePerMTok: 3 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 6 },
+    ])
+    assert.deepEqual(period!.cacheRead, period!.prompt)
+    assert.deepEqual(period!.cacheWrite, period!.prompt)
+    assert.deepEqual(config.aliases, {})
+    assert.equal(config.currency, null)
+  })
+
+  test('价格历史按 effectiveFrom 排序', () => {
+    const price = { prompt: [{ pricePerMTok: 1 }], completion: [{ pricePerMTok: 2 }] }
+    const config = validate({
+      models: {
+        'old-model': [
+          { ...price, effectiveFrom: '2025-06-01' },
+          { ...price, effectiveTo: '2025-06-01' },
+        ],
+      },
+    })
+    assert.deepEqual(
+      config.models['old-model']!.map(period => [period.effectiveFrom, period.effectiveTo]),
+      [
+        [undefined, '2025-06-01'],
+        ['2025-06-01', undefined],
+      ]
+    )
+  })
+
+  test('别名忽略大小写，汇率与币种代码规范化为大写', () => {
+    const config = validate({ aliases: { ' Sonnet ': 'claude-4.5' }, currency: 'eur', exchangeRates: { eur: 0.9 } })
+    assert.deepEqual(config.aliases, { sonnet: 'claude-4.5' })
+    assert.equal(config.currency, 'EUR')
+    assert.deepEqual(config.exchangeRates, { EUR: 0.9 })
+  })
+
+  test('错误信息带字段路径', () => {
+    const price = { prompt: [{ pricePerMTok: 1 }], completion: [{ pricePerMTok: 2 }] }
+    const cases: Array<[unknown, RegExp]> = [
+      [[], /root must be an object/],
+      [{ model: {} }, /model is not a known top-level field/],
+      [{ models: { m: { completion: [{ pricePerMTok: 1 }] } } }, /models\["m"\]\.prompt is required/],
+      [{ models: { m: { ...price, prompt: [] } } }, /models\["m"\]\.prompt must be a non-empty array/],
+      [{ models: { m: { ...price, prompt: [{ pricePerMTok: -1 }] } } }, /prompt\[0\]\.pricePerMTok must be a non-negative number/],
+      [{ models: { m: { ...price, prompt: [{ pricePerMTok: 1 }, { pricePerMTok: 2 }] } } }, /prompt\[0\]\.limit may only be omitted on the last tier/],
+      [
+        { models: { m: { ...price, prompt: [{ limit: 100, pricePerMTok: 1 }, { limit: 50, pricePerMTok: 2 }] } } },
+        /prompt\[1\]\.limit must be greater than the previous tier's limit \(100\)/,
+      ],
+      [{ models: { m: { ...price, price: 1 } } }, /models\["m"\]\.price is not a known field/],
+      [{ models: { m: { ...price, tierBy: 'context' } } }, /tierBy must be one of totalPrompt, component/],
+      [{ models: { m: { ...price, effectiveFrom: '2025-06-01', effectiveTo: '2025-01-01' } } }, /effectiveTo must be later than effectiveFrom/],
+      [
+        { models: { m: [{ ...price, effectiveTo: '2025-06-01' }, { ...price, effectiveFrom: '2025-05-01' }] } },
+        /models\["m"\]\[1\] overlaps models\["m"\]\[0\]/,
+      ],
+      [{ aliases: { sonnet: 'no-such-model' } }, /aliases\["sonnet"\] points to "no-such-model"/],
+      [{ models: { m: { ...price, currency: 'EUR' } } }, /models\["m"\]\.currency is EUR, which has no exchange rate/],
+      [{ exchangeRates: { USD: 2 } }, /exchangeRates\["USD"\] must be 1/],
+      [{ currency: 'yuan' }, /currency must be a 3-letter currency code/],
+    ]
+    for (const [raw, message] of cases) {
+      assert.throws(() => validate(raw), (err: Error) => {
+        assert.match(err.message, /^Invalid pricing file pricing\.json: /)
+        assert.match(err.message, message)
+        return true
+      })
+    }
+  })
+})
+
+describe('loadActivePricing', () => {
+  let root: string
+
+  before(async () => {
+    root = await useTempHome()
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  test('读取 YAML 价格文件，非 USD 价格换算为 USD', async () => {
+    const file = path.join(root, 'pricing.yaml')
+    await fs.writeFile(
+      file,
+      [
+        'models:',
+        '  glm-x:',
+        '    currency: CNY',
+        '    prompt: [{ limit: 32000, pricePerMTok: 7 }, { limit: .inf, pricePerMTok: 14 }]',
+        '    completion: [{ pricePerMTok: 28 }]',
+        'exchangeRates:',
+        '  CNY: 7',
+      ].join('\n')
+    )
+    const pricing = await loadActivePricing(file)
+    const [period] = pricing.table['glm-x']!
+    assert.deepEqual(period!.prompt, [
+      { limit: 32000, pricePerMTok: 1 },
+      { limit: Number.POSITIVE_INFINITY, pricePerMTok: 2 },
+    ])
+    assert.deepEqual(period!.completion, [{ limit: Number.POSITIVE_INFINITY, pricePerMTok: 4 }])
+    // 内置价格仍然可用
+    assert.ok(pricing.table['gpt-5.1'])
+  })
+
+  test('显式指定的文件不存在时报错', async () => {
+    await assert.rejects(loadActivePricing(path.join(root, 'missing.json')))
+  })
+})
@@ -0,0 +1,216 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { computeStatsCost, type UsageStats } from '../src/lib/data-loader.js'
+import {
+  createModelResolver,
+  DEFAULT_MODEL_ID,
+  getPricingForModel,
+  MODEL_PRICING,
+  selectPricingPeriod,
+  selectTierPrice,
+  type ModelPricing,
+  type PricingPeriod,
+  type PricingTable,
+  type PricingTier,
+} from '../src/lib/pricing.js'
+
+function tiers(low: number, high: number): PricingTier[] {
+  return [
+    { limit: 200_000, pricePerMTok: low },
+    { limit: Number.POSITIVE_INFINITY, pricePerMTok: high },
+  ]
+}
+
+const TIERED: ModelPricing = { prompt: tiers(1, 2), completion: tiers(10, 20), cacheRead: tiers(0.1, 0.2), cacheWrite: tiers(2, 4) }
+
+const TABLE: PricingTable = {
+  tiered: [TIERED],
+  'tiered-by-component': [{ ...TIERED, tierBy: 'component' }],
+}
+
+function usage(partial: Partial<UsageStats>): UsageStats {
+  const stats: UsageStats = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cacheHitTokens: 0,
+    cacheMissTokens: 0,
+    cacheWriteTokens: 0,
+    reasoningTokens: 0,
+    ...partial,
+  }
+  stats.promptTokens ||= stats.cacheHitTokens + stats.cacheMissTokens + stats.cacheWriteTokens
+  stats.totalTokens ||= stats.promptTokens + stats.completionTokens
+  return stats
+}
+
+function close(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-12, `${actual} != ${expected}`)
+}
+
+describe('selectTierPrice', () => {
+  test('按 limit 选档，limit 本身属于该档', () => {
+    const prices = tiers(1, 2)
+    assert.equal(selectTierPrice(0, prices), 1)
+    assert.equal(selectTierPrice(200_000, prices), 1)
+    assert.equal(selectTierPrice(200_001, prices), 2)
+  })
+})
+
+describe('computeStatsCost 分档', () => {
+  // 命中 150k + 未命中 60k：单看每个分项都在第一档，合计的输入上下文超过 200k
+  const stats = usage({ cacheHitTokens: 150_000, cacheMissTokens: 60_000, completionTokens: 1000 })
+
+  test('默认按整个请求的输入上下文选档，各分项同档', () => {
+    const { cost, costs } = computeStatsCost(stats, 'tiered', TABLE, 0)
+    close(costs.cacheRead, 0.03)
+    close(costs.input, 0.12)
+    close(costs.output, 0.02)
+    close(cost, 0.17)
+  })
+
+  test('tierBy: component 时各分项按自身 token 数选档', () => {
+    const { cost, costs } = computeStatsCost(stats, 'tiered-by-component', TABLE, 0)
+    close(costs.cacheRead, 0.015)
+    close(costs.input, 0.06)
+    close(costs.output, 0.01)
+    close(cost, 0.085)
+  })
+
+  test('缓存写入计入输入上下文', () => {
+    const { costs } = computeStatsCost(usage({ cacheMissTokens: 150_000, cacheWriteTokens: 60_000 }), 'tiered', TABLE, 0)
+    close(costs.input, 0.3)
+    close(costs.cacheWrite, 0.24)
+  })
+
+  test('输入上下文正好等于 limit 时仍在第一档', () => {
+    const { costs } = computeStatsCost(usage({ cacheHitTokens: 100_000, cacheMissTokens: 100_000 }), 'tiered', TABLE, 0)
+    close(costs.cacheRead, 0.01)
+    close(costs.input, 0.1)
+  })
+
+  test('没有缓存明细时按 promptTokens 选档', () => {
+    const { costs } = computeStatsCost(usage({ promptTokens: 250_000, completionTokens: 1000 }), 'tiered', TABLE, 0)
+    close(costs.input, 0.5)
+    close(costs.output, 0.02)
+    assert.equal(costs.cacheRead, 0)
+  })
+
+  test('缓存节省按同一档的 prompt 价计算', () => {
+    const { cacheSavings } = computeStatsCost(stats, 'tiered', TABLE, 0)
+    close(cacheSavings.readSavings, 0.27)
+    close(cacheSavings.writePremium, 0)
+    close(cacheSavings.noCacheCost, 0.44)
+  })
+})
+
+describe('computeStatsCost 分项费用', () => {
+  const flat = (pricePerMTok: number): PricingTier[] => [{ limit: Number.POSITIVE_INFINITY, pricePerMTok }]
+  const table: PricingTable = { flat: [{ prompt: flat(1), completion: flat(10), cacheRead: flat(0.1), cacheWrite: flat(2) }] }
+
+  test('输入、输出、缓存读取、缓存写入分别计价，合计为总费用', () => {
+    const stats = usage({ cacheHitTokens: 800_000, cacheMissTokens: 100_000, cacheWriteTokens: 100_000, completionTokens: 50_000 })
+    const { cost, costs } = computeStatsCost(stats, 'flat', table, 0)
+    close(costs.input, 0.1)
+    close(costs.output, 0.5)
+    close(costs.cacheRead, 0.08)
+    close(costs.cacheWrite, 0.2)
+    close(cost, costs.input + costs.output + costs.cacheRead + costs.cacheWrite)
+  })
+
+  test('没有缓存明细时全部输入计入 input', () => {
+    const { costs } = computeStatsCost(usage({ promptTokens: 1_000_000, completionTokens: 100_000 }), 'flat', table, 0)
+    assert.deepEqual(costs, { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 })
+  })
+
+  test('只有缓存写入时净节省为负', () => {
+    const { cost, cacheSavings } = computeStatsCost(usage({ cacheMissTokens: 100_000, cacheWriteTokens: 500_000 }), 'flat', table, 0)
+    close(cacheSavings.readSavings, 0)
+    close(cacheSavings.writePremium, 0.5)
+    close(cacheSavings.noCacheCost, 0.6)
+    assert.ok(cacheSavings.noCacheCost < cost)
+  })
+})
+
+describe('createModelResolver', () => {
+  const resolve = createModelResolver()
+
+  test('价格表中有的 model ID 原样返回，大小写与下划线不敏感', () => {
+    assert.equal(resolve('gpt-5.1'), 'gpt-5.1')
+    assert.equal(resolve('GPT-5.1'), 'gpt-5.1')
+    assert.equal(resolve('gemini_2.5_pro'), 'gemini-2.5-pro')
+    // 最接近原始值的写法优先：不会把 -chat-latest 去掉后匹配到 gpt-5.1
+    assert.equal(resolve('gpt-5.1-chat-latest'), 'gpt-5.1-chat-latest')
+  })
+
+  test('去掉厂商前缀、日期 / 版本后缀，版本号连字符转点号', () => {
+    assert.equal(resolve('openai/gpt-5.1'), 'gpt-5.1')
+    assert.equal(resolve('claude-opus-4-5-20251101'), 'claude-opus-4.5')
+    assert.equal(resolve('us.anthropic.claude-haiku-4-5-20251001-v1:0'), 'claude-haiku-4.5')
+    assert.equal(resolve('claude-4.5-opus'), 'claude-opus-4.5')
+  })
+
+  test('规范化之后再查内置别名', () => {
+    assert.equal(resolve('claude-sonnet-4-5'), 'claude-4.5')
+    assert.equal(resolve('anthropic/claude-sonnet-4-5@20250929'), 'claude-4.5')
+    assert.equal(resolve('gemini-3-pro-preview'), 'gemini-3.0-pro')
+  })
+
+  test('无法匹配时返回 null', () => {
+    assert.equal(resolve('llama-4'), null)
+    assert.equal(resolve(''), null)
+  })
+
+  test('自定义价格表与别名', () => {
+    const table = { ...MODEL_PRICING, 'My-Model': MODEL_PRICING['glm-4.6']! }
+    const custom = createModelResolver(table, { 'my-proxy': 'glm-4.6', dangling: 'no-such-model' })
+    assert.equal(custom('my_model'), 'My-Model')
+    assert.equal(custom('My-Proxy'), 'glm-4.6')
+    assert.equal(custom('dangling'), null)
+  })
+})
+
+describe('selectPricingPeriod', () => {
+  const period = (price: number, effectiveFrom?: string, effectiveTo?: string): PricingPeriod => ({
+    ...TIERED,
+    prompt: [{ limit: Number.POSITIVE_INFINITY, pricePerMTok: price }],
+    ...(effectiveFrom ? { effectiveFrom } : {}),
+    ...(effectiveTo ? { effectiveTo } : {}),
+  })
+  const periods = [period(1, '2025-01-01', '2025-06-01'), period(2, '2025-07-01', '2025-08-01'), period(3, '2025-09-01')]
+  const priceAt = (iso: string): number | undefined => selectPricingPeriod(periods, Date.parse(iso))?.prompt[0]?.pricePerMTok
+
+  test('effectiveFrom 含、effectiveTo 不含', () => {
+    assert.equal(priceAt('2025-03-01T00:00:00Z'), 1)
+    assert.equal(priceAt('2025-07-01T00:00:00Z'), 2)
+    assert.equal(priceAt('2025-07-31T23:59:59Z'), 2)
+    assert.equal(priceAt('2026-01-01T00:00:00Z'), 3)
+  })
+
+  test('早于所有时间段取最早的价格，落在两段之间取之前最近一段', () => {
+    assert.equal(priceAt('2024-12-31T00:00:00Z'), 1)
+    assert.equal(priceAt('2025-06-01T00:00:00Z'), 1)
+    assert.equal(priceAt('2025-08-15T00:00:00Z'), 2)
+  })
+
+  test('没有生效时间的单一价格总是生效', () => {
+    assert.equal(selectPricingPeriod([period(5)], 0)?.prompt[0]?.pricePerMTok, 5)
+    assert.equal(selectPricingPeriod([], 0), undefined)
+  })
+})
+
+describe('getPricingForModel', () => {
+  test('按时间戳选用价格，价格表中没有的 model 按默认模型计价', () => {
+    const table: PricingTable = {
+      ...MODEL_PRICING,
+      dated: [
+        { ...TIERED, effectiveTo: '2025-06-01' },
+        { ...TIERED, prompt: tiers(5, 6), effectiveFrom: '2025-06-01' },
+      ],
+    }
+    assert.equal(getPricingForModel('dated', table, Date.parse('2025-05-31T23:59:59Z')).prompt[0]!.pricePerMTok, 1)
+    assert.equal(getPricingForModel('dated', table, Date.parse('2025-06-01T00:00:00Z')).prompt[0]!.pricePerMTok, 5)
+    assert.equal(getPricingForModel('no-such-model', table), MODEL_PRICING[DEFAULT_MODEL_ID]![0])
+  })
+})
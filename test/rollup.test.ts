@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { loadUsageData, type AnalysisData } from '../src/lib/data-loader.js'
+import { buildRollups, formatPeriodLabel, getPeriodBounds } from '../src/lib/rollup.js'
+import { codeRecord, useTempHome, writeJsonl } from './helpers.js'
+
+describe('getPeriodBounds', () => {
+  test('ISO 周：周一开始，周四所在的年份为周年份', () => {
+    assert.deepEqual(getPeriodBounds('2026-10-19', 'week'), { key: '2026-W43', since: '2026-10-19', until: '2026-10-25' })
+    assert.deepEqual(getPeriodBounds('2026-10-25', 'week'), { key: '2026-W43', since: '2026-10-19', until: '2026-10-25' })
+    assert.equal(getPeriodBounds('2021-01-03', 'week').key, '2020-W53')
+    assert.equal(getPeriodBounds('2027-01-01', 'week').key, '2026-W53')
+    assert.equal(getPeriodBounds('2024-12-30', 'week').key, '2025-W01')
+    assert.equal(getPeriodBounds('2026-01-01', 'week').key, '2026-W01')
+  })
+
+  test('月：1 日至月末', () => {
+    assert.deepEqual(getPeriodBounds('2026-02-14', 'month'), { key: '2026-02', since: '2026-02-01', until: '2026-02-28' })
+    assert.deepEqual(getPeriodBounds('2024-02-29', 'month'), { key: '2024-02', since: '2024-02-01', until: '2024-02-29' })
+    assert.equal(getPeriodBounds('2026-12-31', 'month').until, '2026-12-31')
+  })
+
+  test('天', () => {
+    assert.deepEqual(getPeriodBounds('2026-10-19', 'day'), { key: '2026-10-19', since: '2026-10-19', until: '2026-10-19' })
+  })
+})
+
+describe('buildRollups', () => {
+  let root: string
+  let data: AnalysisData
+
+  before(async () => {
+    root = await useTempHome()
+    const codeDir = path.join(root, 'code-projects')
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      codeRecord('2026-09-30T10:00:00.000Z', 100_000, 1000),
+      codeRecord('2026-10-01T10:00:00.000Z', 100_000, 1000),
+      codeRecord('2026-10-05T10:00:00.000Z', 300_000, 3000, 'claude-4.5'),
+    ])
+    await writeJsonl(path.join(codeDir, 'home-user-beta', 'session-2.jsonl'), [
+      codeRecord('2026-10-06T10:00:00.000Z', 50_000, 500),
+    ])
+    data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC' })
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  test('按周汇总，周期按时间倒序，日期倒序', () => {
+    const rollups = buildRollups(data, 'week')
+    assert.deepEqual(
+      rollups.map(rollup => [rollup.key, rollup.dates]),
+      [
+        ['2026-W41', ['2026-10-06', '2026-10-05']],
+        ['2026-W40', ['2026-10-01', '2026-09-30']],
+      ]
+    )
+    const [latest] = rollups
+    assert.equal(latest!.requests, 2)
+    assert.equal(latest!.tokens, 353_500)
+    assert.equal(latest!.topModel!.id, 'claude-4.5')
+    assert.equal(latest!.topProject!.name, 'home-user-alpha')
+    assert.equal(latest!.cost, data.dailySummary['2026-10-05']!.cost + data.dailySummary['2026-10-06']!.cost)
+    assert.equal(latest!.sources.code!.requests, 2)
+  })
+
+  test('按月汇总跨月的周', () => {
+    const rollups = buildRollups(data, 'month')
+    assert.deepEqual(
+      rollups.map(rollup => [rollup.key, rollup.requests]),
+      [
+        ['2026-10', 3],
+        ['2026-09', 1],
+      ]
+    )
+    const total = rollups.reduce((sum, rollup) => sum + rollup.cost, 0)
+    assert.ok(Math.abs(total - data.grandTotal.cost) < 1e-9)
+  })
+
+  test('周期名称', () => {
+    const [week] = buildRollups(data, 'week')
+    assert.equal(formatPeriodLabel(week!, 'week'), '2026-W41 (10-05 → 10-11)')
+    assert.equal(formatPeriodLabel(buildRollups(data, 'month')[0]!, 'month'), '2026-10')
+  })
+})
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { loadUsageData, type AnalysisData } from '../src/lib/data-loader.js'
+import { parseSimulationSpec, simulateRepricing } from '../src/lib/simulator.js'
+import { codeRecord, useTempHome, writeJson, writeJsonl } from './helpers.js'
+
+let root: string
+let data: AnalysisData
+
+before(async () => {
+  root = await useTempHome()
+  const codeDir = path.join(root, 'code-projects')
+  const pricingFile = path.join(root, 'pricing.json')
+  await writeJson(pricingFile, {
+    models: {
+      'pricey-1': { prompt: [{ pricePerMTok: 10 }], completion: [{ pricePerMTok: 20 }] },
+      'cheap-1': { prompt: [{ pricePerMTok: 1 }], completion: [{ pricePerMTok: 2 }] },
+    },
+  })
+  await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+    codeRecord('2026-10-05T10:00:00.000Z', 1_000_000, 500_000, 'pricey-1'),
+  ])
+  await writeJsonl(path.join(codeDir, 'home-user-beta', 'session-2.jsonl'), [
+    codeRecord('2026-10-05T11:00:00.000Z', 1_000_000, 500_000, 'cheap-1'),
+  ])
+  data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'UTC', pricingFile })
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+function parse(spec: string) {
+  return parseSimulationSpec(spec, data.pricing.table, data.pricing.aliases)
+}
+
+describe('parseSimulationSpec', () => {
+  test('单个模型：所有用量换成该模型', () => {
+    assert.deepEqual(parse('cheap-1'), [{ pattern: '*', target: 'cheap-1' }])
+  })
+
+  test('映射列表，目标可按子串匹配', () => {
+    assert.deepEqual(parse('Pricey -> cheap, opus=claude-4.5'), [
+      { pattern: 'pricey', target: 'cheap-1' },
+      { pattern: 'opus', target: 'claude-4.5' },
+    ])
+  })
+
+  test('无法解析的规则', () => {
+    assert.throws(() => parse(' , '), /expected a model ID/)
+    assert.throws(() => parse('no-such-model'), /is not a known model/)
+    assert.throws(() => parse('gpt-5.1→claude'), /is ambiguous/)
+    assert.throws(() => parse('a→b→c'), /should look like from→to/)
+  })
+})
+
+describe('simulateRepricing', () => {
+  test('整体换成便宜的模型', () => {
+    const result = simulateRepricing(data, parse('cheap-1'))
+    assert.deepEqual(result.total, { actual: 22, simulated: 4, requests: 2 })
+    assert.equal(result.byModel['pricey-1']!.target, 'cheap-1')
+  })
+
+  test('只改写匹配的模型，其余费用不变', () => {
+    const result = simulateRepricing(data, parse('pricey→cheap-1'))
+    assert.deepEqual(result.total, { actual: 22, simulated: 4, requests: 2 })
+    assert.deepEqual(result.byModel['cheap-1'], { actual: 2, simulated: 2, requests: 1, target: null })
+    assert.deepEqual(result.byProject['home-user-alpha'], { actual: 20, simulated: 2, requests: 1 })
+  })
+
+  test('全等匹配优先于子串匹配', () => {
+    const result = simulateRepricing(data, parse('pricey→claude-4.5, pricey-1→cheap-1'))
+    assert.equal(result.byModel['pricey-1']!.target, 'cheap-1')
+  })
+})
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { after, before, describe, test } from 'node:test'
+
+import { loadUsageData } from '../src/lib/data-loader.js'
+import { getZonedParts, resolveTimeZone } from '../src/lib/timezone.js'
+import { codeRecord, useTempHome, writeJsonl } from './helpers.js'
+
+const zoned = (iso: string, timeZone: string): [string, number] => {
+  const { date, hour } = getZonedParts(Date.parse(iso), timeZone)
+  return [date, hour]
+}
+
+describe('getZonedParts', () => {
+  test('午夜前后落在不同的日期', () => {
+    assert.deepEqual(zoned('2026-10-18T15:59:59.999Z', 'Asia/Shanghai'), ['2026-10-18', 23])
+    assert.deepEqual(zoned('2026-10-18T16:00:00.000Z', 'Asia/Shanghai'), ['2026-10-19', 0])
+    // 偏移不是整小时的时区
+    assert.deepEqual(zoned('2026-10-18T18:14:00.000Z', 'Asia/Kathmandu'), ['2026-10-18', 23])
+    assert.deepEqual(zoned('2026-10-18T18:15:00.000Z', 'Asia/Kathmandu'), ['2026-10-19', 0])
+  })
+
+  test('夏令时切换', () => {
+    // 纽约 2026-03-08 02:00 EST 跳到 03:00 EDT
+    assert.deepEqual(zoned('2026-03-08T06:59:00Z', 'America/New_York'), ['2026-03-08', 1])
+    assert.deepEqual(zoned('2026-03-08T07:00:00Z', 'America/New_York'), ['2026-03-08', 3])
+    // 2026-11-01 01:00-02:00 重复一次；切换当天的午夜按 EDT 计算
+    assert.deepEqual(zoned('2026-11-01T03:59:00Z', 'America/New_York'), ['2026-10-31', 23])
+    assert.deepEqual(zoned('2026-11-01T04:00:00Z', 'America/New_York'), ['2026-11-01', 0])
+    assert.deepEqual(zoned('2026-11-01T05:30:00Z', 'America/New_York'), ['2026-11-01', 1])
+    assert.deepEqual(zoned('2026-11-01T06:30:00Z', 'America/New_York'), ['2026-11-01', 1])
+    // 豪勋爵岛的切换发生在 UTC 整点之间（+10:30 -> +11）
+    assert.deepEqual(zoned('2026-10-03T15:29:00Z', 'Australia/Lord_Howe'), ['2026-10-04', 1])
+    assert.deepEqual(zoned('2026-10-03T15:30:00Z', 'Australia/Lord_Howe'), ['2026-10-04', 2])
+  })
+
+  test('与 Intl 逐个计算的结果一致', () => {
+    const timeZones = ['UTC', 'Asia/Shanghai', 'America/New_York', 'Australia/Lord_Howe', 'Asia/Kathmandu', 'Europe/London']
+    const start = Date.parse('2025-01-01T00:00:00Z')
+    for (const timeZone of timeZones) {
+      const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        hourCycle: 'h23',
+      })
+      // 步长与小时不整除，覆盖小时内的不同位置
+      for (let t = start; t < start + 2 * 366 * 86_400_000; t += 7_777_777) {
+        const parts = formatter.formatToParts(t)
+        const get = (type: Intl.DateTimeFormatPartTypes): string => parts.find(p => p.type === type)?.value ?? ''
+        const expected = `${get('year')}-${get('month')}-${get('day')} ${Number(get('hour'))}`
+        const actual = getZonedParts(t, timeZone)
+        assert.equal(`${actual.date} ${actual.hour}`, expected, `${timeZone} ${new Date(t).toISOString()}`)
+        assert.equal(actual.weekday, new Date(`${actual.date}T00:00:00Z`).getUTCDay())
+      }
+    }
+  })
+})
+
+describe('resolveTimeZone', () => {
+  test('规范化时区名称，无效名称报错', () => {
+    assert.equal(resolveTimeZone('asia/shanghai'), 'Asia/Shanghai')
+    assert.throws(() => resolveTimeZone('Mars/Olympus'), /Invalid time zone/)
+  })
+})
+
+describe('--tz 按时区划分日期', () => {
+  let root: string
+  let codeDir: string
+
+  before(async () => {
+    root = await useTempHome()
+    codeDir = path.join(root, 'code-projects')
+    await writeJsonl(path.join(codeDir, 'home-user-alpha', 'session-1.jsonl'), [
+      codeRecord('2026-10-31T23:30:00.000Z', 1000, 100),
+      // 纽约夏令时结束前后的两个 01:30
+      codeRecord('2026-11-01T05:30:00.000Z', 2000, 200),
+      codeRecord('2026-11-01T06:30:00.000Z', 3000, 300),
+    ])
+  })
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  const requestsByDate = async (timeZone: string): Promise<Record<string, number>> => {
+    const data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone, cache: 'off' })
+    return Object.fromEntries(Object.entries(data.dailySummary).map(([date, stats]) => [date, stats.requests]))
+  }
+
+  test('同一批记录在不同时区落在不同的日期', async () => {
+    assert.deepEqual(await requestsByDate('UTC'), { '2026-10-31': 1, '2026-11-01': 2 })
+    assert.deepEqual(await requestsByDate('Asia/Shanghai'), { '2026-11-01': 3 })
+    assert.deepEqual(await requestsByDate('America/New_York'), { '2026-10-31': 1, '2026-11-01': 2 })
+  })
+
+  test('夏令时结束时重复的小时计入同一时段', async () => {
+    const data = await loadUsageData({ source: 'code', codeDirs: [codeDir], timeZone: 'America/New_York', cache: 'off' })
+    // 2026-11-01 是周日（weekday 6），两条记录都在本地 01 点
+    assert.equal(data.hourlyActivity[6]![1]!.requests, 2)
+    // 2026-10-31 19:30 EDT 是周六
+    assert.equal(data.hourlyActivity[5]![19]!.requests, 1)
+  })
+})
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { formatDuration } from '../src/lib/utils.js'
+
+describe('formatDuration', () => {
+  test('按秒、分钟、小时分档', () => {
+    assert.equal(formatDuration(0), '0s')
+    assert.equal(formatDuration(45_400), '45s')
+    assert.equal(formatDuration(12 * 60_000 + 29_000), '12m')
+    assert.equal(formatDuration(2 * 3_600_000 + 5 * 60_000), '2h 05m')
+  })
+
+  test('负数按 0 处理', () => {
+    assert.equal(formatDuration(-1000), '0s')
+  })
+})
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import fsSync from 'node:fs'
+import fs from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { after, before, describe, mock, test } from 'node:test'
+
+import { watchDirectories } from '../src/lib/watcher.js'
+
+let root: string
+
+before(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'codebuddy-stats-watch-'))
+})
+
+after(async () => {
+  await fs.rm(root, { recursive: true, force: true })
+})
+
+function nextChange(dirs: string[], options: Parameters<typeof watchDirectories>[2] = {}) {
+  let stop = (): void => {}
+  const changed = new Promise<string[] | null>(resolve => {
+    stop = watchDirectories(dirs, changedPaths => resolve(changedPaths), { debounceMs: 20, ...options })
+  })
+  return { changed, stop: () => stop() }
+}
+
+describe('watchDirectories', () => {
+  test('合并变化事件并回调变化的文件路径', async () => {
+    const { changed, stop } = nextChange([root, path.join(root, 'missing')])
+    try {
+      await fs.writeFile(path.join(root, 'a.jsonl'), '{}\n')
+      assert.deepEqual(await changed, [path.join(root, 'a.jsonl')])
+    } finally {
+      stop()
+    }
+  })
+
+  test('不支持递归监听时提示一次并改为轮询', async () => {
+    const unsupported = Object.assign(new Error('recursive watch is not supported'), {
+      code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+    })
+    const watchMock = mock.method(fsSync, 'watch', () => {
+      throw unsupported
+    })
+    const warnings: string[] = []
+    const { changed, stop } = nextChange([root], { pollIntervalMs: 20, onWarning: message => warnings.push(message) })
+    try {
+      assert.equal(await changed, null)
+      assert.equal(warnings.length, 1)
+      assert.match(warnings[0]!, /ERR_FEATURE_UNAVAILABLE_ON_PLATFORM/)
+    } finally {
+      stop()
+      watchMock.mock.restore()
+    }
+  })
+})